@@ -18,6 +18,7 @@ import { PropertiesPanel } from './components/PropertiesPanel';
 import { EdgePropertiesPanel } from './components/EdgePropertiesPanel';
 import { StatusBar } from './components/StatusBar';
 import { ResourceChart } from './components/ResourceChart';
+import { SweepPanel } from './components/SweepPanel';
 import { NodePalette } from './components/NodePalette';
 import { DraggableToolbar } from './components/DraggableToolbar';
 import { DraggablePanel } from './components/DraggablePanel';
@@ -55,11 +56,13 @@ function Flow() {
     paste,
     loadState,
     loadTemplate,
+    settings,
   } = useSimulatorStore();
 
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
   const { screenToFlowPosition } = useReactFlow();
   const [showChart, setShowChart] = useState(true);
+  const [showSweep, setShowSweep] = useState(false);
   const initialLoadDone = useRef(false);
 
   // Load from URL share link or localStorage on mount
@@ -71,7 +74,7 @@ function Flow() {
       // First, try to load from URL share link
       const sharedState = await parseShareableLink();
       if (sharedState) {
-        loadState(sharedState.nodes, sharedState.edges);
+        loadState(sharedState.nodes, sharedState.edges, sharedState.settings);
         // Clear the hash to avoid re-loading on refresh
         window.history.replaceState(null, '', window.location.pathname);
         return;
@@ -80,7 +83,7 @@ function Flow() {
       // Otherwise, load from localStorage
       const savedState = loadFromLocalStorage();
       if (savedState && savedState.nodes.length > 0) {
-        loadState(savedState.nodes, savedState.edges);
+        loadState(savedState.nodes, savedState.edges, savedState.settings);
       } else {
         loadTemplate('starter');
       }
@@ -96,11 +99,11 @@ function Flow() {
     
     // Debounce the save
     const timeout = setTimeout(() => {
-      saveToLocalStorage(nodes, edges);
+      saveToLocalStorage(nodes, edges, settings);
     }, 500);
 
     return () => clearTimeout(timeout);
-  }, [nodes, edges]);
+  }, [nodes, edges, settings]);
 
   // Handle keyboard shortcuts
   useEffect(() => {
@@ -182,10 +185,16 @@ function Flow() {
     [screenToFlowPosition, addNode]
   );
 
-  // Simulation tick - await scripts before each tick to avoid race conditions
+  // Simulation loop - runs in a Web Worker (engine + QuickJS scripts) and
+  // streams snapshots to the store, so the canvas stays responsive
   useEffect(() => {
     if (!isRunning) return;
 
+    const { startWorkerLoop, stopWorkerLoop } = useSimulatorStore.getState();
+    if (startWorkerLoop()) return stopWorkerLoop;
+
+    // Fallback without workers: tick on the main thread,
+    // awaiting scripts before each tick to avoid race conditions
     let cancelled = false;
     let timeoutId: ReturnType<typeof setTimeout> | null = null;
 
@@ -216,6 +225,8 @@ function Flow() {
       <DraggableToolbar
         onToggleChart={() => setShowChart((prev) => !prev)}
         showChart={showChart}
+        onToggleSweep={() => setShowSweep((prev) => !prev)}
+        showSweep={showSweep}
       />
       <DraggablePanel
         title="Nodes"
@@ -264,6 +275,10 @@ function Flow() {
                 case 'drain': return '#f87171';
                 case 'converter': return '#fbbf24';
                 case 'gate': return '#a78bfa';
+                case 'register': return '#2dd4bf';
+                case 'end': return '#e5e7eb';
+                case 'market': return '#84cc16';
+                case 'loot': return '#f97316';
                 default: return '#888';
               }
             }}
@@ -289,6 +304,18 @@ function Flow() {
         </DraggablePanel>
       )}
       
+      {showSweep && (
+        <DraggablePanel
+          title="📐 Parameter Sweep"
+          defaultPosition={{ x: 300, y: 80 }}
+          onClose={() => setShowSweep(false)}
+          className="sweep-draggable"
+          minWidth={340}
+        >
+          <SweepPanel />
+        </DraggablePanel>
+      )}
+      
       {selectedNodeId && (
         <DraggablePanel
           title="📝 Properties"
@@ -0,0 +1,200 @@
+/**
+ * Systemica command-line runner.
+ *
+ * Simulates a saved project (the JSON written by "Save project") headlessly,
+ * with exactly the same engine the editor uses, including QuickJS scripts.
+ *
+ * Usage:
+ *   npm run systemica -- run project.json --ticks 1000 --seed 42 --out results.csv
+ *
+ * Output: one row per tick with per-node totals and global token totals
+ * (same columns as the editor's "Export CSV"). Format is picked from the
+ * --out extension (.csv / .json) or forced with --format.
+ *
+ * Like Play in the editor, the run stops early when an End Condition node is met.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import type { ProjectData } from '../store/simulatorStore';
+import { createEngine, buildHistoryEntry, ResourceHistoryEntry, SimulationEnd } from '../engine/simulationEngine';
+import { migrateNodes } from '../utils/migration';
+import { historyToCSV } from '../utils/statsExport';
+
+type OutputFormat = 'csv' | 'json';
+
+interface RunOptions {
+  projectPath: string;
+  ticks: number;
+  seed?: number;
+  out?: string;
+  format: OutputFormat;
+  quiet: boolean;
+}
+
+const USAGE = `Usage: systemica run <project.json> [options]
+
+Options:
+  --ticks <n>          Number of ticks to simulate (default 100; an End Condition stops earlier)
+  --seed <n>           Override the project seed
+  --out <file>         Write results to a file (default: stdout)
+  --format <csv|json>  Output format (default: from --out extension, else csv)
+  --quiet              Don't print progress to stderr
+  --help               Show this help`;
+
+class CliError extends Error {}
+
+const parseInteger = (flag: string, value: string | undefined, min: number): number => {
+  const parsed = Number(value);
+  if (value === undefined || !Number.isInteger(parsed) || parsed < min) {
+    throw new CliError(`${flag} expects an integer >= ${min}`);
+  }
+  return parsed;
+};
+
+/**
+ * Parse `run` arguments into RunOptions.
+ */
+function parseRunArgs(args: string[]): RunOptions {
+  let projectPath: string | undefined;
+  let ticks = 100;
+  let seed: number | undefined;
+  let out: string | undefined;
+  let format: OutputFormat | undefined;
+  let quiet = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '--ticks':
+        ticks = parseInteger(arg, args[++i], 1);
+        break;
+      case '--seed':
+        seed = parseInteger(arg, args[++i], 0);
+        break;
+      case '--out':
+        out = args[++i];
+        if (!out) throw new CliError('--out expects a file path');
+        break;
+      case '--format': {
+        const value = args[++i];
+        if (value !== 'csv' && value !== 'json') throw new CliError('--format expects csv or json');
+        format = value;
+        break;
+      }
+      case '--quiet':
+        quiet = true;
+        break;
+      default:
+        if (arg.startsWith('--')) throw new CliError(`Unknown option: ${arg}`);
+        if (projectPath) throw new CliError(`Unexpected argument: ${arg}`);
+        projectPath = arg;
+    }
+  }
+
+  if (!projectPath) throw new CliError('Missing project file');
+
+  if (!format) {
+    format = out?.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+  }
+
+  return { projectPath, ticks, seed, out, format, quiet };
+}
+
+/**
+ * Read and validate a project file.
+ */
+function loadProjectFile(path: string): ProjectData {
+  let data: ProjectData;
+  try {
+    data = JSON.parse(readFileSync(path, 'utf-8')) as ProjectData;
+  } catch (err) {
+    throw new CliError(`Cannot read project ${path}: ${(err as Error).message}`);
+  }
+
+  // Same basic structure check as importFromFile in the editor
+  if (!data.version || !data.nodes || !data.edges) {
+    throw new CliError('Invalid project file format');
+  }
+
+  return data;
+}
+
+/**
+ * Simulate a project and return the per-tick history (including tick 0).
+ * Stops after `ticks` ticks, or when an End Condition is met.
+ */
+async function runProject(
+  project: ProjectData,
+  ticks: number,
+  seed: number | undefined,
+  onProgress?: (tick: number) => void
+): Promise<{ history: ResourceHistoryEntry[]; seed: number; end: SimulationEnd | null }> {
+  const settings = { ...project.settings, ...(seed !== undefined ? { seed } : {}) };
+  const engine = createEngine(migrateNodes(project.nodes), project.edges, { settings });
+
+  const history: ResourceHistoryEntry[] = [buildHistoryEntry(engine.getState().nodes, 0, engine.getSettings())];
+  for (let i = 0; i < ticks; i++) {
+    const result = await engine.stepAsync();
+    history.push(buildHistoryEntry(result.nodes, result.tick, engine.getSettings()));
+    onProgress?.(result.tick);
+    if (result.ended) return { history, seed: engine.getSettings().seed, end: result.ended };
+  }
+
+  return { history, seed: engine.getSettings().seed, end: null };
+}
+
+async function run(args: string[]): Promise<void> {
+  const options = parseRunArgs(args);
+  const project = loadProjectFile(options.projectPath);
+
+  const log = (msg: string) => {
+    if (!options.quiet) process.stderr.write(msg);
+  };
+
+  const progressStep = Math.max(1, Math.floor(options.ticks / 10));
+  const { history, seed, end } = await runProject(project, options.ticks, options.seed, (tick) => {
+    if (tick % progressStep === 0 || tick === options.ticks) log(`\rtick ${tick}/${options.ticks}`);
+  });
+  log('\n');
+  if (end) log(`Ended at tick ${end.tick}: ${end.reason}\n`);
+
+  const nodeLabels: Record<string, string> = {};
+  for (const node of project.nodes) nodeLabels[node.id] = node.data.label;
+
+  const output = options.format === 'json'
+    ? JSON.stringify({ name: project.name, seed, ticks: options.ticks, end, nodes: nodeLabels, history }, null, 2)
+    : historyToCSV(history, nodeLabels);
+
+  if (options.out) {
+    writeFileSync(options.out, output + '\n');
+    log(`Wrote ${history.length} rows to ${options.out} (seed ${seed})\n`);
+  } else {
+    process.stdout.write(output + '\n');
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+
+  if (!command || command === '--help' || command === 'help' || rest.includes('--help')) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  try {
+    if (command === 'run') {
+      await run(rest);
+      return 0;
+    }
+    throw new CliError(`Unknown command: ${command}`);
+  } catch (err) {
+    if (err instanceof CliError) {
+      console.error(`Error: ${err.message}\n\n${USAGE}`);
+      return 1;
+    }
+    console.error(err);
+    return 1;
+  }
+}
+
+main(process.argv.slice(2)).then((code) => process.exit(code));
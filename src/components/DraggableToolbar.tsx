@@ -1,4 +1,4 @@
-import { useRef, useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import Draggable from 'react-draggable';
 import { useSimulatorStore } from '../store/simulatorStore';
 import { TemplateDropdown } from './TemplateDropdown';
@@ -6,22 +6,29 @@ import {
   generateShareableLink,
   copyToClipboard 
 } from '../utils/persistence';
+import { generateSeed } from '../utils/random';
+import { EdgeKind, PropagationMode } from '../types';
+import { EDGE_KIND_LABELS } from '../utils/edgeKinds';
+import { MAX_MONTE_CARLO_SAMPLES, countMonteCarloSamples, countMonteCarloSeries } from '../engine/monteCarlo';
 
 interface DraggableToolbarProps {
   defaultPosition?: { x: number; y: number };
   onToggleChart: () => void;
   showChart: boolean;
+  onToggleSweep: () => void;
+  showSweep: boolean;
 }
 
 export function DraggableToolbar({ 
   defaultPosition = { x: 10, y: 10 },
   onToggleChart,
-  showChart
+  showChart,
+  onToggleSweep,
+  showSweep
 }: DraggableToolbarProps) {
   const { 
     isRunning, 
     toggleRunning, 
-    executeScriptsAsync,
     step, 
     reset,
     newProject,
@@ -42,12 +49,27 @@ export function DraggableToolbar({
     resourceHistory,
     nodes,
     edges,
+    settings,
+    updateSettings,
+    monteCarlo,
+    monteCarloProgress,
+    runMonteCarlo,
+    cancelMonteCarlo,
+    clearMonteCarlo,
+    exportMonteCarloCSV,
+    connectionKind,
+    setConnectionKind,
   } = useSimulatorStore();
   
   const nodeRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [shareMessage, setShareMessage] = useState<string | null>(null);
+  const [batchRuns, setBatchRuns] = useState(100);
+  const [batchTicks, setBatchTicks] = useState(100);
+  const [batchError, setBatchError] = useState<string | null>(null);
+  const batchSeries = useMemo(() => countMonteCarloSeries(nodes), [nodes]);
+  const batchTooLarge = countMonteCarloSamples(batchRuns, batchTicks, batchSeries) > MAX_MONTE_CARLO_SAMPLES;
 
   const handleNew = () => {
     if (nodes.length === 0) return;
@@ -85,7 +107,7 @@ export function DraggableToolbar({
 
   const handleShare = async () => {
     try {
-      const url = await generateShareableLink(nodes, edges);
+      const url = await generateShareableLink(nodes, edges, settings);
       await copyToClipboard(url);
       setShareMessage('✅ Link copied!');
       setTimeout(() => setShareMessage(null), 3000);
@@ -95,16 +117,13 @@ export function DraggableToolbar({
     }
   };
 
-  const handleToggleRunning = async () => {
-    if (!isRunning) {
-      await executeScriptsAsync();
+  const handleRunMonteCarlo = async () => {
+    setBatchError(null);
+    try {
+      await runMonteCarlo(batchRuns, batchTicks);
+    } catch (err) {
+      setBatchError(`❌ ${(err as Error).message}`);
     }
-    toggleRunning();
-  };
-
-  const handleStep = async () => {
-    await executeScriptsAsync();
-    step();
   };
 
   return (
@@ -140,10 +159,10 @@ export function DraggableToolbar({
             <div className="toolbar-section">
               <div className="section-label">Simulation</div>
               <div className="toolbar-buttons">
-                <button onClick={handleToggleRunning} className={isRunning ? 'active' : ''} title={isRunning ? 'Pause' : 'Play'}>
+                <button onClick={toggleRunning} className={isRunning ? 'active' : ''} title={isRunning ? 'Pause' : 'Play'}>
                   {isRunning ? '⏸️' : '▶️'}
                 </button>
-                <button onClick={handleStep} title="Step">⏭️</button>
+                <button onClick={step} title="Step">⏭️</button>
                 <button onClick={reset} title="Reset">🔄</button>
               </div>
               <div className="speed-control">
@@ -158,6 +177,73 @@ export function DraggableToolbar({
                 />
                 <span className="speed-value">{ticksPerSecond.toFixed(1)}x</span>
               </div>
+              <div className="seed-control" title="Random seed: the same seed always produces the same run">
+                <span className="seed-label">Seed</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={settings.seed}
+                  onChange={(e) => updateSettings({ seed: Math.max(0, parseInt(e.target.value) || 0) })}
+                />
+                <button onClick={() => updateSettings({ seed: generateSeed() })} title="New random seed">🎲</button>
+              </div>
+              <div className="propagation-control" title="Snapshot: one hop per tick. Same tick: resources cross whole acyclic chains in one tick">
+                <span className="seed-label">Flow</span>
+                <select
+                  value={settings.propagationMode}
+                  onChange={(e) => updateSettings({ propagationMode: e.target.value as PropagationMode })}
+                >
+                  <option value="snapshot">Snapshot (1 hop/tick)</option>
+                  <option value="topological">Same tick (chains)</option>
+                </select>
+              </div>
+            </div>
+
+            {/* Monte Carlo */}
+            <div className="toolbar-section">
+              <div className="section-label">Monte Carlo</div>
+              <div className="montecarlo-control" title="Run the project many times with different seeds">
+                <input
+                  type="number"
+                  min={1}
+                  max={10000}
+                  value={batchRuns}
+                  onChange={(e) => setBatchRuns(Math.max(1, Math.min(10000, parseInt(e.target.value) || 1)))}
+                  title="Runs"
+                />
+                <span>runs ×</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={10000}
+                  value={batchTicks}
+                  onChange={(e) => setBatchTicks(Math.max(1, Math.min(10000, parseInt(e.target.value) || 1)))}
+                  title="Ticks per run"
+                />
+                <span>ticks</span>
+              </div>
+              <div className="toolbar-buttons">
+                {monteCarloProgress === null ? (
+                  <button
+                    onClick={handleRunMonteCarlo}
+                    disabled={nodes.length === 0 || batchTooLarge}
+                    title={batchTooLarge
+                      ? `Runs × ticks × ${batchSeries} series must be at most ${MAX_MONTE_CARLO_SAMPLES.toLocaleString('en-US')} values`
+                      : 'Run batch'}
+                  >
+                    🎰
+                  </button>
+                ) : (
+                  <button onClick={cancelMonteCarlo} title="Stop batch">⏹️</button>
+                )}
+                <button onClick={exportMonteCarloCSV} disabled={!monteCarlo} title="Export Monte Carlo CSV">📊</button>
+                <button onClick={clearMonteCarlo} disabled={!monteCarlo} title="Clear Monte Carlo results">🗑️</button>
+                {monteCarloProgress !== null && (
+                  <span className="share-msg">{Math.round(monteCarloProgress * 100)}%</span>
+                )}
+                {monteCarloProgress === null && batchError && <span className="share-msg">{batchError}</span>}
+              </div>
             </div>
 
             {/* Edit Controls */}
@@ -171,6 +257,21 @@ export function DraggableToolbar({
               </div>
             </div>
 
+            {/* Kind of the connections drawn on the canvas */}
+            <div className="toolbar-section">
+              <div className="section-label">Connect</div>
+              <div className="propagation-control" title="Kind of the next connections you draw">
+                <select
+                  value={connectionKind}
+                  onChange={(e) => setConnectionKind(e.target.value as EdgeKind)}
+                >
+                  {(Object.keys(EDGE_KIND_LABELS) as EdgeKind[]).map((kind) => (
+                    <option key={kind} value={kind}>{EDGE_KIND_LABELS[kind]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
             {/* File Controls */}
             <div className="toolbar-section">
               <div className="section-label">File</div>
@@ -200,6 +301,9 @@ export function DraggableToolbar({
                 <button onClick={onToggleChart} title={showChart ? 'Hide chart' : 'Show chart'}>
                   {showChart ? '📈' : '📉'}
                 </button>
+                <button onClick={onToggleSweep} className={showSweep ? 'active' : ''} title={showSweep ? 'Hide parameter sweep' : 'Parameter sweep'}>
+                  📐
+                </button>
                 {shareMessage && <span className="share-msg">{shareMessage}</span>}
               </div>
             </div>
@@ -1,12 +1,29 @@
+import { useState } from 'react';
 import { useSimulatorStore, EdgeData } from '../store/simulatorStore';
+import { useTokenStore } from '../store/tokenStore';
+import { FlowRateMode, GateComparison, GateDistribution, ModifierTarget } from '../types';
+import { validateFormula } from '../utils/formulaEvaluator';
+import { validateScript } from '../utils/scriptRunner';
+import { validateFlowNotation } from '../utils/flowNotation';
+import { getRegisterValues } from '../utils/registers';
+import { getMarketPrices } from '../utils/market';
+import { MODIFIER_TARGET_LABELS, getModifierTargets, isStateEdge, validateModifier } from '../utils/modifiers';
+import { getEdgeKind, isResourceEdge } from '../utils/edgeKinds';
+import { GATE_COMPARISON_SYMBOLS } from '../utils/gateConditions';
 
 interface EdgePropertiesPanelProps {
   edgeId: string;
 }
 
 export function EdgePropertiesPanel({ edgeId }: EdgePropertiesPanelProps) {
-  const { edges, updateEdgeData } = useSimulatorStore();
+  const { nodes, edges, updateEdgeData, currentTick } = useSimulatorStore();
+  const getAllTokens = useTokenStore((state) => state.getAllTokens);
   const edge = edges.find((e) => e.id === edgeId);
+  const [formulaError, setFormulaError] = useState<string | null>(null);
+  const [formulaValid, setFormulaValid] = useState(false);
+  const [scriptError, setScriptError] = useState<string | null>(null);
+  const [scriptValid, setScriptValid] = useState(false);
+  const [validatingScript, setValidatingScript] = useState(false);
 
   if (!edge) return null;
 
@@ -16,12 +33,198 @@ export function EdgePropertiesPanel({ edgeId }: EdgePropertiesPanelProps) {
     updateEdgeData(edgeId, { flowRate: Math.max(0, value) });
   };
 
+  const flowMode: FlowRateMode = data.flowMode ?? 'fixed';
+  const lastOutput = data.scriptState?.lastOutput;
+  const lastError = data.scriptState?.lastError;
+  // Validated while typing (empty = not entered yet)
+  const notationError = data.flowNotation ? validateFlowNotation(data.flowNotation) : null;
+
+  const tokenFilter = data.tokenFilter ?? [];
+  const registers = getRegisterValues(nodes);
+  const registerNames = Object.keys(registers);
+  // Preview only (names for autocomplete): formula prices using random() aren't seeded here
+  const prices = getMarketPrices(nodes, { tick: currentTick, registers, random: Math.random });
+  const priceNames = Object.keys(prices).map((tokenId) => `prices.${tokenId}`);
+
+  // Outputs of a weighted gate carry a weight (see GateDistribution)
+  const sourceNode = nodes.find((n) => n.id === edge.source);
+  const gateDistribution: GateDistribution = sourceNode?.data.nodeType === 'gate'
+    ? sourceNode.data.gateDistribution ?? 'flow'
+    : 'flow';
+  const outputWeightTotal = edges
+    .filter((e) => e.source === edge.source && isResourceEdge(e.data))
+    .reduce((sum, e) => sum + Math.max(0, e.data?.weight ?? 1), 0);
+  const formatShare = (weight: number) =>
+    outputWeightTotal > 0 ? `${Number(((weight / outputWeightTotal) * 100).toFixed(1))}%` : '0%';
+
+  const handleToggleToken = (tokenId: string) => {
+    const next = tokenFilter.includes(tokenId)
+      ? tokenFilter.filter((id) => id !== tokenId)
+      : [...tokenFilter, tokenId];
+    updateEdgeData(edgeId, { tokenFilter: next.length > 0 ? next : undefined });
+  };
+
+  const targetLabel = nodes.find((n) => n.id === edge.target)?.data.label ?? edge.target;
+  const originLabel = sourceNode?.data.label ?? edge.source;
+
+  // Trigger: fires the target source when the origin moves resources
+  if (getEdgeKind(data) === 'trigger') {
+    return (
+      <div className="properties-panel edge-properties-panel">
+        <h3>🔔 Trigger</h3>
+        <div className="property-group info">
+          <span>Every tick in which {originLabel} sends, receives, consumes or converts resources, {targetLabel} produces once (like a click on a manual source).</span>
+        </div>
+        <div className="property-group">
+          <label>From → To</label>
+          <div style={{ fontSize: '0.85rem', color: '#888' }}>
+            {edge.source} → {edge.target}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Activator: the target is active only while the condition holds
+  if (getEdgeKind(data) === 'activator') {
+    return (
+      <div className="properties-panel edge-properties-panel">
+        <h3>🔌 Activator</h3>
+
+        <div className="property-group">
+          <label>Active while {originLabel}</label>
+          <div className="gate-clause">
+            <select
+              value={data.activatorTokenId ?? ''}
+              onChange={(e) => updateEdgeData(edgeId, { activatorTokenId: e.target.value || undefined })}
+              title="Value checked: total resources or one token type"
+            >
+              <option value="">Total</option>
+              {getAllTokens().map((token) => (
+                <option key={token.id} value={token.id}>{token.emoji || '●'} {token.name}</option>
+              ))}
+            </select>
+            <select
+              value={data.activatorComparison ?? 'above'}
+              onChange={(e) => updateEdgeData(edgeId, { activatorComparison: e.target.value as GateComparison })}
+            >
+              {(Object.keys(GATE_COMPARISON_SYMBOLS) as GateComparison[]).map((comparison) => (
+                <option key={comparison} value={comparison}>{GATE_COMPARISON_SYMBOLS[comparison]}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              value={data.activatorThreshold ?? 0}
+              step={1}
+              onChange={(e) => updateEdgeData(edgeId, { activatorThreshold: parseFloat(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="formula-help">
+            <small>Checked on {originLabel}'s start-of-tick value (resources, or a register's value)</small>
+            <small>{targetLabel} is inactive in the ticks where the condition fails (with several activators, all must hold)</small>
+          </div>
+        </div>
+
+        <div className="property-group">
+          <label>From → To</label>
+          <div style={{ fontSize: '0.85rem', color: '#888' }}>
+            {edge.source} → {edge.target}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // State connection: modifier of a target property instead of a flow
+  if (isStateEdge(data)) {
+    const targetNode = nodes.find((n) => n.id === edge.target);
+    const modifierTargets = targetNode ? getModifierTargets(targetNode.data.nodeType) : [];
+    const modifierError = validateModifier(data.modifier ?? '');
+    return (
+      <div className="properties-panel edge-properties-panel">
+        <h3>⚡ State Connection</h3>
+
+        <div className="property-group">
+          <label>Modifier</label>
+          <input
+            type="text"
+            value={data.modifier ?? ''}
+            placeholder="e.g., +1, -2, +10%, *0.5"
+            className={modifierError ? 'error' : 'valid'}
+            onChange={(e) => updateEdgeData(edgeId, { modifier: e.target.value })}
+          />
+          {modifierError && <span className="formula-error">❌ {modifierError}</span>}
+          <div className="formula-help">
+            <small>+N and +N% apply per unit of {sourceNode?.data.label ?? 'the origin'}'s value (resources, or a register's value)</small>
+            <small>+1: adds 1 per unit · +10%: adds 10% of the property per unit · *0.5: halves it once, while the origin isn't 0</small>
+          </div>
+        </div>
+
+        <div className="property-group">
+          <label>Modifies</label>
+          <select
+            value={data.modifierTarget ?? modifierTargets[0] ?? ''}
+            onChange={(e) => updateEdgeData(edgeId, { modifierTarget: e.target.value as ModifierTarget })}
+          >
+            {modifierTargets.map((target) => (
+              <option key={target} value={target}>{MODIFIER_TARGET_LABELS[target]}</option>
+            ))}
+          </select>
+          <div className="formula-help">
+            <small>{
+              (data.modifierTarget ?? modifierTargets[0]) === 'flowRate'
+                ? 'Flow rate of every outgoing connection of the target'
+                : 'Changed for each tick, before production; the saved value stays the same'
+            }</small>
+          </div>
+        </div>
+
+        <div className="property-group">
+          <label>From → To</label>
+          <div style={{ fontSize: '0.85rem', color: '#888' }}>
+            {edge.source} → {edge.target}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="properties-panel edge-properties-panel">
       <h3>🔗 Connection Properties</h3>
 
       <div className="property-group">
-        <label>Flow Rate (per tick)</label>
+        <label>Flow Rate Mode</label>
+        <div className="mode-selector">
+          <button
+            className={`mode-btn ${flowMode === 'fixed' ? 'active' : ''}`}
+            onClick={() => updateEdgeData(edgeId, { flowMode: 'fixed' })}
+          >
+            📊 Fixed
+          </button>
+          <button
+            className={`mode-btn ${flowMode === 'formula' ? 'active' : ''}`}
+            onClick={() => updateEdgeData(edgeId, { flowMode: 'formula' })}
+          >
+            📐 Formula
+          </button>
+          <button
+            className={`mode-btn ${flowMode === 'script' ? 'active' : ''}`}
+            onClick={() => updateEdgeData(edgeId, { flowMode: 'script' })}
+          >
+            📜 Script
+          </button>
+          <button
+            className={`mode-btn ${flowMode === 'random' ? 'active' : ''}`}
+            onClick={() => updateEdgeData(edgeId, { flowMode: 'random' })}
+          >
+            🎲 Random
+          </button>
+        </div>
+      </div>
+
+      <div className="property-group">
+        <label>{flowMode === 'fixed' ? 'Flow Rate (per tick)' : 'Fallback Flow Rate (if evaluation fails)'}</label>
         <input
           type="number"
           value={data.flowRate}
@@ -31,6 +234,159 @@ export function EdgePropertiesPanel({ edgeId }: EdgePropertiesPanelProps) {
         />
       </div>
 
+      {flowMode === 'random' && (
+        <div className="property-group formula-section">
+          <label>Notation</label>
+          <input
+            type="text"
+            value={data.flowNotation ?? ''}
+            placeholder="e.g., D6, 2D4+1, 1-3, 50%"
+            className={notationError ? 'error' : data.flowNotation ? 'valid' : ''}
+            onChange={(e) => updateEdgeData(edgeId, { flowNotation: e.target.value })}
+          />
+          {notationError && <span className="formula-error">❌ {notationError}</span>}
+          {data.lastFlowRate !== undefined && (
+            <span className="script-valid">ℹ️ Last roll: {data.lastFlowRate}</span>
+          )}
+          <div className="formula-help">
+            <small>Dice: D6, 2D4+1 (sum of the dice plus modifier)</small>
+            <small>Range: 1-3 (uniform integer, inclusive)</small>
+            <small>Chance: 50% (1 with that probability, else 0)</small>
+            <small>Rolled every tick with the project seed</small>
+          </div>
+        </div>
+      )}
+
+      {flowMode === 'formula' && (
+        <div className="property-group formula-section">
+          <label>Formula</label>
+          <input
+            type="text"
+            value={data.flowFormula ?? ''}
+            placeholder="e.g., min(5, floor(source.resources / 10))"
+            className={formulaError ? 'error' : formulaValid ? 'valid' : ''}
+            onChange={(e) => {
+              updateEdgeData(edgeId, { flowFormula: e.target.value });
+              setFormulaError(null);
+              setFormulaValid(false);
+            }}
+          />
+          <button
+            className="validate-btn"
+            onClick={() => {
+              const error = validateFormula(data.flowFormula ?? '', registers, prices);
+              setFormulaError(error);
+              setFormulaValid(!error && !!data.flowFormula);
+            }}
+          >
+            ✓ Validate
+          </button>
+          {formulaError && <span className="formula-error">❌ {formulaError}</span>}
+          {formulaValid && <span className="formula-valid">✅ Formula valid!</span>}
+          {data.lastFlowRate !== undefined && (
+            <span className="script-valid">ℹ️ Last value: {data.lastFlowRate}</span>
+          )}
+          <div className="formula-help">
+            <small>⚠️ Only expressions, NO "return" or ";"</small>
+            <small>Variables: resources, capacity (of the source node), tick</small>
+            <small>source, target: resources, capacity, tokens (e.g. source.tokens.gold)</small>
+            <small>Functions: min, max, floor, ceil, round, abs, sqrt, pow, sin, cos, tan, log, exp, random</small>
+            {registerNames.length > 0 && <small>Registers: {registerNames.join(', ')}</small>}
+            {priceNames.length > 0 && <small>Market prices: {priceNames.join(', ')}</small>}
+          </div>
+        </div>
+      )}
+
+      {flowMode === 'script' && (
+        <div className="property-group script-section">
+          <label>Script (JavaScript)</label>
+          <textarea
+            value={data.flowScript ?? ''}
+            placeholder={'// Return a number\nreturn min(5, floor(source.resources / 10));'}
+            className={scriptError ? 'error' : scriptValid ? 'valid' : ''}
+            rows={6}
+            onChange={(e) => {
+              updateEdgeData(edgeId, { flowScript: e.target.value });
+              setScriptError(null);
+              setScriptValid(false);
+            }}
+          />
+          <button
+            className="validate-btn"
+            disabled={validatingScript}
+            onClick={async () => {
+              const script = data.flowScript ?? '';
+              if (!script.trim()) return;
+              setValidatingScript(true);
+              const error = await validateScript(script, registers, false, prices);
+              setScriptError(error);
+              setScriptValid(!error);
+              setValidatingScript(false);
+            }}
+          >
+            {validatingScript ? '⏳ Validating...' : '✓ Validate'}
+          </button>
+          {scriptError && <span className="script-error">❌ {scriptError}</span>}
+          {scriptValid && <span className="script-valid">✅ Script valid!</span>}
+          {!!lastError && <span className="script-error">⚠️ Runtime: {String(lastError)}</span>}
+          {typeof lastOutput === 'number' && <span className="script-valid">ℹ️ Last output: {lastOutput}</span>}
+          <div className="formula-help">
+            <small>Same API as node scripts (resources, tokens, capacity of the source node, tick, state, getNode, get)</small>
+            <small>source, target: {'{'} resources, capacity, tokens {'}'} of the connected nodes</small>
+            {registerNames.length > 0 && <small>Registers: {registerNames.join(', ')} (also in the registers object)</small>}
+            {priceNames.length > 0 && <small>Market prices: {priceNames.join(', ')}</small>}
+          </div>
+        </div>
+      )}
+
+      {gateDistribution !== 'flow' && (
+        <div className="property-group">
+          <label>{gateDistribution === 'random_percent' ? 'Chance (%)' : 'Weight'}</label>
+          <input
+            type="number"
+            value={data.weight ?? 1}
+            min={0}
+            step={gateDistribution === 'random_percent' ? 1 : 0.1}
+            onChange={(e) => updateEdgeData(edgeId, { weight: Math.max(0, parseFloat(e.target.value) || 0) })}
+          />
+          <div className="formula-help">
+            <small>{
+              gateDistribution === 'random_percent'
+                ? `Chance that each resource of the gate takes this output (outputs total: ${outputWeightTotal}%)`
+                : gateDistribution === 'random_weight'
+                  ? `Chance: ${formatShare(data.weight ?? 1)} of the resources at random (weight / total weight ${outputWeightTotal})`
+                  : `Share: ${formatShare(data.weight ?? 1)} of the resources, dealt in turn (weight / total weight ${outputWeightTotal})`
+            }</small>
+          </div>
+        </div>
+      )}
+
+      <div className="property-group">
+        <label>Tokens carried</label>
+        <div className="token-filter">
+          <button
+            className={`token-filter-chip ${tokenFilter.length === 0 ? 'active' : ''}`}
+            onClick={() => updateEdgeData(edgeId, { tokenFilter: undefined })}
+            title="Carry every token type"
+          >
+            All
+          </button>
+          {getAllTokens().map((token) => (
+            <button
+              key={token.id}
+              className={`token-filter-chip ${tokenFilter.includes(token.id) ? 'active' : ''}`}
+              onClick={() => handleToggleToken(token.id)}
+              title={token.name}
+            >
+              {token.emoji || '●'} {token.name}
+            </button>
+          ))}
+        </div>
+        <div className="formula-help">
+          <small>Only the selected token types travel along this connection</small>
+        </div>
+      </div>
+
       <div className="property-group">
         <label>From → To</label>
         <div style={{ fontSize: '0.85rem', color: '#888' }}>
@@ -0,0 +1,154 @@
+/**
+ * LootTableEditor - Editor for Loot Table entries.
+ *
+ * Allows defining:
+ * - Token drops with amounts, weights and rarity tiers
+ * - Guaranteed drops (every roll) and the weight of dropping nothing
+ * - Pity per tier (forced after N rolls without it)
+ */
+
+import { useTokenStore } from '../store/tokenStore';
+import { LootEntry, LootTier, NodeData } from '../types';
+import { LOOT_TIERS, LOOT_TIER_LABELS, getLootChances } from '../utils/loot';
+
+interface LootTableEditorProps {
+  data: NodeData;
+  onChange: (changes: Partial<NodeData>) => void;
+}
+
+export function LootTableEditor({ data, onChange }: LootTableEditorProps) {
+  const getAllTokens = useTokenStore((state) => state.getAllTokens);
+  const allTokens = getAllTokens();
+  const entries = data.lootEntries ?? [];
+  const pity = data.lootPity ?? {};
+  const chances = getLootChances(data);
+
+  const handleEntryChange = (index: number, changes: Partial<LootEntry>) => {
+    onChange({ lootEntries: entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)) });
+  };
+
+  const handleAddEntry = () => {
+    onChange({ lootEntries: [...entries, { tokenId: 'black', amount: 1, weight: 10, tier: 'common' }] });
+  };
+
+  const handleRemoveEntry = (index: number) => {
+    onChange({ lootEntries: entries.filter((_, i) => i !== index) });
+  };
+
+  const handlePityChange = (tier: LootTier, value: number) => {
+    const next = { ...pity };
+    if (value > 0) next[tier] = value;
+    else delete next[tier];
+    onChange({ lootPity: Object.keys(next).length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className="recipe-editor">
+      <div className="multi-token-recipe">
+        {/* Entries */}
+        <div className="recipe-section">
+          <div className="recipe-section-header">
+            <span>DROPS (amount, token, weight)</span>
+          </div>
+          {entries.map((entry, index) => (
+            <div key={index} className="loot-entry">
+              <div className="recipe-item">
+                <input
+                  type="number"
+                  value={entry.amount}
+                  min={1}
+                  step={1}
+                  onChange={(e) => handleEntryChange(index, { amount: Math.max(1, parseInt(e.target.value) || 1) })}
+                />
+                <select
+                  value={entry.tokenId}
+                  onChange={(e) => handleEntryChange(index, { tokenId: e.target.value })}
+                >
+                  {allTokens.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.emoji} {t.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  value={entry.weight}
+                  min={0}
+                  step={1}
+                  disabled={entry.guaranteed}
+                  title="Weight"
+                  onChange={(e) => handleEntryChange(index, { weight: Math.max(0, parseFloat(e.target.value) || 0) })}
+                />
+                <button
+                  type="button"
+                  className="recipe-remove"
+                  onClick={() => handleRemoveEntry(index)}
+                  title="Remove"
+                >
+                  ✕
+                </button>
+              </div>
+              <div className="recipe-item">
+                <select
+                  value={entry.tier}
+                  onChange={(e) => handleEntryChange(index, { tier: e.target.value as LootTier })}
+                >
+                  {LOOT_TIERS.map((tier) => (
+                    <option key={tier} value={tier}>{LOOT_TIER_LABELS[tier]}</option>
+                  ))}
+                </select>
+                <label className="loot-guaranteed" title="Drops on every roll, besides the weighted pick">
+                  <input
+                    type="checkbox"
+                    checked={!!entry.guaranteed}
+                    onChange={(e) => handleEntryChange(index, { guaranteed: e.target.checked || undefined })}
+                  />
+                  Always
+                </label>
+                <span className="loot-chance">{Number((chances[index] * 100).toFixed(2))}%</span>
+              </div>
+            </div>
+          ))}
+          <button
+            type="button"
+            className="recipe-add"
+            onClick={handleAddEntry}
+          >
+            + Add drop
+          </button>
+        </div>
+
+        {/* Chance of no weighted drop */}
+        <div className="ratio-row">
+          <label>Nothing (weight)</label>
+          <input
+            type="number"
+            value={data.lootNothingWeight ?? 0}
+            min={0}
+            step={1}
+            onChange={(e) => onChange({ lootNothingWeight: Math.max(0, parseFloat(e.target.value) || 0) })}
+          />
+        </div>
+
+        {/* Pity per tier */}
+        <div className="recipe-section">
+          <div className="recipe-section-header">
+            <span>PITY (forced after N rolls without the tier or better, 0 = off)</span>
+          </div>
+          {LOOT_TIERS.filter((tier) => tier !== 'common').map((tier) => (
+            <div key={tier} className="ratio-row">
+              <label>{LOOT_TIER_LABELS[tier]}</label>
+              <input
+                type="number"
+                value={pity[tier] ?? 0}
+                min={0}
+                step={1}
+                onChange={(e) => handlePityChange(tier, Math.max(0, parseInt(e.target.value) || 0))}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,23 @@
 import { useEffect, useState } from 'react';
 import { useSimulatorStore } from '../store/simulatorStore';
-import { NodeData, nodeConfig, ProcessingMode, DistributionMode } from '../types';
+import { useTokenStore } from '../store/tokenStore';
+import { NodeData, nodeConfig, ProcessingMode, DistributionMode, EndComparison, GateCondition, GateClause, GateComparison, GateDistribution, OverflowPolicy, DrainMode, PullMode, MarketCurve, TypedResources } from '../types';
 import { validateFormula } from '../utils/formulaEvaluator';
-import { validateScript } from '../utils/scriptRunner';
+import { validateScript, ScriptExchange } from '../utils/scriptRunner';
+import { formatExchange, formatTokenAmounts } from '../utils/tokenFormat';
+import { getRegisterValues, validateRegisterName } from '../utils/registers';
+import { createGateClause, formatGateCondition } from '../utils/gateConditions';
+import { MODIFIER_TARGET_LABELS } from '../utils/modifiers';
+import { MARKET_CURVE_LABELS, getMarketPrice, getMarketPrices, getMarketReserves } from '../utils/market';
+import { getShortSides, hasTraderRatios } from '../utils/traderRatios';
+import { formatRecipe, getConverterRecipes, getRecipeDuration } from '../utils/recipes';
+import { LOOT_TIERS, LOOT_TIER_LABELS } from '../utils/loot';
 import { TokenSelector } from './TokenSelector';
 import { TokenEditorModal } from './TokenEditorModal';
 import { RecipeEditor } from './RecipeEditor';
+import { TraderRatioEditor } from './TraderRatioEditor';
+import { LootTableEditor } from './LootTableEditor';
+import { SourceTokensEditor } from './SourceTokensEditor';
 import { ScriptEditorModal } from './ScriptEditorModal';
 
 interface PropertiesPanelProps {
@@ -13,7 +25,9 @@ interface PropertiesPanelProps {
 }
 
 export function PropertiesPanel({ nodeId }: PropertiesPanelProps) {
-  const { nodes, updateNodeData } = useSimulatorStore();
+  const { nodes, updateNodeData, currentTick } = useSimulatorStore();
+  const getAllTokens = useTokenStore((state) => state.getAllTokens);
+  const getToken = useTokenStore((state) => state.getToken);
   const node = nodes.find((n) => n.id === nodeId);
   const [formulaError, setFormulaError] = useState<string | null>(null);
   const [formulaValid, setFormulaValid] = useState<boolean>(false);
@@ -39,8 +53,23 @@ export function PropertiesPanel({ nodeId }: PropertiesPanelProps) {
   // Determine current processing mode (support legacy useFormula)
   const currentMode: ProcessingMode = data.processingMode || (data.useFormula ? 'formula' : 'fixed');
   
-  // Can this node type use processing modes? (source, converter, delay)
-  const supportsProcessingModes = data.nodeType === 'source' || data.nodeType === 'converter' || data.nodeType === 'delay';
+  // Can this node type use processing modes? (source, converter, delay, register)
+  const supportsProcessingModes = data.nodeType === 'source' || data.nodeType === 'converter' || data.nodeType === 'delay' || data.nodeType === 'register';
+
+  // Registers readable by name in formulas, scripts and gate thresholds
+  const registers = getRegisterValues(nodes);
+  const registerNames = Object.keys(registers);
+  // Market prices readable as prices.<good> (preview: formula prices using random() aren't
+  // seeded here, the engine uses the run's seed)
+  const priceContext = { tick: currentTick, registers, random: Math.random };
+  const prices = getMarketPrices(nodes, priceContext);
+  const priceNames = Object.keys(prices).map((tokenId) => `prices.${tokenId}`);
+  const registerNameError = data.nodeType === 'register'
+    ? validateRegisterName(
+        data.registerName ?? '',
+        nodes.filter((n) => n.id !== nodeId && n.data.nodeType === 'register').map((n) => n.data.registerName ?? '')
+      )
+    : null;
 
   const handleChange = (field: keyof NodeData, value: unknown) => {
     // When resources change, sync typedResources with default token
@@ -55,6 +84,44 @@ export function PropertiesPanel({ nodeId }: PropertiesPanelProps) {
     updateNodeData(nodeId, { [field]: value });
   };
   
+  // Demand drain token types (empty = any)
+  const demandTokens = data.demandTokens ?? [];
+  const handleToggleDemandToken = (tokenId: string) => {
+    const next = demandTokens.includes(tokenId)
+      ? demandTokens.filter((id) => id !== tokenId)
+      : [...demandTokens, tokenId];
+    handleChange('demandTokens', next.length > 0 ? next : undefined);
+  };
+
+  // Compound gate clauses
+  const gateClauses = data.gateClauses ?? [];
+  const handleClauseChange = (index: number, changes: Partial<GateClause>) => {
+    handleChange('gateClauses', gateClauses.map((clause, i) => (i === index ? { ...clause, ...changes } : clause)));
+  };
+
+  // Market reserves and price at the current tick
+  const marketCurve: MarketCurve = data.marketCurve ?? 'constant_product';
+  const marketReserves = getMarketReserves(data);
+  const marketPrice = data.nodeType === 'market' ? getMarketPrice(data, priceContext) : 0;
+  const marketGoodToken = getToken(data.marketGood ?? '');
+  const marketCurrencyToken = getToken(data.marketCurrency ?? '');
+
+  // Converter recipes and the one being crafted
+  const converterRecipes = data.nodeType === 'converter' ? getConverterRecipes(data) : [];
+  const craftingRecipe = data.craftingRecipe !== undefined ? converterRecipes[data.craftingRecipe] : undefined;
+
+  // Loot table rolls so far
+  const lootRolls = data.lootTotalRolls ?? 0;
+
+  // Trader buffers (leftovers that don't make a full trade) and the sides short of a trade
+  const traderShortSides = getShortSides(data.traderRatios ?? [], data.traderTypedA ?? {}, data.traderTypedB ?? {});
+  const formatBuffer = (buffer: TypedResources | undefined) => {
+    const entries = Object.entries(buffer ?? {}).filter(([, amount]) => amount > 0);
+    return entries.length > 0
+      ? entries.map(([tokenId, amount]) => `${amount}${getToken(tokenId)?.emoji || '●'}`).join(' ')
+      : 'nothing';
+  };
+
   const handleModeChange = (mode: ProcessingMode) => {
     handleChange('processingMode', mode);
     // Also update legacy flag for backwards compatibility
@@ -86,40 +153,428 @@ export function PropertiesPanel({ nodeId }: PropertiesPanelProps) {
         />
       </div>
 
-      {/* Token Type for Source */}
+      {/* Token Type (or bundle/random mix) for Source */}
       {data.nodeType === 'source' && (
         <div className="property-group">
           <label>Token Type</label>
-          <TokenSelector
-            value={data.tokenType || 'black'}
-            onChange={(tokenId) => handleChange('tokenType', tokenId)}
-            onCreateNew={() => setShowTokenEditor(true)}
+          {(data.sourceTokenMode ?? 'single') === 'single' && (
+            <TokenSelector
+              value={data.tokenType || 'black'}
+              onChange={(tokenId) => handleChange('tokenType', tokenId)}
+              onCreateNew={() => setShowTokenEditor(true)}
+            />
+          )}
+          <SourceTokensEditor
+            data={data}
+            onChange={(changes) => updateNodeData(nodeId, changes)}
           />
         </div>
       )}
 
-      {/* Resources - buffer for all nodes */}
-      <div className="property-group">
-        <label>
-          {data.nodeType === 'source'
-            ? 'Buffer'
-            : data.nodeType === 'drain'
-              ? 'Consumed (counter)'
-              : 'Resources'}
-        </label>
-        <input
-          type="number"
-          value={data.resources}
-          min={0}
-          step={0.1}
-          onChange={(e) => handleChange('resources', parseFloat(e.target.value) || 0)}
-        />
-        {data.nodeType === 'drain' && (
+      {/* Register: name and value */}
+      {data.nodeType === 'register' && (
+        <>
+          <div className="property-group">
+            <label>Name (used in formulas and scripts)</label>
+            <input
+              type="text"
+              value={data.registerName ?? ''}
+              placeholder="e.g., level"
+              className={registerNameError ? 'error' : 'valid'}
+              onChange={(e) => handleChange('registerName', e.target.value.trim())}
+            />
+            {registerNameError && <span className="formula-error">❌ {registerNameError}</span>}
+          </div>
+          <div className="property-group">
+            <label>{currentMode === 'fixed' ? 'Value' : 'Initial Value'}</label>
+            <input
+              type="number"
+              value={data.initialValue ?? 0}
+              step={0.1}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value) || 0;
+                updateNodeData(nodeId, { initialValue: value, resources: value });
+              }}
+            />
+          </div>
           <div className="property-group info">
-            <span>🧾 This counter increases when resources are drained.</span>
+            <span>🔢 {data.registerName || '?'} = {data.resources} {
+              currentMode === 'fixed' ? '(constant)' : '(evaluated at the start of every tick)'
+            }</span>
           </div>
-        )}
-      </div>
+        </>
+      )}
+
+      {/* End Condition: watched node and condition */}
+      {data.nodeType === 'end' && (
+        <>
+          <div className="property-group">
+            <label>Condition Type</label>
+            <div className="mode-selector">
+              <button
+                className={`mode-btn ${currentMode !== 'formula' ? 'active' : ''}`}
+                onClick={() => handleModeChange('fixed')}
+              >
+                📊 Node value
+              </button>
+              <button
+                className={`mode-btn ${currentMode === 'formula' ? 'active' : ''}`}
+                onClick={() => handleModeChange('formula')}
+              >
+                📐 Formula
+              </button>
+            </div>
+          </div>
+          <div className="property-group">
+            <label>Watched Node</label>
+            <select
+              value={data.endWatchNodeId ?? ''}
+              onChange={(e) => handleChange('endWatchNodeId', e.target.value || undefined)}
+            >
+              <option value="">{currentMode === 'formula' ? '(none)' : 'Select a node...'}</option>
+              {nodes
+                .filter((n) => n.id !== nodeId && n.data.nodeType !== 'end')
+                .map((n) => (
+                  <option key={n.id} value={n.id}>{nodeConfig[n.data.nodeType].icon} {n.data.label}</option>
+                ))}
+            </select>
+          </div>
+          {currentMode !== 'formula' ? (
+            <>
+              <div className="property-group">
+                <label>Value</label>
+                <select
+                  value={data.endWatchToken ?? ''}
+                  onChange={(e) => handleChange('endWatchToken', e.target.value)}
+                >
+                  <option value="">All resources</option>
+                  {getAllTokens().map((token) => (
+                    <option key={token.id} value={token.id}>{token.emoji || '●'} {token.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="property-group">
+                <label>Condition</label>
+                <select
+                  value={data.endComparison ?? 'at_least'}
+                  onChange={(e) => handleChange('endComparison', e.target.value as EndComparison)}
+                >
+                  <option value="at_least">At least (≥)</option>
+                  <option value="at_most">At most (≤)</option>
+                </select>
+                <input
+                  type="number"
+                  value={data.endThreshold ?? 0}
+                  step={1}
+                  onChange={(e) => handleChange('endThreshold', parseFloat(e.target.value) || 0)}
+                />
+              </div>
+            </>
+          ) : (
+            <div className="property-group formula-section">
+              <label>Formula (true or non-zero = met)</label>
+              <input
+                type="text"
+                value={data.formula ?? ''}
+                placeholder="e.g., tokens.gold >= 500 || tick >= 1000"
+                className={formulaError ? 'error' : formulaValid ? 'valid' : ''}
+                onChange={(e) => {
+                  handleChange('formula', e.target.value);
+                  setFormulaError(null);
+                  setFormulaValid(false);
+                }}
+              />
+              <button
+                className="validate-btn"
+                onClick={() => {
+                  const error = validateFormula(data.formula ?? '', registers, prices);
+                  setFormulaError(error);
+                  setFormulaValid(!error && !!data.formula);
+                }}
+              >
+                ✓ Validate
+              </button>
+              {formulaError && <span className="formula-error">❌ {formulaError}</span>}
+              {formulaValid && <span className="formula-valid">✅ Formula valid!</span>}
+              <div className="formula-help">
+                <small>Checked after every tick</small>
+                <small>Variables: tick, and resources, capacity, tokens of the watched node</small>
+                <small>Operators: {'>= <= == && || !'}</small>
+                {registerNames.length > 0 && <small>Registers: {registerNames.join(', ')}</small>}
+              </div>
+            </div>
+          )}
+          <div className="property-group info">
+            <span>🏁 {
+              data.endedAtTick !== undefined
+                ? `Met at tick ${data.endedAtTick} (Reset to re-arm)`
+                : 'Stops Play when met (once per run)'
+            }</span>
+          </div>
+        </>
+      )}
+
+      {/* Market: traded good, currency, price curve and fee */}
+      {data.nodeType === 'market' && (
+        <>
+          <div className="property-group">
+            <label>Good</label>
+            <select value={data.marketGood ?? ''} onChange={(e) => handleChange('marketGood', e.target.value)}>
+              {getAllTokens().map((token) => (
+                <option key={token.id} value={token.id}>{token.emoji || '●'} {token.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="property-group">
+            <label>Currency</label>
+            <select value={data.marketCurrency ?? ''} onChange={(e) => handleChange('marketCurrency', e.target.value)}>
+              {getAllTokens().map((token) => (
+                <option key={token.id} value={token.id}>{token.emoji || '●'} {token.name}</option>
+              ))}
+            </select>
+            {data.marketGood === data.marketCurrency && (
+              <span className="formula-error">❌ The good and the currency must differ</span>
+            )}
+          </div>
+          <div className="property-group">
+            <label>Price Curve</label>
+            <select value={marketCurve} onChange={(e) => handleChange('marketCurve', e.target.value as MarketCurve)}>
+              {(Object.keys(MARKET_CURVE_LABELS) as MarketCurve[]).map((value) => (
+                <option key={value} value={value}>{MARKET_CURVE_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+          {marketCurve === 'formula' && (
+            <div className="property-group formula-section">
+              <label>Unit Price Formula</label>
+              <input
+                type="text"
+                value={data.formula ?? ''}
+                placeholder="e.g., 20 * pow(0.98, resources)"
+                className={formulaError ? 'error' : formulaValid ? 'valid' : ''}
+                onChange={(e) => {
+                  handleChange('formula', e.target.value);
+                  setFormulaError(null);
+                  setFormulaValid(false);
+                }}
+              />
+              <button
+                className="validate-btn"
+                onClick={() => {
+                  const error = validateFormula(data.formula ?? '', registers, prices);
+                  setFormulaError(error);
+                  setFormulaValid(!error && !!data.formula);
+                }}
+              >
+                ✓ Validate
+              </button>
+              {formulaError && <span className="formula-error">❌ {formulaError}</span>}
+              {formulaValid && <span className="formula-valid">✅ Formula valid!</span>}
+              <div className="formula-help">
+                <small>Variables: resources (the stock of the good), tick</small>
+                {registerNames.length > 0 && <small>Registers: {registerNames.join(', ')}</small>}
+              </div>
+            </div>
+          )}
+          <div className="property-group">
+            <label>Initial Stock ({marketGoodToken?.emoji || '●'})</label>
+            <input
+              type="number"
+              value={data.marketInitialStock ?? 0}
+              min={0}
+              step={1}
+              onChange={(e) => {
+                const value = Math.max(0, parseFloat(e.target.value) || 0);
+                updateNodeData(nodeId, { marketInitialStock: value, marketStock: value });
+              }}
+            />
+          </div>
+          {marketCurve === 'constant_product' && (
+            <div className="property-group">
+              <label>Initial Funds ({marketCurrencyToken?.emoji || '●'})</label>
+              <input
+                type="number"
+                value={data.marketInitialFunds ?? 0}
+                min={0}
+                step={1}
+                onChange={(e) => {
+                  const value = Math.max(0, parseFloat(e.target.value) || 0);
+                  updateNodeData(nodeId, { marketInitialFunds: value, marketFunds: value });
+                }}
+              />
+            </div>
+          )}
+          <div className="property-group">
+            <label>Fee per Trade (%)</label>
+            <input
+              type="number"
+              value={data.marketFee ?? 0}
+              min={0}
+              max={100}
+              step={0.5}
+              onChange={(e) => handleChange('marketFee', Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+            />
+          </div>
+          <div className="property-group info">
+            <span>🏪 1 {marketGoodToken?.emoji || data.marketGood} = {Number(marketPrice.toFixed(2))} {marketCurrencyToken?.emoji || data.marketCurrency} (before the fee)</span>
+            <span>
+              Stock {Number(marketReserves.stock.toFixed(2))}
+              {marketCurve === 'constant_product' ? ` · funds ${Number(marketReserves.funds.toFixed(2))}` : ''}
+            </span>
+            {((data.lastSold ?? 0) > 0 || (data.lastBought ?? 0) > 0) && (
+              <span>Last tick: sold {data.lastSold ?? 0}, bought {data.lastBought ?? 0}</span>
+            )}
+            {(data.totalFees ?? 0) > 0 && <span>Fees taken: {Number((data.totalFees ?? 0).toFixed(2))}</span>}
+            <small>Goods that arrive are sold, currency buys goods; the proceeds leave through the outputs. Price readable as prices.{data.marketGood}</small>
+          </div>
+        </>
+      )}
+
+      {/* Loot table: weighted drops, tiers and pity */}
+      {data.nodeType === 'loot' && (
+        <div className="property-group">
+          <label>Loot Table</label>
+          <LootTableEditor data={data} onChange={(changes) => updateNodeData(nodeId, changes)} />
+          <div className="property-group info">
+            <span>🎲 {lootRolls} roll{lootRolls === 1 ? '' : 's'}{(data.lastRolls ?? 0) > 0 ? ` (last tick: ${data.lastRolls})` : ''}</span>
+            {LOOT_TIERS.filter((tier) => (data.lootTierDrops?.[tier] ?? 0) > 0).map((tier) => (
+              <span key={tier}>
+                {LOOT_TIER_LABELS[tier]}: {data.lootTierDrops?.[tier]} ({Number((((data.lootTierDrops?.[tier] ?? 0) / lootRolls) * 100).toFixed(2))}% of rolls)
+              </span>
+            ))}
+            {LOOT_TIERS.filter((tier) => (data.lootPity?.[tier] ?? 0) > 0).map((tier) => (
+              <span key={tier}>Pity {LOOT_TIER_LABELS[tier]}: {data.lootPityCounters?.[tier] ?? 0}/{data.lootPity?.[tier]}</span>
+            ))}
+            <small>Every unit that arrives and every trigger rolls once; drops leave through the outputs. Drop counts by tier are exported with the history.</small>
+          </div>
+        </div>
+      )}
+
+      {/* Trader: exchange ratios between input A and input B */}
+      {data.nodeType === 'trader' && (
+        <div className="property-group">
+          <label>Exchange</label>
+          <TraderRatioEditor
+            ratios={data.traderRatios}
+            onChange={(ratios) => handleChange('traderRatios', ratios)}
+          />
+          {hasTraderRatios(data) && (
+            <div className="property-group info">
+              <span>A waiting: {formatBuffer(data.traderTypedA)} · B waiting: {formatBuffer(data.traderTypedB)}</span>
+              <span>Last tick: {data.lastTrades ?? 0} trade{data.lastTrades === 1 ? '' : 's'}</span>
+              {traderShortSides.length > 0 && (
+                <span>⏳ Waiting for input {traderShortSides.map((side) => side.toUpperCase()).join(' and ')}</span>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Properties changed by state connections in the last tick */}
+      {data.modifiedValues && (
+        <div className="property-group info">
+          <span>⚡ Modified: {Object.entries(data.modifiedValues)
+            .map(([property, value]) => `${MODIFIER_TARGET_LABELS[property as keyof typeof MODIFIER_TARGET_LABELS]} ${Number(value.toFixed(2))}`)
+            .join(' · ')}</span>
+        </div>
+      )}
+
+      {data.deactivated && (
+        <div className="property-group info">
+          <span>🔌 Switched off by an activator connection in the last tick</span>
+        </div>
+      )}
+
+      {/* Resources - buffer for all nodes (registers show their value above) */}
+      {data.nodeType !== 'register' && data.nodeType !== 'end' && (
+        <div className="property-group">
+          <label>
+            {data.nodeType === 'source'
+              ? 'Buffer'
+              : data.nodeType === 'drain'
+                ? 'Consumed (counter)'
+                : data.nodeType === 'market'
+                  ? 'Proceeds (waiting to leave)'
+                  : data.nodeType === 'loot'
+                    ? 'Drops (waiting to leave)'
+                    : 'Resources'}
+          </label>
+          <input
+            type="number"
+            value={data.resources}
+            min={0}
+            step={0.1}
+            onChange={(e) => handleChange('resources', parseFloat(e.target.value) || 0)}
+          />
+          {data.nodeType === 'drain' && (
+            <div className="property-group info">
+              <span>🧾 This counter increases when resources are drained.</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Drain demand: take up to consumptionRate per tick, record unmet demand */}
+      {data.nodeType === 'drain' && (
+        <>
+          <div className="property-group">
+            <label>Consumption</label>
+            <div className="mode-selector">
+              <button
+                className={`mode-btn ${data.drainMode !== 'demand' ? 'active' : ''}`}
+                onClick={() => handleChange('drainMode', 'passive' as DrainMode)}
+              >
+                📥 Whatever arrives
+              </button>
+              <button
+                className={`mode-btn ${data.drainMode === 'demand' ? 'active' : ''}`}
+                onClick={() => handleChange('drainMode', 'demand' as DrainMode)}
+              >
+                🎯 Demand
+              </button>
+            </div>
+          </div>
+          {data.drainMode === 'demand' && (
+            <>
+              <div className="property-group">
+                <label>Demand per Tick</label>
+                <input
+                  type="number"
+                  value={data.consumptionRate ?? 0}
+                  min={0}
+                  step={1}
+                  onChange={(e) => handleChange('consumptionRate', Math.max(0, parseFloat(e.target.value) || 0))}
+                />
+              </div>
+              <div className="property-group">
+                <label>Demanded Tokens</label>
+                <div className="token-filter">
+                  <button
+                    className={`token-filter-chip ${demandTokens.length === 0 ? 'active' : ''}`}
+                    onClick={() => handleChange('demandTokens', undefined)}
+                    title="Any token type counts"
+                  >
+                    Any
+                  </button>
+                  {getAllTokens().map((token) => (
+                    <button
+                      key={token.id}
+                      className={`token-filter-chip ${demandTokens.includes(token.id) ? 'active' : ''}`}
+                      onClick={() => handleToggleDemandToken(token.id)}
+                      title={token.name}
+                    >
+                      {token.emoji || '●'} {token.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="property-group info">
+                <span>🎯 Wanted {data.consumptionRate ?? 0}, got {Number((data.lastConsumed ?? 0).toFixed(2))} last tick · unmet total: {Number((data.totalUnmet ?? 0).toFixed(2))}</span>
+              </div>
+            </>
+          )}
+        </>
+      )}
 
       {/* Capacity for Pool and Source buffer */}
       {(data.nodeType === 'pool' || data.nodeType === 'source') && (
@@ -151,6 +606,63 @@ export function PropertiesPanel({ nodeId }: PropertiesPanelProps) {
         </div>
       )}
 
+      {/* Pool overflow policy: what happens to resources that don't fit */}
+      {data.nodeType === 'pool' && data.capacity !== -1 && (
+        <>
+          <div className="property-group">
+            <label>When Full</label>
+            <select
+              value={data.overflowPolicy ?? 'block'}
+              onChange={(e) => handleChange('overflowPolicy', e.target.value as OverflowPolicy)}
+            >
+              <option value="block">🚫 Block (excess stays upstream)</option>
+              <option value="discard">🗑️ Discard the excess</option>
+              <option value="overflow">↘️ Route the excess to the overflow output</option>
+            </select>
+            <div className="formula-help">
+              <small>{
+                (data.overflowPolicy ?? 'block') === 'block'
+                  ? 'Incoming connections are held back while the pool is full'
+                  : data.overflowPolicy === 'discard'
+                    ? 'The pool accepts everything and destroys what exceeds the capacity'
+                    : 'Connect the bottom handle: the excess leaves there (up to the flow rate), the rest is discarded'
+              }</small>
+            </div>
+          </div>
+          <div className="property-group info">
+            <span>🚫 Blocked: {Number((data.totalBlocked ?? 0).toFixed(2))} · 🗑️ Discarded: {Number((data.totalDiscarded ?? 0).toFixed(2))}</span>
+          </div>
+        </>
+      )}
+
+      {/* Push/pull: pull nodes take from their sources, pools and gates */}
+      {(data.nodeType === 'pool' || data.nodeType === 'drain') && (
+        <div className="property-group">
+          <label>Inputs</label>
+          <select
+            value={data.pullMode ?? 'push'}
+            onChange={(e) => handleChange('pullMode', e.target.value as PullMode)}
+          >
+            <option value="push">➡️ Push (inputs send to this node)</option>
+            <option value="pull_any">⬅️ Pull any (take what is available)</option>
+            <option value="pull_all">🔒 Pull all or nothing</option>
+          </select>
+          <div className="formula-help">
+            <small>{
+              data.nodeType === 'drain' && data.drainMode === 'demand'
+                ? data.pullMode === 'pull_all'
+                  ? 'Takes its whole demand from the inputs, or nothing while they are short'
+                  : 'Takes up to its demand from the inputs in turn, whatever the flow rates'
+                : (data.pullMode ?? 'push') === 'push'
+                  ? 'Sources, pools and gates push along their connections'
+                  : data.pullMode === 'pull_any'
+                    ? 'Each tick, takes up to the flow rate of every input connection'
+                    : 'Takes the flow rate of every input connection only if all of them can deliver it (e.g. crafting from wood and iron)'
+            }</small>
+          </div>
+        </div>
+      )}
+
       {/* Max Production for Source = total that can ever be produced */}
       {data.nodeType === 'source' && (
         <>
@@ -294,12 +806,29 @@ export function PropertiesPanel({ nodeId }: PropertiesPanelProps) {
             <div className="property-group">
               <label>Conversion Recipe</label>
               <RecipeEditor
-                recipe={data.recipe}
-                onChange={(recipe) => handleChange('recipe', recipe)}
+                recipes={data.recipes ?? (data.recipe ? [data.recipe] : undefined)}
+                onChange={(recipes) => updateNodeData(nodeId, { recipes, recipe: undefined })}
+                selection={data.recipeSelection ?? 'priority'}
+                onSelectionChange={(selection) => handleChange('recipeSelection', selection)}
                 inputRatio={data.inputRatio}
                 outputRatio={data.outputRatio}
                 onLegacyChange={(field, value) => handleChange(field, value)}
               />
+              {craftingRecipe && (
+                <div className="property-group info">
+                  <span>
+                    🔨 {formatRecipe(craftingRecipe, (tokenId) => getToken(tokenId)?.emoji || '●')}:{' '}
+                    {data.craftingOutput
+                      ? `done, waiting for room (${formatTokenAmounts(data.craftingOutput, getToken)})`
+                      : `tick ${data.craftingProgress ?? 0}/${getRecipeDuration(craftingRecipe)}`}
+                  </span>
+                </div>
+              )}
+              {data.lastShortage && converterRecipes.length > 0 && (
+                <div className="property-group info">
+                  <span>⏳ Waiting for inputs: missing {formatTokenAmounts(data.lastShortage, getToken)}</span>
+                </div>
+              )}
             </div>
           )}
         </>
@@ -312,7 +841,11 @@ export function PropertiesPanel({ nodeId }: PropertiesPanelProps) {
           <input
             type="text"
             value={data.formula ?? ''}
-            placeholder={data.nodeType === 'converter' ? "e.g., floor(input * 0.5)" : "e.g., resources * 0.1"}
+            placeholder={
+              data.nodeType === 'converter' ? "e.g., floor(input * 0.5)"
+                : data.nodeType === 'register' ? "e.g., 1 + floor(tick / 50)"
+                : "e.g., resources * 0.1"
+            }
             className={formulaError ? 'error' : formulaValid ? 'valid' : ''}
             onChange={(e) => {
               const formula = e.target.value;
@@ -324,7 +857,7 @@ export function PropertiesPanel({ nodeId }: PropertiesPanelProps) {
           <button 
             className="validate-btn"
             onClick={() => {
-              const error = validateFormula(data.formula ?? '');
+              const error = validateFormula(data.formula ?? '', registers, prices);
               setFormulaError(error);
               setFormulaValid(!error && !!data.formula);
             }}
@@ -343,6 +876,8 @@ export function PropertiesPanel({ nodeId }: PropertiesPanelProps) {
             </small>
             <small>Functions: min, max, floor, ceil, round, abs, sqrt, pow, sin, cos, tan, log, exp, random</small>
             <small>Constants: PI, E</small>
+            {registerNames.length > 0 && <small>Registers: {registerNames.join(', ')}</small>}
+            {priceNames.length > 0 && <small>Market prices: {priceNames.join(', ')}</small>}
           </div>
         </div>
       )}
@@ -378,7 +913,7 @@ export function PropertiesPanel({ nodeId }: PropertiesPanelProps) {
               const script = data.script ?? '';
               if (!script.trim()) return;
               setValidatingScript(true);
-              const error = await validateScript(script);
+              const error = await validateScript(script, registers, data.nodeType === 'converter', prices);
               setScriptError(error);
               setScriptValid(!error);
               setValidatingScript(false);
@@ -396,6 +931,16 @@ export function PropertiesPanel({ nodeId }: PropertiesPanelProps) {
               ℹ️ Last output: {(data.scriptState as { lastOutput: number }).lastOutput}
             </span>
           )}
+          {!!data.scriptState?.lastExchange && (
+            <span className="script-valid">
+              ℹ️ Last result: {formatExchange(data.scriptState.lastExchange as ScriptExchange, getToken)}
+            </span>
+          )}
+          {data.lastShortage && (
+            <span className="script-error">
+              ⏳ Waiting for inputs: missing {formatTokenAmounts(data.lastShortage, getToken)}
+            </span>
+          )}
           <div className="script-help">
             <details>
               <summary>📖 Script API Reference</summary>
@@ -426,10 +971,24 @@ export function PropertiesPanel({ nodeId }: PropertiesPanelProps) {
                 <ul>
                   <li><code>getNode(id)</code> - Get another node's data: {'{'} resources, capacity, tokens, tokenType {'}'}</li>
                   <li><code>get(nodeId, tokenId)</code> - Get specific token amount from a node</li>
+                  <li><code>registers</code> - Register values by name (each register is also a variable, e.g. <code>level</code>)</li>
+                  <li><code>prices</code> - Market prices by good token id (e.g. <code>prices.wood</code>)</li>
                   <li><code>min, max, floor, ceil, round, abs, sqrt, pow</code></li>
                   <li><code>sin, cos, tan, log, exp, random</code></li>
                   <li><code>PI</code>, <code>E</code></li>
                 </ul>
+                {data.nodeType === 'converter' && (
+                  <>
+                    <strong>Typed result:</strong>
+                    <ul>
+                      <li>
+                        <code>return {'{'} consume: {'{'} iron: 2 {'}'}, produce: {'{'} sword: 1, scrap: 1 {'}'} {'}'};</code> - Applied like
+                        one recipe conversion; nothing happens while the converter lacks a consumed token
+                      </li>
+                      <li>A plain number outputs that many black tokens and consumes all input</li>
+                    </ul>
+                  </>
+                )}
                 <strong>State (persists between ticks):</strong>
                 <ul>
                   <li><code>state.myVar = 5;</code> - Set state</li>
@@ -451,30 +1010,179 @@ return floor(input + bonus);`}</pre>
             <label>Condition</label>
             <select
               value={data.gateCondition ?? 'always'}
-              onChange={(e) => handleChange('gateCondition', e.target.value)}
+              onChange={(e) => {
+                const condition = e.target.value as GateCondition;
+                // Start a compound condition with one clause on the gate itself
+                if (condition === 'compound' && !data.gateClauses?.length) {
+                  updateNodeData(nodeId, { gateCondition: condition, gateClauses: [createGateClause()] });
+                  return;
+                }
+                handleChange('gateCondition', condition);
+              }}
             >
               <option value="always">Always flow</option>
               <option value="if_above">If resources above threshold</option>
               <option value="if_below">If resources below threshold</option>
+              <option value="compound">Compound (AND/OR clauses)</option>
             </select>
           </div>
-          {data.gateCondition !== 'always' && (
+          {(data.gateCondition === 'if_above' || data.gateCondition === 'if_below') && (
             <div className="property-group">
               <label>Threshold</label>
-              <input
-                type="number"
-                value={data.gateThreshold ?? 0}
-                min={0}
-                step={0.1}
-                onChange={(e) => handleChange('gateThreshold', parseFloat(e.target.value) || 0)}
-              />
+              {registerNames.length > 0 && (
+                <select
+                  value={data.gateThresholdRegister ?? ''}
+                  onChange={(e) => handleChange('gateThresholdRegister', e.target.value || undefined)}
+                >
+                  <option value="">Fixed value</option>
+                  {registerNames.map((name) => (
+                    <option key={name} value={name}>🔢 Register: {name}</option>
+                  ))}
+                </select>
+              )}
+              {!data.gateThresholdRegister && (
+                <input
+                  type="number"
+                  value={data.gateThreshold ?? 0}
+                  min={0}
+                  step={0.1}
+                  onChange={(e) => handleChange('gateThreshold', parseFloat(e.target.value) || 0)}
+                />
+              )}
+            </div>
+          )}
+          {data.gateCondition === 'compound' && (
+            <div className="property-group">
+              <label>Clauses</label>
+              <div className="mode-selector">
+                <button
+                  className={`mode-btn ${data.gateLogic !== 'or' ? 'active' : ''}`}
+                  onClick={() => handleChange('gateLogic', 'and')}
+                >
+                  AND (all)
+                </button>
+                <button
+                  className={`mode-btn ${data.gateLogic === 'or' ? 'active' : ''}`}
+                  onClick={() => handleChange('gateLogic', 'or')}
+                >
+                  OR (any)
+                </button>
+              </div>
+              <div className="recipe-section gate-clauses">
+                {gateClauses.map((clause, index) => (
+                  <div key={index} className="gate-clause">
+                    <div className="recipe-item">
+                      <select
+                        value={clause.nodeId ?? ''}
+                        onChange={(e) => handleClauseChange(index, { nodeId: e.target.value || undefined })}
+                      >
+                        <option value="">This gate</option>
+                        {nodes
+                          .filter((n) => n.id !== nodeId && n.data.nodeType !== 'end')
+                          .map((n) => (
+                            <option key={n.id} value={n.id}>{nodeConfig[n.data.nodeType].icon} {n.data.label}</option>
+                          ))}
+                      </select>
+                      <select
+                        value={clause.tokenId ?? ''}
+                        onChange={(e) => handleClauseChange(index, { tokenId: e.target.value || undefined })}
+                      >
+                        <option value="">All resources</option>
+                        {getAllTokens().map((token) => (
+                          <option key={token.id} value={token.id}>{token.emoji || '●'} {token.name}</option>
+                        ))}
+                      </select>
+                      <button
+                        type="button"
+                        className="recipe-remove"
+                        onClick={() => handleChange('gateClauses', gateClauses.filter((_, i) => i !== index))}
+                        title="Remove"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                    <div className="recipe-item">
+                      <select
+                        value={clause.comparison}
+                        onChange={(e) => handleClauseChange(index, { comparison: e.target.value as GateComparison })}
+                      >
+                        <option value="above">&gt; above</option>
+                        <option value="at_least">≥ at least</option>
+                        <option value="below">&lt; below</option>
+                        <option value="at_most">≤ at most</option>
+                        <option value="equal">= equal</option>
+                      </select>
+                      {registerNames.length > 0 && (
+                        <select
+                          value={clause.thresholdRegister ?? ''}
+                          onChange={(e) => handleClauseChange(index, { thresholdRegister: e.target.value || undefined })}
+                        >
+                          <option value="">Fixed value</option>
+                          {registerNames.map((name) => (
+                            <option key={name} value={name}>🔢 {name}</option>
+                          ))}
+                        </select>
+                      )}
+                      {!clause.thresholdRegister && (
+                        <input
+                          type="number"
+                          value={clause.threshold}
+                          step={1}
+                          onChange={(e) => handleClauseChange(index, { threshold: parseFloat(e.target.value) || 0 })}
+                        />
+                      )}
+                    </div>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  className="recipe-add"
+                  onClick={() => handleChange('gateClauses', [...gateClauses, createGateClause()])}
+                >
+                  + Add clause
+                </button>
+              </div>
+            </div>
+          )}
+          <div className="property-group">
+            <label>Output Distribution</label>
+            <select
+              value={data.gateDistribution ?? 'flow'}
+              onChange={(e) => handleChange('gateDistribution', e.target.value as GateDistribution)}
+            >
+              <option value="flow">By flow rate</option>
+              <option value="random_weight">🎲 Random by weight</option>
+              <option value="random_percent">🎲 Random by percentage</option>
+              <option value="deterministic">⚖️ Deterministic by weight ratio</option>
+            </select>
+            <div className="formula-help">
+              <small>{
+                (data.gateDistribution ?? 'flow') === 'flow'
+                  ? 'Every output gets up to its flow rate'
+                  : data.gateDistribution === 'random_percent'
+                    ? 'Each resource takes an output with the chance set on the connection; below 100% in total, the rest is discarded'
+                    : data.gateDistribution === 'random_weight'
+                      ? 'Each resource takes one output at random, proportionally to the connection weights'
+                      : 'Resources are dealt to the outputs in the ratio of the connection weights'
+              }</small>
+              {(data.gateDistribution ?? 'flow') !== 'flow' && (
+                <small>Set the weights on the outgoing connections (default 1)</small>
+              )}
+            </div>
+          </div>
+          {data.gateDistribution === 'random_percent' && (
+            <div className="property-group info">
+              <span>🗑️ Discarded: {Number((data.totalDiscarded ?? 0).toFixed(2))}</span>
             </div>
           )}
           <div className="property-group info">
             <span>🚪 {
-              data.gateCondition === 'always' ? 'Always open' :
-              data.gateCondition === 'if_above' ? `Open if > ${data.gateThreshold}` :
-              `Open if < ${data.gateThreshold}`
+              (data.gateCondition ?? 'always') === 'always' ? 'Always open' :
+              `Open if ${formatGateCondition(
+                data,
+                (id) => nodes.find((n) => n.id === id)?.data.label,
+                (tokenId) => getToken(tokenId)?.emoji || tokenId
+              )}`
             }</span>
           </div>
         </>
@@ -581,6 +1289,8 @@ return floor(input + bonus);`}</pre>
             setScriptValid(false);
           }}
           nodeType={data.nodeType as 'source' | 'converter'}
+          registers={registers}
+          prices={prices}
         />
       )}
     </div>
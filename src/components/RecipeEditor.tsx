@@ -1,96 +1,149 @@
 /**
  * RecipeEditor - Editor for Converter multi-token recipes.
- * 
+ *
  * Allows defining:
+ * - Several recipes and how the converter picks one
  * - Multiple input token types with amounts
  * - Multiple output token types with amounts
+ * - Catalysts (held but not consumed) and crafting time in ticks
  */
 
 import { useState } from 'react';
 import { useTokenStore } from '../store/tokenStore';
-import { ConverterRecipe } from '../types';
+import { ConverterRecipe, RecipeSelection } from '../types';
+import { RECIPE_SELECTION_LABELS, formatRecipe } from '../utils/recipes';
+
+type RecipeItems = 'inputs' | 'outputs' | 'catalysts';
 
 interface RecipeEditorProps {
-  recipe: ConverterRecipe | undefined;
-  onChange: (recipe: ConverterRecipe | undefined) => void;
+  recipes: ConverterRecipe[] | undefined;
+  onChange: (recipes: ConverterRecipe[] | undefined) => void;
+  selection: RecipeSelection;
+  onSelectionChange: (selection: RecipeSelection) => void;
   // Legacy fallback values
   inputRatio: number;
   outputRatio: number;
   onLegacyChange: (field: 'inputRatio' | 'outputRatio', value: number) => void;
 }
 
-export function RecipeEditor({ 
-  recipe, 
-  onChange, 
-  inputRatio, 
-  outputRatio, 
-  onLegacyChange 
+const createRecipe = (): ConverterRecipe => ({
+  inputs: [{ tokenId: 'black', amount: 2 }],
+  outputs: [{ tokenId: 'black', amount: 1 }],
+});
+
+export function RecipeEditor({
+  recipes,
+  onChange,
+  selection,
+  onSelectionChange,
+  inputRatio,
+  outputRatio,
+  onLegacyChange
 }: RecipeEditorProps) {
   const getAllTokens = useTokenStore((state) => state.getAllTokens);
   const getToken = useTokenStore((state) => state.getToken);
-  const [useRecipe, setUseRecipe] = useState(!!recipe);
-  
+  const [useRecipe, setUseRecipe] = useState(!!recipes?.length);
+
   const allTokens = getAllTokens();
-  
-  // Initialize recipe if switching to recipe mode
+
+  // Initialize a recipe if switching to recipe mode
   const handleToggleRecipe = (enabled: boolean) => {
     setUseRecipe(enabled);
-    if (enabled && !recipe) {
-      onChange({
-        inputs: [{ tokenId: 'black', amount: 2 }],
-        outputs: [{ tokenId: 'black', amount: 1 }],
-      });
+    if (enabled && !recipes?.length) {
+      onChange([createRecipe()]);
     } else if (!enabled) {
       onChange(undefined);
     }
   };
-  
-  const handleAddInput = () => {
-    if (!recipe) return;
-    onChange({
-      ...recipe,
-      inputs: [...recipe.inputs, { tokenId: 'black', amount: 1 }],
-    });
+
+  const handleRecipeChange = (index: number, changes: Partial<ConverterRecipe>) => {
+    if (!recipes) return;
+    onChange(recipes.map((recipe, i) => (i === index ? { ...recipe, ...changes } : recipe)));
   };
-  
-  const handleAddOutput = () => {
-    if (!recipe) return;
-    onChange({
-      ...recipe,
-      outputs: [...recipe.outputs, { tokenId: 'black', amount: 1 }],
-    });
+
+  const handleAddRecipe = () => {
+    onChange([...(recipes ?? []), createRecipe()]);
   };
-  
-  const handleRemoveInput = (index: number) => {
-    if (!recipe || recipe.inputs.length <= 1) return;
-    onChange({
-      ...recipe,
-      inputs: recipe.inputs.filter((_, i) => i !== index),
-    });
+
+  const handleRemoveRecipe = (index: number) => {
+    if (!recipes || recipes.length <= 1) return;
+    onChange(recipes.filter((_, i) => i !== index));
   };
-  
-  const handleRemoveOutput = (index: number) => {
-    if (!recipe || recipe.outputs.length <= 1) return;
-    onChange({
-      ...recipe,
-      outputs: recipe.outputs.filter((_, i) => i !== index),
-    });
+
+  const handleAddItem = (index: number, items: RecipeItems) => {
+    const recipe = recipes?.[index];
+    if (!recipe) return;
+    handleRecipeChange(index, { [items]: [...(recipe[items] ?? []), { tokenId: 'black', amount: 1 }] });
   };
-  
-  const handleInputChange = (index: number, field: 'tokenId' | 'amount', value: string | number) => {
+
+  const handleRemoveItem = (index: number, items: RecipeItems, itemIndex: number) => {
+    const recipe = recipes?.[index];
     if (!recipe) return;
-    const newInputs = [...recipe.inputs];
-    newInputs[index] = { ...newInputs[index], [field]: value };
-    onChange({ ...recipe, inputs: newInputs });
+    const remaining = (recipe[items] ?? []).filter((_, i) => i !== itemIndex);
+    handleRecipeChange(index, { [items]: items === 'catalysts' && remaining.length === 0 ? undefined : remaining });
   };
-  
-  const handleOutputChange = (index: number, field: 'tokenId' | 'amount', value: string | number) => {
+
+  const handleItemChange = (index: number, items: RecipeItems, itemIndex: number, field: 'tokenId' | 'amount', value: string | number) => {
+    const recipe = recipes?.[index];
     if (!recipe) return;
-    const newOutputs = [...recipe.outputs];
-    newOutputs[index] = { ...newOutputs[index], [field]: value };
-    onChange({ ...recipe, outputs: newOutputs });
+    const newItems = [...(recipe[items] ?? [])];
+    newItems[itemIndex] = { ...newItems[itemIndex], [field]: value };
+    handleRecipeChange(index, { [items]: newItems });
   };
-  
+
+  // Token rows of one part of a recipe (inputs and outputs keep at least one row)
+  const renderItems = (index: number, items: RecipeItems, title: string, addLabel: string) => {
+    const list = recipes?.[index]?.[items] ?? [];
+    const minItems = items === 'catalysts' ? 0 : 1;
+    return (
+      <div className="recipe-section">
+        <div className="recipe-section-header">
+          <span>{title}</span>
+        </div>
+        {list.map((item, itemIndex) => {
+          return (
+            <div key={itemIndex} className="recipe-item">
+              <select
+                value={item.tokenId}
+                onChange={(e) => handleItemChange(index, items, itemIndex, 'tokenId', e.target.value)}
+              >
+                {allTokens.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.emoji} {t.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                value={item.amount}
+                min={0.1}
+                step={0.1}
+                onChange={(e) => handleItemChange(index, items, itemIndex, 'amount', parseFloat(e.target.value) || 1)}
+              />
+              {list.length > minItems && (
+                <button
+                  type="button"
+                  className="recipe-remove"
+                  onClick={() => handleRemoveItem(index, items, itemIndex)}
+                  title="Remove"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          );
+        })}
+        <button
+          type="button"
+          className="recipe-add"
+          onClick={() => handleAddItem(index, items)}
+        >
+          {addLabel}
+        </button>
+      </div>
+    );
+  };
+
   return (
     <div className="recipe-editor">
       {/* Toggle between simple ratio and multi-token recipe */}
@@ -110,7 +163,7 @@ export function RecipeEditor({
           🧪 Multi-Token Recipe
         </button>
       </div>
-      
+
       {!useRecipe ? (
         /* Simple ratio mode */
         <div className="simple-ratio">
@@ -142,117 +195,81 @@ export function RecipeEditor({
       ) : (
         /* Multi-token recipe mode */
         <div className="multi-token-recipe">
-          {/* Inputs section */}
-          <div className="recipe-section">
-            <div className="recipe-section-header">
-              <span>INPUTS</span>
+          {/* Selection rule (only matters with several recipes) */}
+          {recipes && recipes.length > 1 && (
+            <div className="ratio-row">
+              <label>Pick</label>
+              <select
+                value={selection}
+                onChange={(e) => onSelectionChange(e.target.value as RecipeSelection)}
+              >
+                {(Object.keys(RECIPE_SELECTION_LABELS) as RecipeSelection[]).map((value) => (
+                  <option key={value} value={value}>{RECIPE_SELECTION_LABELS[value]}</option>
+                ))}
+              </select>
             </div>
-            {recipe?.inputs.map((input, index) => {
-              return (
-                <div key={index} className="recipe-item">
-                  <select
-                    value={input.tokenId}
-                    onChange={(e) => handleInputChange(index, 'tokenId', e.target.value)}
+          )}
+
+          {recipes?.map((recipe, index) => (
+            <div key={index} className="multi-token-recipe">
+              {recipes.length > 1 && (
+                <div className="recipe-item">
+                  <span className="recipe-section-header">Recipe {index + 1}</span>
+                  <button
+                    type="button"
+                    className="recipe-remove"
+                    onClick={() => handleRemoveRecipe(index)}
+                    title="Remove recipe"
                   >
-                    {allTokens.map((t) => (
-                      <option key={t.id} value={t.id}>
-                        {t.emoji} {t.name}
-                      </option>
-                    ))}
-                  </select>
-                  <input
-                    type="number"
-                    value={input.amount}
-                    min={0.1}
-                    step={0.1}
-                    onChange={(e) => handleInputChange(index, 'amount', parseFloat(e.target.value) || 1)}
-                  />
-                  {recipe.inputs.length > 1 && (
-                    <button
-                      type="button"
-                      className="recipe-remove"
-                      onClick={() => handleRemoveInput(index)}
-                      title="Remove"
-                    >
-                      ✕
-                    </button>
-                  )}
+                    ✕
+                  </button>
                 </div>
-              );
-            })}
-            <button
-              type="button"
-              className="recipe-add"
-              onClick={handleAddInput}
-            >
-              + Add input
-            </button>
-          </div>
-          
-          {/* Arrow */}
-          <div className="recipe-arrow">⬇️</div>
-          
-          {/* Outputs section */}
-          <div className="recipe-section">
-            <div className="recipe-section-header">
-              <span>OUTPUTS</span>
+              )}
+
+              {/* Inputs section */}
+              {renderItems(index, 'inputs', 'INPUTS', '+ Add input')}
+
+              {/* Catalysts section */}
+              {renderItems(index, 'catalysts', 'CATALYSTS (held, not consumed)', '+ Add catalyst')}
+
+              {/* Arrow */}
+              <div className="recipe-arrow">⬇️</div>
+
+              {/* Outputs section */}
+              {renderItems(index, 'outputs', 'OUTPUTS', '+ Add output')}
+
+              {/* Crafting time */}
+              <div className="ratio-row">
+                <label>Duration (ticks)</label>
+                <input
+                  type="number"
+                  value={recipe.duration ?? 1}
+                  min={1}
+                  step={1}
+                  onChange={(e) => {
+                    const duration = Math.max(1, parseInt(e.target.value) || 1);
+                    handleRecipeChange(index, { duration: duration > 1 ? duration : undefined });
+                  }}
+                />
+              </div>
+
+              {/* Recipe summary */}
+              <div className="recipe-summary">
+                {formatRecipe(recipe, (tokenId) => getToken(tokenId)?.emoji || '●')}
+              </div>
             </div>
-            {recipe?.outputs.map((output, index) => {
-              return (
-                <div key={index} className="recipe-item">
-                  <select
-                    value={output.tokenId}
-                    onChange={(e) => handleOutputChange(index, 'tokenId', e.target.value)}
-                  >
-                    {allTokens.map((t) => (
-                      <option key={t.id} value={t.id}>
-                        {t.emoji} {t.name}
-                      </option>
-                    ))}
-                  </select>
-                  <input
-                    type="number"
-                    value={output.amount}
-                    min={0.1}
-                    step={0.1}
-                    onChange={(e) => handleOutputChange(index, 'amount', parseFloat(e.target.value) || 1)}
-                  />
-                  {recipe.outputs.length > 1 && (
-                    <button
-                      type="button"
-                      className="recipe-remove"
-                      onClick={() => handleRemoveOutput(index)}
-                      title="Remove"
-                    >
-                      ✕
-                    </button>
-                  )}
-                </div>
-              );
-            })}
-            <button
-              type="button"
-              className="recipe-add"
-              onClick={handleAddOutput}
-            >
-              + Add output
-            </button>
+          ))}
+
+          <button
+            type="button"
+            className="recipe-add"
+            onClick={handleAddRecipe}
+          >
+            + Add recipe
+          </button>
+          <div className="ratio-example">
+            1 tick: converts every tick as often as the inputs allow. Longer: consumes the inputs when it starts, produces on the last tick.
           </div>
-          
-          {/* Recipe summary */}
-          {recipe && (
-            <div className="recipe-summary">
-              {recipe.inputs.map((i) => {
-                const t = getToken(i.tokenId);
-                return `${i.amount}${t?.emoji || '●'}`;
-              }).join(' + ')}
-              {' → '}
-              {recipe.outputs.map((o) => {
-                const t = getToken(o.tokenId);
-                return `${o.amount}${t?.emoji || '●'}`;
-              }).join(' + ')}
-            </div>
-          )}
         </div>
       )}
     </div>
@@ -1,7 +1,9 @@
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import {
   LineChart,
   Line,
+  ComposedChart,
+  Area,
   XAxis,
   YAxis,
   Tooltip,
@@ -10,6 +12,7 @@ import {
 } from 'recharts';
 import { useSimulatorStore } from '../store/simulatorStore';
 import { useTokenStore } from '../store/tokenStore';
+import { getHistoryKeyLabel, parseCounterKey } from '../engine/simulationEngine';
 
 // Generate distinct colors for lines (for nodes)
 const COLORS = [
@@ -25,12 +28,41 @@ const COLORS = [
   '#818cf8', // indigo
 ];
 
-type ViewMode = 'nodes' | 'tokens';
+// Ticks to completion (percentiles may be fractional)
+const formatTicks = (ticks: number) => String(Number(ticks.toFixed(1)));
+
+type ViewMode = 'nodes' | 'tokens' | 'overflow' | 'demand' | 'prices' | 'loot';
+
+// Chart view of a history key: pool overflow counters, drain demand counters, market prices,
+// loot table rolls and drops by tier
+const getKeyView = (key: string): ViewMode => {
+  if (key.startsWith('token:')) return 'tokens';
+  const counter = parseCounterKey(key)?.counter;
+  if (counter === 'blocked' || counter === 'discarded') return 'overflow';
+  if (counter === 'consumed' || counter === 'unmet') return 'demand';
+  if (counter === 'price') return 'prices';
+  if (counter === 'rolls' || counter?.startsWith('drops-')) return 'loot';
+  return 'nodes';
+};
+
+// Second counter of each pair (discarded, unmet) is drawn dashed
+const isDashedCounter = (key: string) => {
+  const counter = parseCounterKey(key)?.counter;
+  return counter === 'discarded' || counter === 'unmet';
+};
+type DataSource = 'live' | 'montecarlo';
 
 export function ResourceChart() {
-  const { resourceHistory, nodes } = useSimulatorStore();
+  const { resourceHistory, nodes, monteCarlo } = useSimulatorStore();
   const { getToken } = useTokenStore();
-  const [viewMode, setViewMode] = useState<ViewMode>('nodes');
+  const [selectedView, setViewMode] = useState<ViewMode>('nodes');
+  const [dataSource, setDataSource] = useState<DataSource>('live');
+  const [selectedSeries, setSelectedSeries] = useState<string | null>(null);
+
+  // Show a new Monte Carlo result as soon as it is available
+  useEffect(() => {
+    setDataSource(monteCarlo ? 'montecarlo' : 'live');
+  }, [monteCarlo]);
 
   // Get node labels for legend
   const nodeLabels = useMemo(() => {
@@ -41,11 +73,18 @@ export function ResourceChart() {
     return labels;
   }, [nodes]);
 
-  // Get unique node IDs from history (excluding token: prefixed keys)
+  // Get unique node IDs from history (excluding token and overflow keys)
   const nodeIds = useMemo(() => {
     if (resourceHistory.length === 0) return [];
     const firstEntry = resourceHistory[0];
-    return Object.keys(firstEntry).filter((key) => key !== 'tick' && !key.startsWith('token:'));
+    return Object.keys(firstEntry).filter((key) => key !== 'tick' && getKeyView(key) === 'nodes');
+  }, [resourceHistory]);
+
+  // Counters from history: pool overflow (blocked/discarded totals), drain demand (consumed/unmet per tick),
+  // market prices, loot table rolls and drops by tier (totals)
+  const counterKeys = useMemo(() => {
+    if (resourceHistory.length === 0) return [];
+    return Object.keys(resourceHistory[0]).filter((key) => parseCounterKey(key) !== null);
   }, [resourceHistory]);
 
   // Get unique token IDs from history
@@ -57,26 +96,37 @@ export function ResourceChart() {
       .map((key) => key.replace('token:', ''));
   }, [resourceHistory]);
 
-  if (resourceHistory.length < 2) {
-    return null;
-  }
+  const showMonteCarlo = dataSource === 'montecarlo' && monteCarlo !== null;
+  const availableKeys = showMonteCarlo ? monteCarlo.keys : counterKeys;
+  const hasOverflow = availableKeys.some((key) => getKeyView(key) === 'overflow');
+  const hasDemand = availableKeys.some((key) => getKeyView(key) === 'demand');
+  const hasPrices = availableKeys.some((key) => getKeyView(key) === 'prices');
+  const hasLoot = availableKeys.some((key) => getKeyView(key) === 'loot');
 
-  // Prepare data based on view mode
-  const chartData = viewMode === 'tokens' 
-    ? resourceHistory.map(entry => {
-        const tokenEntry: Record<string, number> = { tick: entry.tick };
-        for (const tokenId of tokenIds) {
-          tokenEntry[tokenId] = entry[`token:${tokenId}`] || 0;
-        }
-        return tokenEntry;
-      })
-    : resourceHistory;
+  // Counter views fall back to nodes when the data has none of their keys (e.g. another project)
+  const viewMode: ViewMode = selectedView === 'nodes' || selectedView === 'tokens'
+    || availableKeys.some((key) => getKeyView(key) === selectedView) ? selectedView : 'nodes';
 
-  return (
-    <div className="resource-chart">
+  // Monte Carlo series for the current view (nodes or tokens)
+  const monteCarloKeys = useMemo(() => {
+    if (!monteCarlo) return [];
+    return monteCarlo.keys.filter((key) => getKeyView(key) === viewMode);
+  }, [monteCarlo, viewMode]);
+
+  function renderHeader() {
+    return (
       <div className="chart-header">
-        <h4>📊 Resources Over Time</h4>
+        <h4>📊 {showMonteCarlo ? 'Monte Carlo' : 'Resources Over Time'}</h4>
         <div className="chart-toggle">
+          {monteCarlo && (
+            <button
+              className={showMonteCarlo ? 'active' : ''}
+              onClick={() => setDataSource(showMonteCarlo ? 'live' : 'montecarlo')}
+              title="Show Monte Carlo bands instead of the live run"
+            >
+              Batch
+            </button>
+          )}
           <button 
             className={viewMode === 'nodes' ? 'active' : ''} 
             onClick={() => setViewMode('nodes')}
@@ -89,8 +139,173 @@ export function ResourceChart() {
           >
             Tokens
           </button>
+          {hasOverflow && (
+            <button
+              className={viewMode === 'overflow' ? 'active' : ''}
+              onClick={() => setViewMode('overflow')}
+              title="Resources blocked or discarded by full pools or random gates (totals)"
+            >
+              Overflow
+            </button>
+          )}
+          {hasDemand && (
+            <button
+              className={viewMode === 'demand' ? 'active' : ''}
+              onClick={() => setViewMode('demand')}
+              title="Consumption and unmet demand of demand drains (per tick)"
+            >
+              Demand
+            </button>
+          )}
+          {hasPrices && (
+            <button
+              className={viewMode === 'prices' ? 'active' : ''}
+              onClick={() => setViewMode('prices')}
+              title="Unit price of each market"
+            >
+              Prices
+            </button>
+          )}
+          {hasLoot && (
+            <button
+              className={viewMode === 'loot' ? 'active' : ''}
+              onClick={() => setViewMode('loot')}
+              title="Rolls and drops by tier of each loot table (totals)"
+            >
+              Loot
+            </button>
+          )}
         </div>
       </div>
+    );
+  }
+
+  if (showMonteCarlo) {
+    const seriesKey = selectedSeries && monteCarloKeys.includes(selectedSeries)
+      ? selectedSeries
+      : monteCarloKeys[0];
+    const seriesLabel = (key: string) => {
+      if (key.startsWith('token:')) {
+        const token = getToken(key.replace('token:', ''));
+        return `${token?.emoji || '●'} ${token?.name || key}`;
+      }
+      return getHistoryKeyLabel(key, nodeLabels);
+    };
+    const color = seriesKey?.startsWith('token:')
+      ? getToken(seriesKey.replace('token:', ''))?.color || COLORS[0]
+      : COLORS[Math.max(0, monteCarloKeys.indexOf(seriesKey)) % COLORS.length];
+    const bandData = (seriesKey ? monteCarlo.series[seriesKey] : []).map((s) => ({
+      tick: s.tick,
+      mean: s.mean,
+      p50: s.p50,
+      band90: [s.p5, s.p95],
+      band50: [s.p25, s.p75],
+    }));
+
+    return (
+      <div className="resource-chart">
+        {renderHeader()}
+        <select
+          className="chart-series-select"
+          value={seriesKey ?? ''}
+          onChange={(e) => setSelectedSeries(e.target.value)}
+        >
+          {monteCarloKeys.map((key) => (
+            <option key={key} value={key}>{seriesLabel(key)}</option>
+          ))}
+        </select>
+        <ResponsiveContainer width="100%" height={200}>
+          <ComposedChart data={bandData}>
+            <XAxis dataKey="tick" stroke="#666" fontSize={10} tickLine={false} />
+            <YAxis stroke="#666" fontSize={10} tickLine={false} width={40} />
+            <Tooltip
+              contentStyle={{
+                background: '#16213e',
+                border: '1px solid #0f3460',
+                borderRadius: '4px',
+                fontSize: '12px',
+              }}
+              labelStyle={{ color: '#fff' }}
+              formatter={(value, name) => {
+                if (Array.isArray(value)) {
+                  return [`${Number(value[0]).toFixed(1)} – ${Number(value[1]).toFixed(1)}`, String(name)];
+                }
+                return [typeof value === 'number' ? value.toFixed(1) : 0, String(name)];
+              }}
+            />
+            <Legend wrapperStyle={{ fontSize: '11px' }} />
+            <Area
+              type="monotone"
+              dataKey="band90"
+              name="p5–p95"
+              stroke="none"
+              fill={color}
+              fillOpacity={0.15}
+              isAnimationActive={false}
+            />
+            <Area
+              type="monotone"
+              dataKey="band50"
+              name="p25–p75"
+              stroke="none"
+              fill={color}
+              fillOpacity={0.35}
+              isAnimationActive={false}
+            />
+            <Line
+              type="monotone"
+              dataKey="mean"
+              name="Mean"
+              stroke={color}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              type="monotone"
+              dataKey="p50"
+              name="Median"
+              stroke={color}
+              strokeWidth={1}
+              strokeDasharray="4 3"
+              dot={false}
+              isAnimationActive={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+        <p className="chart-note">
+          {monteCarlo.runs} runs × {monteCarlo.ticks} ticks · seed {monteCarlo.seed}
+          {monteCarlo.cancelled ? ' · stopped early' : ''}
+        </p>
+        {monteCarlo.completion && (
+          <p className="chart-note">
+            🏁 Ended in {monteCarlo.completion.completedRuns}/{monteCarlo.runs} runs · ticks to completion:
+            median {formatTicks(monteCarlo.completion.p50)}, mean {formatTicks(monteCarlo.completion.mean)}
+            {' '}(p5–p95: {formatTicks(monteCarlo.completion.p5)}–{formatTicks(monteCarlo.completion.p95)})
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  if (resourceHistory.length < 2) {
+    return null;
+  }
+
+  // Prepare data based on view mode (counters are read from the history as is)
+  const chartData = viewMode === 'tokens' 
+    ? resourceHistory.map(entry => {
+        const tokenEntry: Record<string, number> = { tick: entry.tick };
+        for (const tokenId of tokenIds) {
+          tokenEntry[tokenId] = entry[`token:${tokenId}`] || 0;
+        }
+        return tokenEntry;
+      })
+    : resourceHistory;
+
+  return (
+    <div className="resource-chart">
+      {renderHeader()}
       <ResponsiveContainer width="100%" height={200}>
         <LineChart data={chartData}>
           <XAxis
@@ -119,7 +334,9 @@ export function ResourceChart() {
                 const token = getToken(String(name));
                 return [Math.floor(value), `${token?.emoji || '●'} ${token?.name || name}`];
               }
-              return [Math.floor(value), nodeLabels[String(name)] || String(name)];
+              // Prices keep their decimals
+              const shown = viewMode === 'prices' ? Number(value.toFixed(2)) : Math.floor(value);
+              return [shown, getHistoryKeyLabel(String(name), nodeLabels)];
             }}
           />
           <Legend
@@ -129,10 +346,42 @@ export function ResourceChart() {
                 const token = getToken(value);
                 return `${token?.emoji || '●'} ${token?.name || value}`;
               }
-              return nodeLabels[value] || value;
+              return getHistoryKeyLabel(value, nodeLabels);
             }}
           />
-          {viewMode === 'nodes' ? (
+          {viewMode === 'overflow' || viewMode === 'demand' ? (
+            // One color per node: blocked/consumed solid, discarded/unmet dashed
+            counterKeys
+              .filter((key) => getKeyView(key) === viewMode)
+              .map((key, index) => (
+                <Line
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  name={key}
+                  stroke={COLORS[Math.floor(index / 2) % COLORS.length]}
+                  strokeWidth={2}
+                  strokeDasharray={isDashedCounter(key) ? '4 3' : undefined}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))
+          ) : viewMode === 'prices' || viewMode === 'loot' ? (
+            counterKeys
+              .filter((key) => getKeyView(key) === viewMode)
+              .map((key, index) => (
+                <Line
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  name={key}
+                  stroke={COLORS[index % COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))
+          ) : viewMode === 'nodes' ? (
             nodeIds.map((nodeId, index) => (
               <Line
                 key={nodeId}
@@ -13,6 +13,10 @@ interface ScriptEditorModalProps {
   value: string;
   onChange: (value: string) => void;
   nodeType: 'source' | 'converter';
+  // Register values by name, so validation accepts scripts reading them
+  registers?: Record<string, number>;
+  // Market prices by good token id (the prices object)
+  prices?: Record<string, number>;
 }
 
 // Basic syntax highlighting via regex
@@ -36,7 +40,7 @@ function highlightSyntax(code: string): string {
     )
     // Variables
     .replace(
-      /\b(input|resources|capacity|tick|buffer|totalProduced|produced|maxProduction|state|tokens|tokenType)\b/g,
+      /\b(input|resources|capacity|tick|buffer|totalProduced|produced|maxProduction|state|tokens|tokenType|registers|prices)\b/g,
       '<span class="syntax-variable">$1</span>'
     );
 }
@@ -46,7 +50,9 @@ export function ScriptEditorModal({
   onClose, 
   value, 
   onChange, 
-  nodeType 
+  nodeType,
+  registers,
+  prices
 }: ScriptEditorModalProps) {
   const [localValue, setLocalValue] = useState(value);
   const [error, setError] = useState<string | null>(null);
@@ -72,7 +78,7 @@ export function ScriptEditorModal({
   const handleValidate = async () => {
     if (!localValue.trim()) return;
     setValidating(true);
-    const err = await validateScript(localValue);
+    const err = await validateScript(localValue, registers, nodeType === 'converter', prices);
     setError(err);
     setIsValid(!err);
     setValidating(false);
@@ -110,10 +116,11 @@ export function ScriptEditorModal({
   if (!isOpen) return null;
   
   const placeholder = nodeType === 'converter' 
-    ? `// Return a number - how many resources to output
-// Example: Convert with diminishing efficiency
-const efficiency = min(1, input / 10);
-return floor(input * efficiency);`
+    ? `// Return a number - how many resources to output (as black)
+// or { consume: {...}, produce: {...} } for typed tokens
+// Example: 2 iron -> 1 sword, plus 1 scrap every other tick
+if ((tokens.iron || 0) < 2) return 0;
+return { consume: { iron: 2 }, produce: { sword: 1, scrap: tick % 2 } };`
     : `// Return a number - production rate
 // Example: Adaptive production based on tick
 if (tick < 10) {
@@ -183,6 +190,9 @@ if (tick < 10) {
                     <li><code>tick</code> - Current simulation tick</li>
                     <li><code>tokenType</code> - Token type ID (e.g., "gold")</li>
                     <li><code>tokens</code> - Typed resources {'{'} gold: 10 {'}'}</li>
+                    {nodeType === 'converter' && (
+                      <li>Return <code>{'{'} consume, produce {'}'}</code> for typed tokens</li>
+                    )}
                     {nodeType === 'source' && (
                       <>
                         <li><code>buffer</code> - Alias for resources</li>
@@ -0,0 +1,127 @@
+/**
+ * SourceTokensEditor - Editor for the tokens a Source produces.
+ *
+ * Allows defining:
+ * - A bundle: every unit of production gives each listed token ("10 gold + 1 gem")
+ * - A random mix: every unit is one token picked by weight ("gold 90, gem 10")
+ */
+
+import { useTokenStore } from '../store/tokenStore';
+import { NodeData, SourceTokenEntry, SourceTokenMode } from '../types';
+import { SOURCE_TOKEN_MODE_LABELS, formatSourceTokens, getSourceTokenShares } from '../utils/sourceTokens';
+
+interface SourceTokensEditorProps {
+  data: NodeData;
+  onChange: (changes: Partial<NodeData>) => void;
+}
+
+export function SourceTokensEditor({ data, onChange }: SourceTokensEditorProps) {
+  const getAllTokens = useTokenStore((state) => state.getAllTokens);
+  const getToken = useTokenStore((state) => state.getToken);
+  const allTokens = getAllTokens();
+  const mode = data.sourceTokenMode ?? 'single';
+  const entries = data.sourceTokens ?? [];
+  const shares = getSourceTokenShares(data);
+
+  // Start a bundle/mix from the single token type
+  const handleModeChange = (next: SourceTokenMode) => {
+    if (next === 'single') {
+      onChange({ sourceTokenMode: undefined });
+      return;
+    }
+    onChange({
+      sourceTokenMode: next,
+      sourceTokens: entries.length > 0 ? entries : [{ tokenId: data.tokenType || 'black', amount: 1 }],
+    });
+  };
+
+  const handleEntryChange = (index: number, changes: Partial<SourceTokenEntry>) => {
+    onChange({ sourceTokens: entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)) });
+  };
+
+  const handleAddEntry = () => {
+    onChange({ sourceTokens: [...entries, { tokenId: 'black', amount: 1 }] });
+  };
+
+  const handleRemoveEntry = (index: number) => {
+    if (entries.length <= 1) return;
+    onChange({ sourceTokens: entries.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="recipe-editor">
+      <div className="ratio-row">
+        <label>Produces</label>
+        <select
+          value={mode}
+          onChange={(e) => handleModeChange(e.target.value as SourceTokenMode)}
+        >
+          {(Object.keys(SOURCE_TOKEN_MODE_LABELS) as SourceTokenMode[]).map((value) => (
+            <option key={value} value={value}>{SOURCE_TOKEN_MODE_LABELS[value]}</option>
+          ))}
+        </select>
+      </div>
+
+      {mode !== 'single' && (
+        <div className="multi-token-recipe">
+          <div className="recipe-section">
+            <div className="recipe-section-header">
+              <span>{mode === 'bundle' ? 'TOKENS PER UNIT (amount, token)' : 'TOKENS (weight, token)'}</span>
+            </div>
+            {entries.map((entry, index) => (
+              <div key={index} className="recipe-item">
+                <input
+                  type="number"
+                  value={entry.amount}
+                  min={0}
+                  step={mode === 'bundle' ? 0.1 : 1}
+                  title={mode === 'bundle' ? 'Amount per unit' : 'Weight'}
+                  onChange={(e) => handleEntryChange(index, { amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+                />
+                <select
+                  value={entry.tokenId}
+                  onChange={(e) => handleEntryChange(index, { tokenId: e.target.value })}
+                >
+                  {allTokens.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.emoji} {t.name}
+                    </option>
+                  ))}
+                </select>
+                {mode === 'mix' && (
+                  <span className="loot-chance">{Number(((shares[entry.tokenId] ?? 0) * 100).toFixed(1))}%</span>
+                )}
+                {entries.length > 1 && (
+                  <button
+                    type="button"
+                    className="recipe-remove"
+                    onClick={() => handleRemoveEntry(index)}
+                    title="Remove"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              type="button"
+              className="recipe-add"
+              onClick={handleAddEntry}
+            >
+              + Add token
+            </button>
+          </div>
+
+          <div className="recipe-summary">
+            {formatSourceTokens(data, (tokenId) => getToken(tokenId)?.emoji || '●')}
+          </div>
+          <div className="ratio-example">
+            {mode === 'bundle'
+              ? 'Every unit of production gives all these tokens (production 2 = twice the bundle).'
+              : 'Every unit of production is one token, picked at random by weight.'}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { useTokenStore } from '../store/tokenStore';
 import { TypedResources } from '../types';
 
 export function StatusBar() {
-  const { currentTick, isRunning, nodes } = useSimulatorStore();
+  const { currentTick, isRunning, nodes, simulationEnd } = useSimulatorStore();
   const { getToken } = useTokenStore();
 
   // Calculate total resources and breakdown by token type
@@ -33,6 +33,11 @@ export function StatusBar() {
   return (
     <footer className="status-bar">
       <span>{isRunning ? '🟢 Running' : '⏹️ Stopped'}</span>
+      {simulationEnd && (
+        <span className="simulation-end" title={simulationEnd.reason}>
+          🏁 Ended at tick {simulationEnd.tick}: {simulationEnd.reason}
+        </span>
+      )}
       <span>Nodes: {nodes.length}</span>
       <span>Total: {Math.floor(totalResources)}</span>
       {topTokens.length > 0 && (
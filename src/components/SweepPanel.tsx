@@ -0,0 +1,359 @@
+import { useMemo, useState } from 'react';
+import { Node, Edge } from '@xyflow/react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { useSimulatorStore } from '../store/simulatorStore';
+import { useTokenStore } from '../store/tokenStore';
+import { NodeData, EdgeData } from '../types';
+import {
+  countSweepTicks,
+  getSweepableFields,
+  MAX_SWEEP_TICKS,
+  SweepParameter,
+  SweepResult,
+  COMPLETION_METRIC_KEY,
+  COMPLETION_METRIC_LABEL,
+} from '../engine/parameterSweep';
+import { getCounterKey } from '../engine/simulationEngine';
+import { LOOT_TIERS, LOOT_TIER_LABELS } from '../utils/loot';
+
+// Format a metric value for tables/tooltips
+const formatValue = (value: number) => (Number.isNaN(value) ? '–' : String(Number(value.toFixed(2))));
+
+// Heatmap color: blue (min) → red (max)
+const heatColor = (value: number, min: number, max: number) => {
+  if (Number.isNaN(value)) return 'transparent';
+  const t = max > min ? (value - min) / (max - min) : 0.5;
+  return `hsl(${Math.round(240 - 240 * t)}, 70%, 40%)`;
+};
+
+const edgeLabel = (edge: Edge<EdgeData>, nodes: Node<NodeData>[]) => {
+  const source = nodes.find((n) => n.id === edge.source)?.data.label || edge.source;
+  const target = nodes.find((n) => n.id === edge.target)?.data.label || edge.target;
+  return `${source} → ${target}`;
+};
+
+interface ParameterEditorProps {
+  title: string;
+  param: SweepParameter;
+  onChange: (param: SweepParameter) => void;
+  nodes: Node<NodeData>[];
+  edges: Edge<EdgeData>[];
+}
+
+function ParameterEditor({ title, param, onChange, nodes, edges }: ParameterEditorProps) {
+  const targetData = param.target === 'node'
+    ? nodes.find((n) => n.id === param.id)?.data
+    : edges.find((e) => e.id === param.id)?.data;
+  const fields = targetData ? getSweepableFields(targetData) : [];
+
+  const handleTargetChange = (value: string) => {
+    const [target, ...rest] = value.split(':');
+    const id = rest.join(':');
+    const data = target === 'node'
+      ? nodes.find((n) => n.id === id)?.data
+      : edges.find((e) => e.id === id)?.data;
+    const nextFields = data ? getSweepableFields(data) : [];
+    const field = nextFields.includes(param.field) ? param.field : nextFields[0] ?? '';
+    onChange({ ...param, target: target as SweepParameter['target'], id, field });
+  };
+
+  return (
+    <div className="sweep-parameter">
+      <label>{title}</label>
+      <select value={`${param.target}:${param.id}`} onChange={(e) => handleTargetChange(e.target.value)}>
+        <optgroup label="Nodes">
+          {nodes.map((n) => (
+            <option key={n.id} value={`node:${n.id}`}>{n.data.label}</option>
+          ))}
+        </optgroup>
+        {edges.length > 0 && (
+          <optgroup label="Connections">
+            {edges.map((e) => (
+              <option key={e.id} value={`edge:${e.id}`}>{edgeLabel(e, nodes)}</option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+      <select value={param.field} onChange={(e) => onChange({ ...param, field: e.target.value })}>
+        {fields.map((field) => (
+          <option key={field} value={field}>{field}</option>
+        ))}
+      </select>
+      <div className="sweep-range">
+        <input
+          type="number"
+          value={param.from}
+          onChange={(e) => onChange({ ...param, from: parseFloat(e.target.value) || 0 })}
+          title="From"
+        />
+        <span>→</span>
+        <input
+          type="number"
+          value={param.to}
+          onChange={(e) => onChange({ ...param, to: parseFloat(e.target.value) || 0 })}
+          title="To"
+        />
+        <span>step</span>
+        <input
+          type="number"
+          value={param.step}
+          min={0}
+          onChange={(e) => onChange({ ...param, step: parseFloat(e.target.value) || 0 })}
+          title="Step"
+        />
+      </div>
+    </div>
+  );
+}
+
+function SweepResults({ result, labels }: { result: SweepResult; labels: Record<string, string> }) {
+  const [xParam, yParam] = result.parameters;
+  const paramLabel = (p: SweepParameter) => `${labels[p.id] || p.id}.${p.field}`;
+  const metricLabel = result.metric.key === COMPLETION_METRIC_KEY
+    ? `${COMPLETION_METRIC_LABEL} (max ${result.metric.tick})`
+    : `${labels[result.metric.key] || result.metric.key} @ ${result.metric.tick}`;
+
+  const computed = result.values.flat().filter((v) => !Number.isNaN(v));
+  const min = Math.min(...computed);
+  const max = Math.max(...computed);
+
+  if (!yParam) {
+    const lineData = result.xValues.map((x, i) => ({ x, value: result.values[0][i] }));
+    return (
+      <div className="sweep-results">
+        <ResponsiveContainer width="100%" height={160}>
+          <LineChart data={lineData.filter((d) => !Number.isNaN(d.value))}>
+            <XAxis dataKey="x" stroke="#666" fontSize={10} tickLine={false} />
+            <YAxis stroke="#666" fontSize={10} tickLine={false} width={40} />
+            <Tooltip
+              contentStyle={{
+                background: '#16213e',
+                border: '1px solid #0f3460',
+                borderRadius: '4px',
+                fontSize: '12px',
+              }}
+              labelStyle={{ color: '#fff' }}
+              labelFormatter={(x) => `${paramLabel(xParam)} = ${x}`}
+              formatter={(value) => [formatValue(Number(value)), metricLabel]}
+            />
+            <Line type="monotone" dataKey="value" stroke="#e94560" strokeWidth={2} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+        <table className="sweep-table">
+          <thead>
+            <tr><th>{paramLabel(xParam)}</th><th>{metricLabel}</th></tr>
+          </thead>
+          <tbody>
+            {lineData.map((d) => (
+              <tr key={d.x}><td>{d.x}</td><td>{formatValue(d.value)}</td></tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  // 2D: heatmap table (rows = second parameter, columns = first parameter)
+  return (
+    <div className="sweep-results">
+      <div className="sweep-axis-note">
+        {metricLabel} · rows: {paramLabel(yParam)} · columns: {paramLabel(xParam)}
+      </div>
+      <table className="sweep-table sweep-heatmap">
+        <thead>
+          <tr>
+            <th></th>
+            {result.xValues.map((x) => <th key={x}>{x}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {result.yValues.map((y, yi) => (
+            <tr key={y}>
+              <th>{y}</th>
+              {result.values[yi].map((value, xi) => (
+                <td
+                  key={xi}
+                  style={{ background: heatColor(value, min, max) }}
+                  title={`${paramLabel(xParam)}=${result.xValues[xi]}, ${paramLabel(yParam)}=${y}`}
+                >
+                  {formatValue(value)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function SweepPanel() {
+  const { nodes, edges, settings, sweep, sweepProgress, runSweep, cancelSweep, exportSweepCSV } = useSimulatorStore();
+  const { getAllTokens } = useTokenStore();
+
+  const defaultParam = (): SweepParameter => {
+    const node = nodes.find((n) => typeof n.data.productionRate === 'number') ?? nodes[0];
+    const fields = node ? getSweepableFields(node.data) : [];
+    return {
+      target: 'node',
+      id: node?.id ?? '',
+      field: fields.includes('productionRate') ? 'productionRate' : fields[0] ?? '',
+      from: 1,
+      to: 10,
+      step: 1,
+    };
+  };
+
+  const [paramX, setParamX] = useState<SweepParameter>(defaultParam);
+  const [paramY, setParamY] = useState<SweepParameter>(() => ({ ...defaultParam(), to: 5 }));
+  const [useSecond, setUseSecond] = useState(false);
+  const [metricKey, setMetricKey] = useState('');
+  const [metricTick, setMetricTick] = useState(100);
+  const [runs, setRuns] = useState(1);
+  const [error, setError] = useState<string | null>(null);
+
+  // Labels for nodes and edges (results and CSV headers)
+  const labels = useMemo(() => {
+    const map: Record<string, string> = {};
+    nodes.forEach((n) => { map[n.id] = n.data.label; });
+    edges.forEach((e) => { map[e.id] = edgeLabel(e, nodes); });
+    return map;
+  }, [nodes, edges]);
+
+  // Metric series: node totals (like the chart), global token totals, the
+  // blocked/discarded totals of pools with a capacity (discarded of random percentage gates) and the consumption/unmet
+  // demand of demand drains, the rolls and drops by tier of loot tables, plus ticks to completion
+  // when the project has End Conditions
+  const metricOptions = useMemo(() => [
+    ...nodes
+      .filter((n) => n.data.nodeType !== 'drain' && n.data.nodeType !== 'gate' && n.data.nodeType !== 'end')
+      .map((n) => ({ key: n.id, label: n.data.label })),
+    ...getAllTokens().map((t) => ({ key: `token:${t.id}`, label: `${t.emoji || '●'} ${t.name} (total)` })),
+    ...nodes
+      .filter((n) => n.data.nodeType === 'pool' && n.data.capacity !== -1)
+      .flatMap((n) => [
+        { key: getCounterKey('blocked', n.id), label: `🚫 ${n.data.label} blocked (total)` },
+        { key: getCounterKey('discarded', n.id), label: `🗑️ ${n.data.label} discarded (total)` },
+      ]),
+    ...nodes
+      .filter((n) => n.data.nodeType === 'gate' && n.data.gateDistribution === 'random_percent')
+      .map((n) => ({ key: getCounterKey('discarded', n.id), label: `🗑️ ${n.data.label} discarded (total)` })),
+    ...nodes
+      .filter((n) => n.data.nodeType === 'drain' && n.data.drainMode === 'demand')
+      .flatMap((n) => [
+        { key: getCounterKey('consumed', n.id), label: `🎯 ${n.data.label} consumed (tick)` },
+        { key: getCounterKey('unmet', n.id), label: `⚠️ ${n.data.label} unmet demand (tick)` },
+      ]),
+    ...nodes
+      .filter((n) => n.data.nodeType === 'loot')
+      .flatMap((n) => [
+        { key: getCounterKey('rolls', n.id), label: `🎲 ${n.data.label} rolls (total)` },
+        ...LOOT_TIERS
+          .filter((tier) => (n.data.lootEntries ?? []).some((entry) => entry.tier === tier))
+          .map((tier) => ({ key: getCounterKey(`drops-${tier}`, n.id), label: `🎁 ${n.data.label} ${LOOT_TIER_LABELS[tier]} drops (total)` })),
+      ]),
+    ...(nodes.some((n) => n.data.nodeType === 'end')
+      ? [{ key: COMPLETION_METRIC_KEY, label: `🏁 ${COMPLETION_METRIC_LABEL}` }]
+      : []),
+  ], [nodes, getAllTokens]);
+
+  const selectedMetric = metricOptions.some((m) => m.key === metricKey) ? metricKey : metricOptions[0]?.key ?? '';
+  const isRunning = sweepProgress !== null;
+
+  // The swept node/edge may have been deleted since it was picked
+  const isValidParam = (p: SweepParameter) =>
+    p.field !== '' && (p.target === 'node' ? nodes.some((n) => n.id === p.id) : edges.some((e) => e.id === p.id));
+  const sweepTicks = countSweepTicks(useSecond ? [paramX, paramY] : [paramX], runs, metricTick);
+  const sweepTooLarge = sweepTicks > MAX_SWEEP_TICKS;
+  const canRun = selectedMetric !== '' && isValidParam(paramX) && (!useSecond || isValidParam(paramY)) && !sweepTooLarge;
+
+  if (nodes.length === 0) {
+    return <div className="sweep-panel"><p className="sweep-empty">Add some nodes to run a sweep.</p></div>;
+  }
+
+  const handleRun = async () => {
+    setError(null);
+    try {
+      await runSweep({
+        parameters: useSecond ? [paramX, paramY] : [paramX],
+        metric: { key: selectedMetric, tick: metricTick },
+        runs,
+      });
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="sweep-panel">
+      <ParameterEditor title="Parameter X" param={paramX} onChange={setParamX} nodes={nodes} edges={edges} />
+
+      <label className="sweep-toggle">
+        <input type="checkbox" checked={useSecond} onChange={(e) => setUseSecond(e.target.checked)} />
+        Second parameter (2D heatmap)
+      </label>
+      {useSecond && (
+        <ParameterEditor title="Parameter Y" param={paramY} onChange={setParamY} nodes={nodes} edges={edges} />
+      )}
+
+      <div className="sweep-parameter">
+        <label>Metric</label>
+        <select value={selectedMetric} onChange={(e) => setMetricKey(e.target.value)}>
+          {metricOptions.map((m) => (
+            <option key={m.key} value={m.key}>{m.label}</option>
+          ))}
+        </select>
+        <div className="sweep-range">
+          <span>{selectedMetric === COMPLETION_METRIC_KEY ? 'max ticks' : 'at tick'}</span>
+          <input
+            type="number"
+            min={0}
+            value={metricTick}
+            onChange={(e) => setMetricTick(Math.max(0, parseInt(e.target.value) || 0))}
+          />
+          <span>runs</span>
+          <input
+            type="number"
+            min={1}
+            value={runs}
+            onChange={(e) => setRuns(Math.max(1, parseInt(e.target.value) || 1))}
+            title="Runs per point (averaged)"
+          />
+        </div>
+      </div>
+
+      <div className="sweep-actions">
+        {isRunning ? (
+          <button className="validate-btn" onClick={cancelSweep}>⏹️ Stop ({Math.round(sweepProgress * 100)}%)</button>
+        ) : (
+          <button
+            className="validate-btn"
+            onClick={handleRun}
+            disabled={!canRun}
+            title={sweepTooLarge
+              ? `Points × runs × ticks is ${sweepTicks.toLocaleString('en-US')}, max ${MAX_SWEEP_TICKS.toLocaleString('en-US')}`
+              : undefined}
+          >
+            ▶️ Run sweep
+          </button>
+        )}
+        <button className="validate-btn" onClick={exportSweepCSV} disabled={!sweep}>📊 CSV</button>
+      </div>
+      {error && <div className="formula-error">{error}</div>}
+      <div className="sweep-axis-note">Seed {settings.seed} · runs start from the reset state</div>
+
+      {sweep && <SweepResults result={sweep} labels={labels} />}
+      {sweep?.cancelled && <div className="sweep-axis-note">Stopped early: empty cells were not computed.</div>}
+      {sweep?.metric.key === COMPLETION_METRIC_KEY && (
+        <div className="sweep-axis-note">Mean over the runs that met an End Condition (– = none did).</div>
+      )}
+    </div>
+  );
+}
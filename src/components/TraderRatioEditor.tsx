@@ -0,0 +1,149 @@
+/**
+ * TraderRatioEditor - Editor for Trader exchange ratios.
+ *
+ * Allows defining:
+ * - Token pairs traded between input A and input B ("3 wood ⇄ 1 gold")
+ * - Several pairs, tried in order each tick
+ */
+
+import { useState } from 'react';
+import { useTokenStore } from '../store/tokenStore';
+import { TraderRatio } from '../types';
+import { createTraderRatio, formatTraderRatio } from '../utils/traderRatios';
+
+interface TraderRatioEditorProps {
+  ratios: TraderRatio[] | undefined;
+  onChange: (ratios: TraderRatio[] | undefined) => void;
+}
+
+export function TraderRatioEditor({ ratios, onChange }: TraderRatioEditorProps) {
+  const getAllTokens = useTokenStore((state) => state.getAllTokens);
+  const getToken = useTokenStore((state) => state.getToken);
+  const [useRatios, setUseRatios] = useState(!!ratios?.length);
+
+  const allTokens = getAllTokens();
+
+  // Start with one ratio when switching to ratio mode
+  const handleToggleRatios = (enabled: boolean) => {
+    setUseRatios(enabled);
+    if (enabled && !ratios?.length) {
+      onChange([createTraderRatio()]);
+    } else if (!enabled) {
+      onChange(undefined);
+    }
+  };
+
+  const handleAdd = () => {
+    onChange([...(ratios ?? []), createTraderRatio()]);
+  };
+
+  const handleRemove = (index: number) => {
+    if (!ratios || ratios.length <= 1) return;
+    onChange(ratios.filter((_, i) => i !== index));
+  };
+
+  const handleRatioChange = (index: number, field: keyof TraderRatio, value: string | number) => {
+    if (!ratios) return;
+    const newRatios = [...ratios];
+    newRatios[index] = { ...newRatios[index], [field]: value };
+    onChange(newRatios);
+  };
+
+  const renderTokenSelect = (index: number, field: 'tokenA' | 'tokenB', value: string) => (
+    <select
+      value={value}
+      onChange={(e) => handleRatioChange(index, field, e.target.value)}
+    >
+      {allTokens.map((t) => (
+        <option key={t.id} value={t.id}>
+          {t.emoji} {t.name}
+        </option>
+      ))}
+    </select>
+  );
+
+  const renderAmountInput = (index: number, field: 'amountA' | 'amountB', value: number) => (
+    <input
+      type="number"
+      value={value}
+      min={1}
+      step={1}
+      onChange={(e) => handleRatioChange(index, field, Math.max(1, parseInt(e.target.value) || 1))}
+    />
+  );
+
+  return (
+    <div className="recipe-editor">
+      {/* Toggle between one-for-one swapping and exchange ratios */}
+      <div className="recipe-toggle">
+        <button
+          type="button"
+          className={`mode-btn ${!useRatios ? 'active' : ''}`}
+          onClick={() => handleToggleRatios(false)}
+        >
+          🔁 Swap All (1:1)
+        </button>
+        <button
+          type="button"
+          className={`mode-btn ${useRatios ? 'active' : ''}`}
+          onClick={() => handleToggleRatios(true)}
+        >
+          ⚖️ Exchange Ratios
+        </button>
+      </div>
+
+      {!useRatios ? (
+        <div className="ratio-example">
+          Everything from input A leaves through output B and everything from input B through output A.
+        </div>
+      ) : (
+        <div className="multi-token-recipe">
+          {ratios?.map((ratio, index) => (
+            <div key={index} className="recipe-section">
+              <div className="recipe-section-header">
+                <span>RATIO {index + 1}</span>
+              </div>
+              <div className="recipe-item">
+                <span>A</span>
+                {renderAmountInput(index, 'amountA', ratio.amountA)}
+                {renderTokenSelect(index, 'tokenA', ratio.tokenA)}
+              </div>
+              <div className="recipe-item">
+                <span>B</span>
+                {renderAmountInput(index, 'amountB', ratio.amountB)}
+                {renderTokenSelect(index, 'tokenB', ratio.tokenB)}
+                {ratios.length > 1 && (
+                  <button
+                    type="button"
+                    className="recipe-remove"
+                    onClick={() => handleRemove(index)}
+                    title="Remove"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+          <button
+            type="button"
+            className="recipe-add"
+            onClick={handleAdd}
+          >
+            + Add ratio
+          </button>
+
+          {/* Ratio summary */}
+          {ratios && ratios.length > 0 && (
+            <div className="recipe-summary">
+              {ratios.map((ratio) => formatTraderRatio(ratio, (id) => getToken(id)?.emoji || '●')).join(', ')}
+            </div>
+          )}
+          <div className="ratio-example">
+            Leftovers that don't make a full trade wait in the input buffers; a trade is refused while either side is short.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { NodeData, PropagationMode } from '../types';
+import { createEngine } from './simulationEngine';
+import { createEdge, createNode, stock } from './testUtils';
+
+// Two pools (7 and 20 units) feeding a drain that wants 10 per tick
+const createUpkeep = (drain: Partial<NodeData> = {}, propagationMode: PropagationMode = 'snapshot') => createEngine(
+  [
+    createNode('small', 'pool', stock({ black: 7 })),
+    createNode('large', 'pool', stock({ black: 20 })),
+    createNode('upkeep', 'drain', { drainMode: 'demand', consumptionRate: 10, ...drain }),
+  ],
+  [createEdge('e1', 'small', 'upkeep'), createEdge('e2', 'large', 'upkeep')],
+  { settings: { propagationMode } }
+);
+
+const getDrain = (engine: ReturnType<typeof createEngine>) =>
+  engine.getState().nodes.find((n) => n.id === 'upkeep')!.data;
+
+describe('demand drains', () => {
+  for (const propagationMode of ['snapshot', 'topological'] as const) {
+    it(`pull their demand from their inputs, past the connection flow rates (${propagationMode})`, () => {
+      const engine = createUpkeep({}, propagationMode);
+      const consumed: number[] = [];
+      const unmet: number[] = [];
+      for (let i = 0; i < 4; i++) {
+        engine.step();
+        consumed.push(getDrain(engine).lastConsumed ?? 0);
+        unmet.push(getDrain(engine).lastUnmet ?? 0);
+      }
+      expect(consumed).toEqual([10, 10, 7, 0]);
+      expect(unmet).toEqual([0, 0, 3, 10]);
+      expect(getDrain(engine).totalUnmet).toBe(13);
+    });
+  }
+
+  it('take only their demand tokens', () => {
+    const engine = createEngine(
+      [
+        createNode('wallet', 'pool', stock({ black: 5, orange: 5 })),
+        createNode('upkeep', 'drain', { drainMode: 'demand', consumptionRate: 4, demandTokens: ['orange'] }),
+      ],
+      [createEdge('e1', 'wallet', 'upkeep')]
+    );
+    engine.step();
+    expect(engine.getState().nodes.find((n) => n.id === 'wallet')?.data.typedResources).toEqual({ black: 5, orange: 1 });
+  });
+
+  it('with pull all, take nothing unless the whole demand is there', () => {
+    const engine = createUpkeep({ pullMode: 'pull_all', consumptionRate: 30 });
+    engine.step();
+    expect(getDrain(engine).lastConsumed).toBe(0);
+    expect(getDrain(engine).lastUnmet).toBe(30);
+  });
+
+  it('leave passive drains taking what their inputs push', () => {
+    const engine = createEngine(
+      [createNode('pool', 'pool', stock({ black: 10 })), createNode('drain', 'drain', { consumptionRate: 1 })],
+      [createEdge('e1', 'pool', 'drain', { flowRate: 5 })]
+    );
+    engine.step();
+    expect(engine.getState().nodes.find((n) => n.id === 'pool')?.data.resources).toBe(5);
+  });
+});
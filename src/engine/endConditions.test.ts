@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { createEngine } from './simulationEngine';
+import { runMonteCarlo } from './monteCarlo';
+import { createEdge, createNode } from './testUtils';
+
+// Source → Wallet, 2 per tick
+const economy = [createNode('source', 'source', { productionRate: 2 }), createNode('wallet', 'pool', { capacity: -1 })];
+const edges = [createEdge('e1', 'source', 'wallet', { flowRate: 2 })];
+
+// Steps until the run ends (or `max` ticks)
+const stepUntilEnd = (engine: ReturnType<typeof createEngine>, max = 100) => {
+  for (let i = 0; i < max; i++) {
+    const result = engine.step();
+    if (result.ended) return result.ended;
+  }
+  return undefined;
+};
+
+describe('End Condition nodes', () => {
+  it('end the run when the watched node reaches the threshold', () => {
+    const engine = createEngine([
+      ...economy,
+      createNode('goal', 'end', { label: 'Goal', endWatchNodeId: 'wallet', endComparison: 'at_least', endThreshold: 10 }),
+    ], edges);
+    const ended = stepUntilEnd(engine);
+    expect(ended).toMatchObject({ nodeId: 'goal', tick: 5, reason: 'Goal: wallet resources ≥ 10' });
+  });
+
+  it('fire once per run', () => {
+    const engine = createEngine([
+      ...economy,
+      createNode('goal', 'end', { endWatchNodeId: 'wallet', endThreshold: 4 }),
+    ], edges);
+    expect(stepUntilEnd(engine)?.tick).toBe(2);
+    expect(engine.step().ended).toBeUndefined();
+    expect(engine.getState().nodes.find((n) => n.id === 'goal')?.data.endedAtTick).toBe(2);
+  });
+
+  it('watch a single token type', () => {
+    const engine = createEngine([
+      ...economy,
+      createNode('goal', 'end', { endWatchNodeId: 'wallet', endWatchToken: 'orange', endThreshold: 1 }),
+    ], edges);
+    expect(stepUntilEnd(engine, 20)).toBeUndefined();
+  });
+
+  it('can end on a formula', () => {
+    const engine = createEngine([
+      ...economy,
+      createNode('goal', 'end', { processingMode: 'formula', formula: 'tick >= 7' }),
+    ], edges);
+    expect(stepUntilEnd(engine)?.tick).toBe(7);
+  });
+
+  it('give the ticks to completion of a Monte Carlo batch', async () => {
+    const result = await runMonteCarlo([
+      ...economy,
+      createNode('goal', 'end', { endWatchNodeId: 'wallet', endThreshold: 10 }),
+    ], edges, { runs: 3, ticks: 20, seed: 42 });
+    expect(result.completionTicks).toEqual([5, 5, 5]);
+    expect(result.completion).toMatchObject({ completedRuns: 3, mean: 5 });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { createEngine } from './simulationEngine';
+import { createEdge, createNode, run, stock } from './testUtils';
+
+describe('formula and script flow rates', () => {
+  it('evaluates a formula flow rate every tick', () => {
+    const engine = createEngine(
+      [createNode('pool', 'pool', stock({ black: 100 })), createNode('target', 'pool')],
+      [createEdge('e1', 'pool', 'target', { flowMode: 'formula', flowFormula: 'tick + 1' })]
+    );
+    engine.step();
+    engine.step();
+    engine.step();
+    expect(engine.getState().nodes.find((n) => n.id === 'target')?.data.resources).toBe(1 + 2 + 3);
+  });
+
+  it('reads the source and target of the connection', () => {
+    const result = run(
+      [createNode('pool', 'pool', stock({ black: 20 })), createNode('target', 'pool')],
+      [createEdge('e1', 'pool', 'target', { flowMode: 'formula', flowFormula: 'source.resources / 2' })],
+      1
+    );
+    expect(result.target.resources).toBe(10);
+  });
+
+  it('falls back to the fixed flow rate when the formula fails', () => {
+    const result = run(
+      [createNode('pool', 'pool', stock({ black: 20 })), createNode('target', 'pool')],
+      [createEdge('e1', 'pool', 'target', { flowRate: 3, flowMode: 'formula', flowFormula: 'unknown +' })],
+      1
+    );
+    expect(result.target.resources).toBe(3);
+  });
+
+  it('runs a script flow rate before the tick', async () => {
+    const engine = createEngine(
+      [createNode('pool', 'pool', stock({ black: 20 })), createNode('target', 'pool')],
+      [createEdge('e1', 'pool', 'target', { flowMode: 'script', flowScript: 'return tick === 0 ? 4 : 1;' })]
+    );
+    await engine.stepAsync();
+    await engine.stepAsync();
+    expect(engine.getState().nodes.find((n) => n.id === 'target')?.data.resources).toBe(5);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { GateDistribution } from '../types';
+import { createEdge, createNode, run } from './testUtils';
+
+// Source (4 per tick) → Gate → Heavy (weight 3) / Light (weight 1)
+const runGate = (gateDistribution: GateDistribution, ticks: number, weights: [number, number] = [3, 1]) => run(
+  [
+    createNode('source', 'source', { productionRate: 4 }),
+    createNode('gate', 'gate', { gateDistribution }),
+    createNode('heavy', 'pool', { capacity: -1 }),
+    createNode('light', 'pool', { capacity: -1 }),
+  ],
+  [
+    createEdge('e1', 'source', 'gate', { flowRate: 4 }),
+    createEdge('e2', 'gate', 'heavy', { flowRate: 10, weight: weights[0] }),
+    createEdge('e3', 'gate', 'light', { flowRate: 10, weight: weights[1] }),
+  ],
+  ticks
+);
+
+describe('gate distribution', () => {
+  it('deterministic deals resources in the ratio of the weights', () => {
+    const result = runGate('deterministic', 11);
+    expect(result.heavy.resources).toBe(30);
+    expect(result.light.resources).toBe(10);
+  });
+
+  it('random by weight sends every resource to one output', () => {
+    const result = runGate('random_weight', 101);
+    expect(result.heavy.resources + result.light.resources + result.gate.resources).toBe(404);
+    expect(result.heavy.resources).toBeGreaterThan(result.light.resources * 2);
+  });
+
+  it('random by percentage discards the "no output" rolls and counts them', () => {
+    // 30% + 20%: about half of the resources are discarded
+    const result = runGate('random_percent', 101, [30, 20]);
+    const delivered = result.heavy.resources + result.light.resources;
+    // 101 ticks of production, the last one still in the gate
+    expect(result.gate.totalDiscarded).toBe(404 - delivered - result.gate.resources);
+    expect(result.gate.totalDiscarded).toBeGreaterThan(100);
+    expect(result.gate.totalDiscarded).toBeLessThan(300);
+  });
+
+  it('random distributions replay with the seed', () => {
+    expect(runGate('random_weight', 20)).toEqual(runGate('random_weight', 20));
+  });
+});
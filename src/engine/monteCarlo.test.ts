@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_MONTE_CARLO_SAMPLES, aggregateRuns, getRunSeed, percentile, runMonteCarlo } from './monteCarlo';
+import { createEdge, createNode } from './testUtils';
+
+describe('percentile', () => {
+  it('interpolates between the sorted values', () => {
+    expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(percentile([0, 10], 25)).toBe(2.5);
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe('aggregateRuns', () => {
+  it('summarizes every key per tick, missing keys counting as 0', () => {
+    const { keys, series } = aggregateRuns(
+      [
+        [{ tick: 0, pool: 0 }, { tick: 1, pool: 2, 'token:black': 2 }],
+        [{ tick: 0, pool: 0 }, { tick: 1, pool: 4 }],
+      ],
+      1
+    );
+    expect(keys).toEqual(['pool', 'token:black']);
+    expect(series.pool[1]).toMatchObject({ tick: 1, mean: 3, min: 2, max: 4, p50: 3 });
+    expect(series['token:black'][1]).toMatchObject({ mean: 1, min: 0, max: 2 });
+  });
+});
+
+describe('runMonteCarlo', () => {
+  // A source that produces on half of the ticks
+  const nodes = [createNode('source', 'source', { probability: 50 }), createNode('pool', 'pool', { capacity: -1 })];
+  const edges = [createEdge('e1', 'source', 'pool')];
+
+  it('runs every seed and spreads the results', async () => {
+    const result = await runMonteCarlo(nodes, edges, { runs: 20, ticks: 10, seed: 42 });
+    expect(result.runs).toBe(20);
+    expect(result.runSeeds[3]).toBe(getRunSeed(42, 3));
+    expect(result.series.pool).toHaveLength(11);
+    const last = result.series.pool[10];
+    expect(last.min).toBeLessThan(last.max);
+    expect(last.mean).toBeGreaterThan(0);
+    expect(last.mean).toBeLessThan(10);
+  });
+
+  it('gives the same bands for the same seed', async () => {
+    const first = await runMonteCarlo(nodes, edges, { runs: 5, ticks: 10, seed: 42 });
+    const second = await runMonteCarlo(nodes, edges, { runs: 5, ticks: 10, seed: 42 });
+    expect(second.series).toEqual(first.series);
+  });
+
+  it('keeps the completed runs when cancelled', async () => {
+    const result = await runMonteCarlo(nodes, edges, {
+      runs: 10,
+      ticks: 5,
+      seed: 42,
+      onProgress: (completed) => completed < 3,
+    });
+    expect(result.cancelled).toBe(true);
+    expect(result.runs).toBe(3);
+  });
+
+  it('rejects a batch over the sample limit before running it', async () => {
+    let progressCalls = 0;
+    // 2 series (source and pool): runs × (ticks + 1) × 2 values
+    const runs = Math.ceil(MAX_MONTE_CARLO_SAMPLES / 2 / 11) + 1;
+    await expect(runMonteCarlo(nodes, edges, {
+      runs,
+      ticks: 10,
+      seed: 42,
+      onProgress: () => { progressCalls++; },
+    })).rejects.toThrow(/Batch too large/);
+    expect(progressCalls).toBe(0);
+  });
+
+  it('counts every series in the limit', async () => {
+    const manyPools = Array.from({ length: 100 }, (_, i) => createNode(`pool_${i}`, 'pool', { capacity: -1 }));
+    // Fine for one series, too large for 100
+    const runs = Math.floor(MAX_MONTE_CARLO_SAMPLES / 11 / 50);
+    await expect(runMonteCarlo(manyPools, [], { runs, ticks: 10, seed: 42 })).rejects.toThrow(/100 series/);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Monte Carlo batch runs.
+ *
+ * Runs the same project N times for T ticks, each run with its own seed
+ * derived from the project seed, and aggregates the per-tick history into
+ * mean and percentile bands (p5/p25/p50/p75/p95) for every node and token.
+ *
+ * Every run starts from the reset state of the project (see resetNodes),
+ * so the result does not depend on where the live simulation currently is.
+ *
+ * If the project has End Condition nodes, the tick at which each run first
+ * met one is recorded ("ticks to completion"). Runs keep going until `ticks`
+ * so every run contributes to the per-tick bands.
+ *
+ * Values are aggregated as each tick is computed (one number per run, tick
+ * and series), so no run history is kept. A batch is limited to
+ * MAX_MONTE_CARLO_SAMPLES runs × ticks × series.
+ *
+ * Usage:
+ *   const result = await runMonteCarlo(nodes, edges, { runs: 200, ticks: 100, seed: 42 });
+ *   result.series['token:gold'][10].p95  // 95th percentile of gold at tick 10
+ */
+
+import { Node, Edge } from '@xyflow/react';
+import { NodeData, EdgeData, ProjectSettings } from '../types';
+import { deriveSeed } from '../utils/random';
+import { createEngine, buildHistoryEntry, resetNodes, resetEdges, parseCounterKey, ResourceHistoryEntry } from './simulationEngine';
+
+export interface MonteCarloOptions {
+  runs: number;
+  ticks: number;
+  // Base seed: run i uses deriveSeed(seed, 'run', i)
+  seed: number;
+  // Other project settings applied to every run
+  settings?: Partial<ProjectSettings>;
+  // Called after each completed run. Return false to cancel the batch.
+  onProgress?: (completedRuns: number, totalRuns: number) => boolean | void | Promise<boolean | void>;
+}
+
+/**
+ * Aggregate statistics of one series (node or token) at one tick.
+ */
+export interface MonteCarloStats {
+  tick: number;
+  mean: number;
+  min: number;
+  max: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+/**
+ * Statistics of the ticks to completion over the runs that met an End Condition.
+ */
+export interface CompletionStats extends Omit<MonteCarloStats, 'tick'> {
+  completedRuns: number;
+}
+
+export interface MonteCarloResult {
+  runs: number;
+  ticks: number;
+  seed: number;
+  // Series keys as in ResourceHistoryEntry: nodeId, `token:${tokenId}` or pool overflow counter
+  keys: string[];
+  // key → one entry per tick (0..ticks)
+  series: Record<string, MonteCarloStats[]>;
+  // Per-run seeds, so any single run can be replayed with that seed
+  runSeeds: number[];
+  // Per-run ticks to completion (null = no End Condition met within `ticks`)
+  completionTicks: (number | null)[];
+  // Null if no run met an End Condition
+  completion: CompletionStats | null;
+  // True if the batch was cancelled before all runs completed
+  cancelled: boolean;
+}
+
+// Maximum runs × ticks × series of a batch (every series keeps one number per run and tick)
+export const MAX_MONTE_CARLO_SAMPLES = 10_000_000;
+
+const formatSamples = (samples: number) => samples.toLocaleString('en-US');
+
+/**
+ * Seed used by run `index` of a batch.
+ */
+export function getRunSeed(seed: number, index: number): number {
+  return deriveSeed(seed, 'run', index);
+}
+
+/**
+ * Series of a project at the start of a batch: nodes, counters and the tokens
+ * already present (tokens produced later add series as they appear).
+ */
+export function countMonteCarloSeries(nodes: Node<NodeData>[]): number {
+  return Object.keys(buildHistoryEntry(resetNodes(nodes), 0)).length - 1;
+}
+
+/**
+ * Values a batch keeps: one per run, tick (0..ticks) and series.
+ */
+export function countMonteCarloSamples(runs: number, ticks: number, series: number): number {
+  return runs * (ticks + 1) * series;
+}
+
+/**
+ * Percentile of an ascending-sorted array (linear interpolation).
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Mean, min, max and percentiles of a non-empty list of values.
+ */
+function summarize(values: number[]): Omit<MonteCarloStats, 'tick'> {
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = sorted.reduce((acc, v) => acc + v, 0);
+  return {
+    mean: sum / sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    p5: percentile(sorted, 5),
+    p25: percentile(sorted, 25),
+    p50: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p95: percentile(sorted, 95),
+  };
+}
+
+/**
+ * Statistics of the ticks to completion (null entries = runs that did not end).
+ */
+export function summarizeCompletion(completionTicks: (number | null)[]): CompletionStats | null {
+  const completed = completionTicks.filter((t): t is number => t !== null);
+  if (completed.length === 0) return null;
+  return { completedRuns: completed.length, ...summarize(completed) };
+}
+
+/**
+ * Per-tick values of a batch, filled as the runs progress.
+ * Each series holds one number per run and tick (tick-major, so the values of
+ * one tick are contiguous). Keys missing from a run's entry (e.g. a token not
+ * produced yet) count as 0. Throws when a new series would take the batch over
+ * MAX_MONTE_CARLO_SAMPLES.
+ */
+export interface RunAggregator {
+  add: (run: number, tick: number, entry: ResourceHistoryEntry) => void;
+  // Statistics over the first `completedRuns` runs
+  result: (completedRuns: number) => { keys: string[]; series: Record<string, MonteCarloStats[]> };
+}
+
+export function createRunAggregator(runs: number, ticks: number): RunAggregator {
+  const nodeKeys: string[] = [];
+  const tokenKeys: string[] = [];
+  const counterKeys: string[] = [];
+  const values = new Map<string, Float64Array>();
+
+  const add = (run: number, tick: number, entry: ResourceHistoryEntry) => {
+    for (const [key, value] of Object.entries(entry)) {
+      if (key === 'tick') continue;
+      let buffer = values.get(key);
+      if (!buffer) {
+        const samples = countMonteCarloSamples(runs, ticks, values.size + 1);
+        if (samples > MAX_MONTE_CARLO_SAMPLES) {
+          throw new Error(`Batch too large (${values.size + 1} series reached: ${formatSamples(samples)} values, max ${formatSamples(MAX_MONTE_CARLO_SAMPLES)})`);
+        }
+        buffer = new Float64Array(runs * (ticks + 1));
+        values.set(key, buffer);
+        if (key.startsWith('token:')) tokenKeys.push(key);
+        else if (parseCounterKey(key)) counterKeys.push(key);
+        else nodeKeys.push(key);
+      }
+      buffer[tick * runs + run] = value;
+    }
+  };
+
+  const result = (completedRuns: number) => {
+    const keys = [...nodeKeys, ...tokenKeys, ...counterKeys];
+    const series: Record<string, MonteCarloStats[]> = {};
+    for (const key of keys) {
+      const buffer = values.get(key)!;
+      const stats: MonteCarloStats[] = [];
+      if (completedRuns > 0) {
+        for (let t = 0; t <= ticks; t++) {
+          const start = t * runs;
+          stats.push({ tick: t, ...summarize(Array.from(buffer.subarray(start, start + completedRuns))) });
+        }
+      }
+      series[key] = stats;
+    }
+    return { keys, series };
+  };
+
+  return { add, result };
+}
+
+/**
+ * Aggregate the histories of several runs into per-tick statistics.
+ * Keys missing from a run's entry (e.g. a token not produced yet) count as 0.
+ */
+export function aggregateRuns(
+  histories: ResourceHistoryEntry[][],
+  ticks: number
+): { keys: string[]; series: Record<string, MonteCarloStats[]> } {
+  const aggregator = createRunAggregator(histories.length, ticks);
+  histories.forEach((history, run) => {
+    history.slice(0, ticks + 1).forEach((entry, tick) => aggregator.add(run, tick, entry));
+  });
+  return aggregator.result(histories.length);
+}
+
+/**
+ * Run a Monte Carlo batch. Scripts are executed like in the editor, so
+ * script-heavy projects take proportionally longer.
+ *
+ * Throws if runs × ticks × series is over MAX_MONTE_CARLO_SAMPLES, before
+ * running anything when the series at the start already are.
+ */
+export async function runMonteCarlo(
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  options: MonteCarloOptions
+): Promise<MonteCarloResult> {
+  const { runs, ticks, seed, settings, onProgress } = options;
+  const initialNodes = resetNodes(nodes);
+  const series = countMonteCarloSeries(nodes);
+  const samples = countMonteCarloSamples(runs, ticks, series);
+  if (samples > MAX_MONTE_CARLO_SAMPLES) {
+    throw new Error(`Batch too large (${runs} runs × ${ticks} ticks × ${series} series: ${formatSamples(samples)} values, max ${formatSamples(MAX_MONTE_CARLO_SAMPLES)})`);
+  }
+  const initialEdges = resetEdges(edges);
+  const aggregator = createRunAggregator(runs, ticks);
+  const runSeeds: number[] = [];
+  const completionTicks: (number | null)[] = [];
+  let cancelled = false;
+
+  for (let i = 0; i < runs; i++) {
+    const runSeed = getRunSeed(seed, i);
+    const engine = createEngine(initialNodes, initialEdges, { settings: { ...settings, seed: runSeed } });
+
+    aggregator.add(i, 0, buildHistoryEntry(initialNodes, 0, engine.getSettings()));
+    let completionTick: number | null = null;
+    for (let t = 0; t < ticks; t++) {
+      const result = await engine.stepAsync();
+      aggregator.add(i, t + 1, buildHistoryEntry(result.nodes, result.tick, engine.getSettings()));
+      if (result.ended && completionTick === null) completionTick = result.ended.tick;
+    }
+
+    runSeeds.push(runSeed);
+    completionTicks.push(completionTick);
+
+    if ((await onProgress?.(i + 1, runs)) === false) {
+      cancelled = true;
+      break;
+    }
+  }
+
+  return {
+    runs: runSeeds.length,
+    ticks,
+    seed,
+    runSeeds,
+    completionTicks,
+    completion: summarizeCompletion(completionTicks),
+    cancelled,
+    ...aggregator.result(runSeeds.length),
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { OverflowPolicy } from '../types';
+import { buildHistoryEntry } from './simulationEngine';
+import { createEdge, createNode, run } from './testUtils';
+
+// 5 per tick into a pool of capacity 3, with a spill pool on the overflow handle
+const runOverflow = (overflowPolicy: OverflowPolicy, spillFlowRate = 5) => run(
+  [
+    createNode('source', 'source', { productionRate: 5 }),
+    createNode('pool', 'pool', { capacity: 3, overflowPolicy }),
+    createNode('spill', 'pool', { capacity: -1 }),
+  ],
+  [
+    createEdge('e1', 'source', 'pool', { flowRate: 5 }),
+    createEdge('e2', 'pool', 'spill', { flowRate: spillFlowRate }, { sourceHandle: 'overflow' }),
+  ],
+  1
+);
+
+describe('overflow policies', () => {
+  it('block leaves the excess upstream', () => {
+    const result = runOverflow('block');
+    expect(result.pool.resources).toBe(3);
+    expect(result.pool.totalBlocked).toBe(2);
+    expect(result.source.resources).toBe(2);
+    expect(result.spill.resources).toBe(0);
+  });
+
+  it('discard destroys the excess', () => {
+    const result = runOverflow('discard');
+    expect(result.pool.resources).toBe(3);
+    expect(result.pool.totalDiscarded).toBe(2);
+    expect(result.spill.resources).toBe(0);
+  });
+
+  it('overflow sends the excess out of the overflow handle', () => {
+    const result = runOverflow('overflow');
+    expect(result.pool.resources).toBe(3);
+    expect(result.spill.resources).toBe(2);
+    expect(result.pool.totalDiscarded).toBe(0);
+  });
+
+  it('overflow discards what the overflow connection cannot carry', () => {
+    const result = runOverflow('overflow', 1);
+    expect(result.spill.resources).toBe(1);
+    expect(result.pool.totalDiscarded).toBe(1);
+  });
+});
+
+describe('overflow counters in the history', () => {
+  it('are recorded for pools with a capacity and random percentage gates', () => {
+    const entry = buildHistoryEntry(
+      [
+        createNode('pool', 'pool', { capacity: 3, totalBlocked: 2, totalDiscarded: 1 }),
+        createNode('unlimited', 'pool', { capacity: -1 }),
+        createNode('gate', 'gate', { gateDistribution: 'random_percent', totalDiscarded: 4 }),
+        createNode('flowGate', 'gate'),
+      ],
+      1
+    );
+    expect(entry).toMatchObject({ 'blocked:pool': 2, 'discarded:pool': 1, 'discarded:gate': 4 });
+    expect(entry).not.toHaveProperty('blocked:unlimited');
+    expect(entry).not.toHaveProperty('discarded:flowGate');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SWEEP_TICKS, SweepParameter, countSweepTicks, getSweepValues, runSweep } from './parameterSweep';
+import { createEdge, createNode } from './testUtils';
+
+const productionRate = (from: number, to: number, step = 1): SweepParameter =>
+  ({ target: 'node', id: 'source', field: 'productionRate', from, to, step });
+
+describe('getSweepValues', () => {
+  it('lists the values from "from" to "to"', () => {
+    expect(getSweepValues(productionRate(1, 2, 0.25))).toEqual([1, 1.25, 1.5, 1.75, 2]);
+    expect(getSweepValues(productionRate(0.1, 0.3, 0.1))).toEqual([0.1, 0.2, 0.3]);
+  });
+
+  it('rejects invalid ranges', () => {
+    expect(() => getSweepValues(productionRate(1, 5, 0))).toThrow(/step must be > 0/);
+    expect(() => getSweepValues(productionRate(5, 1))).toThrow(/must be >= "from"/);
+    expect(() => getSweepValues(productionRate(1, 1000))).toThrow(/Too many values/);
+  });
+});
+
+describe('runSweep', () => {
+  const nodes = [createNode('source', 'source'), createNode('pool', 'pool', { capacity: -1 })];
+  const edges = [createEdge('e1', 'source', 'pool', { flowRate: 10 })];
+
+  it('reads the metric for every value (1D)', async () => {
+    const result = await runSweep(nodes, edges, {
+      parameters: [productionRate(1, 3)],
+      metric: { key: 'pool', tick: 10 },
+      seed: 42,
+    });
+    expect(result.xValues).toEqual([1, 2, 3]);
+    expect(result.values).toEqual([[10, 20, 30]]);
+  });
+
+  it('fills one row per value of the second parameter (2D)', async () => {
+    const result = await runSweep(nodes, edges, {
+      parameters: [productionRate(1, 3), { target: 'edge', id: 'e1', field: 'flowRate', from: 1, to: 2, step: 1 }],
+      metric: { key: 'pool', tick: 10 },
+      seed: 42,
+    });
+    expect(result.values).toEqual([[10, 10, 10], [10, 20, 20]]);
+  });
+
+  it('stops after the current run when cancelled', async () => {
+    const result = await runSweep(nodes, edges, {
+      parameters: [productionRate(1, 3)],
+      metric: { key: 'pool', tick: 10 },
+      runs: 4,
+      seed: 42,
+      // Cancel in the middle of the second point
+      onProgress: (completed) => completed < 1.5,
+    });
+    expect(result.cancelled).toBe(true);
+    expect(result.values[0][0]).toBe(10);
+    expect(result.values[0][1]).toBeNaN();
+    expect(result.values[0][2]).toBeNaN();
+  });
+
+  it('reports progress after every run', async () => {
+    const progress: number[] = [];
+    await runSweep(nodes, edges, {
+      parameters: [productionRate(1, 2)],
+      metric: { key: 'pool', tick: 1 },
+      runs: 2,
+      seed: 42,
+      onProgress: (completed) => { progress.push(completed); },
+    });
+    expect(progress).toEqual([0.5, 1, 1.5, 2]);
+  });
+
+  it('rejects a sweep over the tick limit before running it', async () => {
+    const parameters: [SweepParameter] = [productionRate(1, 10)];
+    const ticks = MAX_SWEEP_TICKS / 10;
+    expect(countSweepTicks(parameters, 2, ticks)).toBe(2 * MAX_SWEEP_TICKS);
+    await expect(runSweep(nodes, edges, { parameters, metric: { key: 'pool', tick: ticks }, runs: 2, seed: 42 }))
+      .rejects.toThrow(/Sweep too large/);
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Parameter sweep.
+ *
+ * Runs the project headlessly for every value (1D) or every pair of values
+ * (2D) of one or two numeric NodeData/EdgeData fields, and records an output
+ * metric: the value of a history series (node or token total) at a given tick,
+ * or the ticks to completion (first End Condition met) within that many ticks.
+ *
+ * Like Monte Carlo runs, every point starts from the reset state of the
+ * project. With `runs > 1` each point is the mean over several seeds.
+ * A sweep is limited to MAX_SWEEP_TICKS points × runs × ticks.
+ *
+ * Usage:
+ *   const result = await runSweep(nodes, edges, {
+ *     parameters: [
+ *       { target: 'node', id: 'mine', field: 'productionRate', from: 1, to: 10, step: 1 },
+ *       { target: 'edge', id: 'e1', field: 'flowRate', from: 1, to: 5, step: 1 },
+ *     ],
+ *     metric: { key: 'inventory', tick: 500 },
+ *     seed: 42,
+ *   });
+ *   result.values[y][x]  // metric for xValues[x], yValues[y]
+ */
+
+import { Node, Edge } from '@xyflow/react';
+import { NodeData, EdgeData, ProjectSettings } from '../types';
+import { createEngine, buildHistoryEntry, resetNodes, resetEdges } from './simulationEngine';
+import { getRunSeed } from './monteCarlo';
+
+export type SweepTarget = 'node' | 'edge';
+
+export interface SweepParameter {
+  target: SweepTarget;
+  id: string;           // Node or edge id
+  field: string;        // Numeric field of NodeData / EdgeData
+  from: number;
+  to: number;
+  step: number;
+}
+
+export interface SweepMetric {
+  key: string;          // History key: nodeId or `token:${tokenId}`, or COMPLETION_METRIC_KEY
+  tick: number;         // Tick at which the metric is read (max ticks for completion)
+}
+
+// Metric key for "ticks to completion": mean over the runs that met an End
+// Condition within metric.tick ticks (NaN if none did)
+export const COMPLETION_METRIC_KEY = 'completion';
+export const COMPLETION_METRIC_LABEL = 'Ticks to completion';
+
+export interface SweepOptions {
+  // One (1D) or two (2D) parameters
+  parameters: [SweepParameter] | [SweepParameter, SweepParameter];
+  metric: SweepMetric;
+  seed: number;
+  // Runs per point (averaged), default 1
+  runs?: number;
+  settings?: Partial<ProjectSettings>;
+  // Called after each run (completedPoints is fractional inside a point), so
+  // callers can yield to the UI. Return false to cancel the sweep.
+  onProgress?: (completedPoints: number, totalPoints: number) => boolean | void | Promise<boolean | void>;
+}
+
+export interface SweepResult {
+  parameters: SweepParameter[];
+  metric: SweepMetric;
+  runs: number;
+  xValues: number[];
+  // Empty for 1D sweeps
+  yValues: number[];
+  // values[y][x]; a 1D sweep has a single row. NaN = not computed (cancelled),
+  // or no run completed for the completion metric
+  values: number[][];
+  cancelled: boolean;
+}
+
+// Max points per parameter (keeps accidental tiny steps from freezing the UI)
+export const MAX_SWEEP_STEPS = 200;
+
+// Max simulated ticks of a sweep: points × runs × ticks
+export const MAX_SWEEP_TICKS = 1_000_000;
+
+// Runtime counters and state: numeric, but reset before every run
+const RUNTIME_FIELDS = new Set([
+  'resources',
+  'totalProduced',
+  'lastDistributionIndex',
+  'lastConsumed',
+  'lastProduced',
+  'lastReceived',
+  'lastConverted',
+  'lastSent',
+  'lastOutput',
+  'traderInputA',
+  'traderInputB',
+  'lastTrades',
+  'craftingRecipe',
+  'craftingProgress',
+  'lastRecipe',
+  'lootTotalRolls',
+  'lastRolls',
+  'delayProcessing',
+  'calculatedDelay',
+  'lastFlowRate',
+  'endedAtTick',
+  'lastBlocked',
+  'lastDiscarded',
+  'totalBlocked',
+  'totalDiscarded',
+  'lastUnmet',
+  'totalUnmet',
+  'marketStock',
+  'marketFunds',
+  'marketPrice',
+  'lastSold',
+  'lastBought',
+  'totalFees',
+]);
+
+/**
+ * Numeric fields of a node or edge that can be swept.
+ */
+export function getSweepableFields(data: Record<string, unknown>): string[] {
+  return Object.keys(data)
+    .filter((key) => typeof data[key] === 'number' && !RUNTIME_FIELDS.has(key))
+    .sort();
+}
+
+/**
+ * Values of a parameter, from `from` to `to` inclusive.
+ * Throws if the range is invalid or has more than MAX_SWEEP_STEPS points.
+ */
+export function getSweepValues(param: SweepParameter): number[] {
+  const { from, to, step } = param;
+  if (![from, to, step].every(Number.isFinite) || step <= 0) {
+    throw new Error(`Invalid range for ${param.field}: step must be > 0`);
+  }
+  if (to < from) {
+    throw new Error(`Invalid range for ${param.field}: "to" must be >= "from"`);
+  }
+
+  const count = Math.floor((to - from) / step + 1e-9) + 1;
+  if (count > MAX_SWEEP_STEPS) {
+    throw new Error(`Too many values for ${param.field} (${count}, max ${MAX_SWEEP_STEPS})`);
+  }
+
+  // Round to avoid 0.1 + 0.2 artifacts in the table
+  return Array.from({ length: count }, (_, i) => parseFloat((from + i * step).toPrecision(12)));
+}
+
+/**
+ * Simulated ticks of a sweep (0 if a range is invalid).
+ */
+export function countSweepTicks(parameters: SweepParameter[], runs: number, ticks: number): number {
+  try {
+    return parameters.reduce((points, param) => points * getSweepValues(param).length, 1) * runs * ticks;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Return copies of nodes/edges with one parameter set to a value.
+ */
+export function applySweepParameter(
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  param: SweepParameter,
+  value: number
+): { nodes: Node<NodeData>[]; edges: Edge<EdgeData>[] } {
+  if (param.target === 'node') {
+    return {
+      nodes: nodes.map((n) => (n.id === param.id ? { ...n, data: { ...n.data, [param.field]: value } } : n)),
+      edges,
+    };
+  }
+  return {
+    nodes,
+    edges: edges.map((e) => (e.id === param.id ? { ...e, data: { ...e.data, [param.field]: value } as EdgeData } : e)),
+  };
+}
+
+/**
+ * Simulate one configuration and read the metric (mean over `runs` seeds).
+ * `afterRun` is awaited after every run; returning false stops the point (NaN).
+ */
+async function evaluatePoint(
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  metric: SweepMetric,
+  seed: number,
+  runs: number,
+  settings: Partial<ProjectSettings> | undefined,
+  afterRun: (completedRuns: number) => Promise<boolean>
+): Promise<number> {
+  const isCompletion = metric.key === COMPLETION_METRIC_KEY;
+  let sum = 0;
+  let completedRuns = 0;
+  for (let i = 0; i < runs; i++) {
+    const runSeed = runs === 1 ? seed : getRunSeed(seed, i);
+    const engine = createEngine(nodes, edges, { settings: { ...settings, seed: runSeed } });
+    for (let t = 0; t < metric.tick; t++) {
+      const result = await engine.stepAsync();
+      // Ticks to completion: the rest of the run doesn't matter
+      if (isCompletion && result.ended) {
+        sum += result.ended.tick;
+        completedRuns++;
+        break;
+      }
+    }
+    if (!isCompletion) {
+      const entry = buildHistoryEntry(engine.getState().nodes, engine.getState().tick, engine.getSettings());
+      sum += entry[metric.key] ?? 0;
+    }
+    if (!(await afterRun(i + 1))) return NaN;
+  }
+  if (isCompletion) return completedRuns > 0 ? sum / completedRuns : NaN;
+  return sum / runs;
+}
+
+/**
+ * Run a 1D or 2D parameter sweep.
+ * Throws if a range is invalid or points × runs × ticks is over MAX_SWEEP_TICKS.
+ */
+export async function runSweep(
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  options: SweepOptions
+): Promise<SweepResult> {
+  const { parameters, metric, seed, settings, onProgress } = options;
+  const runs = Math.max(1, Math.floor(options.runs ?? 1));
+  const [xParam, yParam] = parameters;
+
+  const xValues = getSweepValues(xParam);
+  const yValues = yParam ? getSweepValues(yParam) : [];
+  const rows = yParam ? yValues.length : 1;
+  const total = xValues.length * rows;
+  const simulatedTicks = total * runs * metric.tick;
+  if (!(simulatedTicks <= MAX_SWEEP_TICKS)) {
+    throw new Error(`Sweep too large (${total} points × ${runs} runs × ${metric.tick} ticks, max ${MAX_SWEEP_TICKS.toLocaleString('en-US')} ticks in total)`);
+  }
+
+  const values: number[][] = Array.from({ length: rows }, () => xValues.map(() => NaN));
+  const initialNodes = resetNodes(nodes);
+  const initialEdges = resetEdges(edges);
+  let completed = 0;
+  let cancelled = false;
+
+  for (let y = 0; y < rows && !cancelled; y++) {
+    let base = { nodes: initialNodes, edges: initialEdges };
+    if (yParam) base = applySweepParameter(base.nodes, base.edges, yParam, yValues[y]);
+
+    for (let x = 0; x < xValues.length && !cancelled; x++) {
+      const point = applySweepParameter(base.nodes, base.edges, xParam, xValues[x]);
+      values[y][x] = await evaluatePoint(point.nodes, point.edges, metric, seed, runs, settings, async (completedRuns) => {
+        cancelled = (await onProgress?.(completed + completedRuns / runs, total)) === false;
+        return !cancelled;
+      });
+      completed++;
+    }
+  }
+
+  return { parameters: [...parameters], metric, runs, xValues, yValues, values, cancelled };
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { createEdge, createNode, run, stock } from './testUtils';
+
+describe('propagation modes', () => {
+  // Source → A → B → C, one unit per tick
+  const nodes = [createNode('source', 'source'), createNode('a', 'pool'), createNode('b', 'pool'), createNode('c', 'pool')];
+  const edges = [createEdge('e1', 'source', 'a'), createEdge('e2', 'a', 'b'), createEdge('e3', 'b', 'c')];
+
+  it('snapshot moves resources one hop per tick', () => {
+    const result = run(nodes, edges, 1, { settings: { propagationMode: 'snapshot' } });
+    expect([result.a.resources, result.b.resources, result.c.resources]).toEqual([1, 0, 0]);
+
+    const later = run(nodes, edges, 3, { settings: { propagationMode: 'snapshot' } });
+    expect([later.a.resources, later.b.resources, later.c.resources]).toEqual([1, 1, 1]);
+  });
+
+  it('topological moves resources down the whole chain within the tick', () => {
+    const result = run(nodes, edges, 1, { settings: { propagationMode: 'topological' } });
+    expect([result.a.resources, result.b.resources, result.c.resources]).toEqual([0, 0, 1]);
+  });
+
+  it('topological keeps the resources of a cycle', () => {
+    const result = run(
+      [createNode('a', 'pool', stock({ black: 1 })), createNode('b', 'pool')],
+      [createEdge('e1', 'a', 'b'), createEdge('e2', 'b', 'a')],
+      1,
+      { settings: { propagationMode: 'topological' } }
+    );
+    expect(result.a.resources + result.b.resources).toBe(1);
+  });
+});
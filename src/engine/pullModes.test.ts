@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { PullMode } from '../types';
+import { createEdge, createNode, run, stock } from './testUtils';
+
+// Wood (5) and iron pools pulled by a workshop, 2 of each per tick
+const runWorkshop = (pullMode: PullMode, iron: number, ticks = 1) => run(
+  [
+    createNode('wood', 'pool', stock({ black: 5 })),
+    createNode('iron', 'pool', stock({ blue: iron })),
+    createNode('workshop', 'pool', { pullMode }),
+  ],
+  [createEdge('e1', 'wood', 'workshop', { flowRate: 2 }), createEdge('e2', 'iron', 'workshop', { flowRate: 2 })],
+  ticks
+);
+
+describe('pull modes', () => {
+  it('pull any takes what each input has', () => {
+    expect(runWorkshop('pull_any', 1).workshop.typedResources).toEqual({ black: 2, blue: 1 });
+  });
+
+  it('pull all takes from every input when all of them can deliver', () => {
+    expect(runWorkshop('pull_all', 2).workshop.typedResources).toEqual({ black: 2, blue: 2 });
+  });
+
+  it('pull all takes nothing while one input is short', () => {
+    const result = runWorkshop('pull_all', 1, 3);
+    expect(result.workshop.resources).toBe(0);
+    expect(result.wood.typedResources).toEqual({ black: 5 });
+    expect(result.iron.typedResources).toEqual({ blue: 1 });
+  });
+
+  it('pull all waits until the workshop has room for every input', () => {
+    const result = run(
+      [
+        createNode('wood', 'pool', stock({ black: 5 })),
+        createNode('iron', 'pool', stock({ blue: 5 })),
+        createNode('workshop', 'pool', { pullMode: 'pull_all', capacity: 3 }),
+      ],
+      [createEdge('e1', 'wood', 'workshop', { flowRate: 2 }), createEdge('e2', 'iron', 'workshop', { flowRate: 2 })],
+      1
+    );
+    expect(result.workshop.resources).toBe(0);
+    expect(result.wood.resources).toBe(5);
+  });
+
+  it('drains can pull too', () => {
+    const result = run(
+      [createNode('pool', 'pool', stock({ black: 5 })), createNode('drain', 'drain', { pullMode: 'pull_any' })],
+      [createEdge('e1', 'pool', 'drain', { flowRate: 2 })],
+      2
+    );
+    expect(result.pool.resources).toBe(1);
+  });
+});
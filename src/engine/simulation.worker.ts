@@ -0,0 +1,136 @@
+/**
+ * Simulation Web Worker.
+ *
+ * Runs the headless engine, including the QuickJS script batch, off the main
+ * thread so the canvas stays responsive while playing. The main thread
+ * (see simulationWorkerClient.ts) sends the current project state and the
+ * worker streams back one snapshot per tick.
+ *
+ * Every state sent by the main thread carries a version number. Snapshots
+ * are tagged with the version they were computed from, so the client can
+ * drop snapshots that predate a user edit. A tick whose state was replaced
+ * while it ran still gets a (stale) response, so a pending step always settles.
+ */
+
+import { Node, Edge } from '@xyflow/react';
+import { NodeData, EdgeData, ProjectSettings } from '../types';
+import { createEngine, buildHistoryEntry, Engine, ResourceHistoryEntry, SimulationEnd } from './simulationEngine';
+
+export interface WorkerSimulationState {
+  nodes: Node<NodeData>[];
+  edges: Edge<EdgeData>[];
+  tick: number;
+  settings: ProjectSettings;
+  version: number;
+}
+
+export type WorkerRequest =
+  // Load state and play at the given speed
+  | { type: 'start'; state: WorkerSimulationState; ticksPerSecond: number }
+  // Pause (a tick in progress still completes; the client ignores it)
+  | { type: 'stop' }
+  // Load state and advance exactly one tick
+  | { type: 'step'; state: WorkerSimulationState }
+  // Replace the state after a user edit, keep playing
+  | { type: 'update'; state: WorkerSimulationState };
+
+export type WorkerResponse =
+  | { type: 'snapshot'; version: number; nodes: Node<NodeData>[]; edges: Edge<EdgeData>[]; tick: number; history: ResourceHistoryEntry[]; ended?: SimulationEnd }
+  | { type: 'error'; version: number; message: string }
+  // The state was replaced while the tick ran: no snapshot for this version
+  | { type: 'stale'; version: number };
+
+let engine: Engine | null = null;
+let version = 0;
+let running = false;
+let ticksPerSecond = 1;
+let busy = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+const load = (state: WorkerSimulationState) => {
+  engine = createEngine(state.nodes, state.edges, { startTick: state.tick, settings: state.settings });
+  version = state.version;
+};
+
+// Run scripts, advance one tick and report it
+async function advance(): Promise<void> {
+  const current = engine;
+  if (!current) return;
+  const stepVersion = version;
+
+  const result = await current.stepAsync();
+  // State was replaced while scripts were running: this tick is stale
+  if (current !== engine) {
+    post({ type: 'stale', version: stepVersion });
+    return;
+  }
+
+  // An End Condition was met: stop playing (the client stops too)
+  if (result.ended) running = false;
+
+  post({
+    type: 'snapshot',
+    version: stepVersion,
+    nodes: result.nodes,
+    edges: result.edges,
+    tick: result.tick,
+    history: [buildHistoryEntry(result.nodes, result.tick, current.getSettings())],
+    ended: result.ended,
+  });
+}
+
+async function loop(): Promise<void> {
+  timer = null;
+  if (!running) return;
+
+  busy = true;
+  const tickVersion = version;
+  try {
+    await advance();
+  } catch (err) {
+    running = false;
+    post({ type: 'error', version: tickVersion, message: (err as Error).message });
+    return;
+  } finally {
+    busy = false;
+  }
+
+  if (running) timer = setTimeout(loop, 1000 / ticksPerSecond);
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'start':
+      load(message.state);
+      ticksPerSecond = message.ticksPerSecond;
+      running = true;
+      // If a tick is in progress, its loop schedules the next one
+      if (!busy && timer === null) loop();
+      break;
+
+    case 'stop':
+      running = false;
+      if (timer !== null) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      break;
+
+    case 'update':
+      load(message.state);
+      break;
+
+    case 'step':
+      load(message.state);
+      try {
+        await advance();
+      } catch (err) {
+        post({ type: 'error', version: message.state.version, message: (err as Error).message });
+      }
+      break;
+  }
+};
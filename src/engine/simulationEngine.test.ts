@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { buildHistoryEntry, createEngine, stepSimulation } from './simulationEngine';
+import { createEdge, createNode, run, stock } from './testUtils';
+
+describe('stepSimulation', () => {
+  const nodes = [createNode('source', 'source'), createNode('pool', 'pool')];
+  const edges = [createEdge('e1', 'source', 'pool')];
+
+  it('advances one tick without mutating its input', () => {
+    const before = JSON.stringify(nodes);
+    const result = stepSimulation(nodes, edges, 0);
+    expect(result.tick).toBe(1);
+    expect(result.nodes.find((n) => n.id === 'pool')?.data.resources).toBe(1);
+    expect(JSON.stringify(nodes)).toBe(before);
+  });
+
+  it('records the flows of the tick', () => {
+    const result = stepSimulation(nodes, edges, 0);
+    expect(result.flows).toContainEqual(expect.objectContaining({ edgeId: 'e1', amount: 1 }));
+  });
+});
+
+describe('createEngine', () => {
+  it('keeps the state between steps', () => {
+    const engine = createEngine(
+      [createNode('source', 'source', { productionRate: 2 }), createNode('pool', 'pool')],
+      [createEdge('e1', 'source', 'pool', { flowRate: 2 })]
+    );
+    engine.step();
+    engine.step();
+    expect(engine.getState().tick).toBe(2);
+    expect(engine.getState().nodes.find((n) => n.id === 'pool')?.data.resources).toBe(4);
+  });
+
+  it('starts from the given tick', () => {
+    const engine = createEngine([createNode('pool', 'pool')], [], { startTick: 10 });
+    expect(engine.step().tick).toBe(11);
+  });
+});
+
+describe('basic nodes', () => {
+  it('stops a pool at its capacity', () => {
+    const result = run(
+      [createNode('source', 'source', { productionRate: 5 }), createNode('pool', 'pool', { capacity: 8 })],
+      [createEdge('e1', 'source', 'pool', { flowRate: 5 })],
+      3
+    );
+    expect(result.pool.resources).toBe(8);
+  });
+
+  it('drains up to the connection flow rate', () => {
+    const result = run(
+      [createNode('pool', 'pool', stock({ black: 10 })), createNode('drain', 'drain')],
+      [createEdge('e1', 'pool', 'drain', { flowRate: 3 })],
+      2
+    );
+    expect(result.pool.resources).toBe(4);
+  });
+
+  it('converts inputs at the input/output ratio', () => {
+    const result = run(
+      [
+        createNode('pool', 'pool', stock({ black: 4 })),
+        createNode('converter', 'converter', { inputRatio: 2, outputRatio: 1 }),
+        createNode('output', 'pool'),
+      ],
+      [createEdge('e1', 'pool', 'converter', { flowRate: 4 }), createEdge('e2', 'converter', 'output', { flowRate: 5 })],
+      3
+    );
+    expect(result.pool.resources).toBe(0);
+    expect(result.output.resources).toBe(2);
+  });
+});
+
+describe('buildHistoryEntry', () => {
+  it('records node resources and token totals', () => {
+    const entry = buildHistoryEntry(
+      [createNode('a', 'pool', stock({ black: 2, orange: 1 })), createNode('b', 'pool', stock({ orange: 3 }))],
+      5
+    );
+    expect(entry).toMatchObject({ tick: 5, a: 3, b: 3, 'token:black': 2, 'token:orange': 4 });
+  });
+});
@@ -0,0 +1,2506 @@
+/**
+ * Headless simulation engine.
+ *
+ * Contains the complete tick semantics (source production, edge transfers,
+ * converters, traders, delays, markets, registers, end conditions) as pure functions with no dependency on
+ * React, zustand or the browser. The editor store wraps this module, and the
+ * same functions can be used by scripts, batch runs and tests.
+ *
+ * Usage:
+ *   const engine = createEngine(nodes, edges);
+ *   await engine.runScripts();      // only needed when nodes use script mode
+ *   const { nodes, tick, flows } = engine.step();
+ */
+
+import { Node, Edge } from '@xyflow/react';
+import { NodeData, EdgeData, ConverterRecipe, LootTier, TypedResources, FlowRateMode, ProjectSettings, defaultProjectSettings, nodeDefaults, OVERFLOW_HANDLE, ModifierTarget } from '../types';
+import { evaluateFormula, FormulaNodeValues } from '../utils/formulaEvaluator';
+import { parseFlowNotation, rollFlowNotation } from '../utils/flowNotation';
+import { createRng, deriveSeed } from '../utils/random';
+import { getRegisterValues, isValidRegisterName } from '../utils/registers';
+import { isGateOpen } from '../utils/gateConditions';
+import { Modifier, applyModifiers, getModifierTargets, isStateEdge, parseModifier } from '../utils/modifiers';
+import { canBeTriggered, getEdgeKind, hasMovedResources, isActivatorMet, isResourceEdge } from '../utils/edgeKinds';
+import { getMarketPrice, getMarketPrices, tradeWithMarket } from '../utils/market';
+import { LOOT_TIERS, LootRoll, rollLootTable } from '../utils/loot';
+import { hasTraderRatios, isValidTraderRatio } from '../utils/traderRatios';
+import { getConverterRecipes, getMaxCrafts, getRecipeDuration, getRecipeOrder, getRecipeShortage, getRecipeTokens } from '../utils/recipes';
+import { getSourceProduction, getSourceTokenIds, limitTokens } from '../utils/sourceTokens';
+import { executeBatchScripts, BatchScriptEntry, BatchScriptResult, ScriptExchange, isScriptDebug } from '../utils/scriptRunner';
+import {
+  getTotalResources,
+  addTokenResources,
+  removeTokenResources,
+  getTokenResources
+} from '../utils/migration';
+
+/**
+ * A single transfer of one token type between two nodes during a tick.
+ * `edgeId` is null for transfers that are not tied to a connection.
+ */
+export interface FlowRecord {
+  edgeId: string | null;
+  from: string;
+  to: string;
+  tokenId: string;
+  amount: number;
+}
+
+/**
+ * An End Condition node that was met.
+ */
+export interface SimulationEnd {
+  nodeId: string;
+  tick: number;           // Tick after which the condition was met (= ticks to completion)
+  reason: string;         // e.g. "Sword goal: Wallet gold ≥ 500"
+}
+
+/**
+ * Result of simulating one tick.
+ */
+export interface TickResult {
+  nodes: Node<NodeData>[];
+  edges: Edge<EdgeData>[];  // Same edges, with lastFlowRate updated on formula/script connections
+  tick: number;           // The tick number AFTER this step
+  flows: FlowRecord[];
+  ended?: SimulationEnd;  // Set when an End Condition was met during this tick
+}
+
+// Resource history entry for charts
+// Includes both per-node totals and global token totals
+export interface ResourceHistoryEntry {
+  tick: number;
+  // nodeId -> total, `token:${tokenId}` -> global token total,
+  // `blocked:${poolId}` / `discarded:${poolId}` -> pool overflow counter (cumulative),
+  // `discarded:${gateId}` -> "no output" rolls of a random percentage gate (cumulative),
+  // `consumed:${drainId}` / `unmet:${drainId}` -> demand drain consumption and unmet demand (last tick),
+  // `price:${marketId}` -> market unit price,
+  // `rolls:${lootId}` / `drops-${tier}:${lootId}` -> loot table rolls and entries dropped by tier (cumulative)
+  [key: string]: number;
+}
+
+// Per-node counters recorded in the history
+export type HistoryCounter = 'blocked' | 'discarded' | 'consumed' | 'unmet' | 'price' | 'rolls' | `drops-${LootTier}`;
+
+/**
+ * History key of a node counter, e.g. "discarded:pool-1"
+ */
+export function getCounterKey(counter: HistoryCounter, nodeId: string): string {
+  return `${counter}:${nodeId}`;
+}
+
+/**
+ * Parse a history key written by getCounterKey (null for other keys)
+ */
+export function parseCounterKey(key: string): { counter: HistoryCounter; nodeId: string } | null {
+  const match = /^(blocked|discarded|consumed|unmet|price|rolls|drops-(?:common|uncommon|rare|epic|legendary)):(.+)$/.exec(key);
+  return match ? { counter: match[1] as HistoryCounter, nodeId: match[2] } : null;
+}
+
+/**
+ * Label of a history key: node label, `token:<id>`, or "<node label> <counter>"
+ */
+export function getHistoryKeyLabel(key: string, nodeLabels: Record<string, string>): string {
+  const counter = parseCounterKey(key);
+  if (counter) return `${nodeLabels[counter.nodeId] || counter.nodeId} ${counter.counter}`;
+  return nodeLabels[key] || key;
+}
+
+// Helper to get processing mode (supports legacy useFormula)
+const getMode = (data: NodeData) => data.processingMode || (data.useFormula ? 'formula' : 'fixed');
+
+// Flow rate mode of a connection (formula/script/random without code = fixed)
+const getFlowMode = (data: EdgeData | undefined): FlowRateMode => {
+  if (data?.flowMode === 'formula' && data.flowFormula) return 'formula';
+  if (data?.flowMode === 'script' && data.flowScript) return 'script';
+  if (data?.flowMode === 'random' && data.flowNotation) return 'random';
+  return 'fixed';
+};
+
+// Token filter of a connection (undefined = the connection carries every token type)
+const getTokenFilter = (edge: Edge<EdgeData>): string[] | undefined => {
+  const filter = edge.data?.tokenFilter;
+  return filter && filter.length > 0 ? filter : undefined;
+};
+
+const allowsToken = (filter: string[] | undefined, tokenId: string) => !filter || filter.includes(tokenId);
+
+// Token types a connection can deliver to its target: the connection filter,
+// narrowed to the demanded token types of a demand drain
+const getDeliveryFilter = (edge: Edge<EdgeData>, target: Node<NodeData>): string[] | undefined => {
+  const filter = getTokenFilter(edge);
+  const demanded = target.data.nodeType === 'drain' && target.data.drainMode === 'demand' ? target.data.demandTokens : undefined;
+  if (!demanded || demanded.length === 0) return filter;
+  return filter ? filter.filter((tokenId) => demanded.includes(tokenId)) : demanded;
+};
+
+// Total of the token types a connection can carry
+const getFilteredTotal = (typed: TypedResources, filter: string[] | undefined): number => {
+  if (!filter) return getTotalResources(typed);
+  return Object.entries(typed).reduce((sum, [tokenId, amount]) => (filter.includes(tokenId) ? sum + amount : sum), 0);
+};
+
+/**
+ * Check an End Condition node against the end-of-tick state.
+ * Returns the reason (without the node label) if the condition is met, else null.
+ */
+function checkEndCondition(
+  node: Node<NodeData>,
+  nodeMap: Map<string, Node<NodeData>>,
+  tick: number,
+  registers: Record<string, number>,
+  prices: Record<string, number>,
+  random: () => number
+): string | null {
+  const watched = node.data.endWatchNodeId ? nodeMap.get(node.data.endWatchNodeId) : undefined;
+
+  if (getMode(node.data) === 'formula') {
+    if (!node.data.formula) return null;
+    const result = evaluateFormula(node.data.formula, {
+      resources: watched?.data.resources ?? 0,
+      tick,
+      capacity: watched?.data.capacity ?? -1,
+      tokens: watched?.data.typedResources,
+      random,
+      registers,
+      prices,
+    });
+    return result !== null && result > 0 ? node.data.formula : null;
+  }
+
+  if (!watched) return null;
+  const tokenId = node.data.endWatchToken || '';
+  const value = tokenId ? getTokenResources(watched.data.typedResources, tokenId) : watched.data.resources;
+  const threshold = node.data.endThreshold ?? 0;
+  const atMost = node.data.endComparison === 'at_most';
+  if (atMost ? value > threshold : value < threshold) return null;
+  return `${watched.data.label} ${tokenId || 'resources'} ${atMost ? '≤' : '≥'} ${threshold}`;
+}
+
+/**
+ * Processing order for topological propagation: every node comes after the
+ * nodes that feed it (Kahn's algorithm, ties broken by node order).
+ *
+ * Cycle fallback: when only nodes on a cycle remain, the first of them in
+ * node order is taken as if its incoming cycle edges did not exist. It works
+ * with what it has at that moment, and what flows back to it along the cycle
+ * is used on the next tick. Every node is still processed once per tick.
+ */
+function getPropagationOrder(nodes: Node<NodeData>[], edges: Edge<EdgeData>[]): Node<NodeData>[] {
+  const index = new Map(nodes.map((n, i) => [n.id, i]));
+  const inDegree = nodes.map(() => 0);
+  const targets = nodes.map(() => [] as number[]);
+
+  for (const edge of edges) {
+    const from = index.get(edge.source);
+    const to = index.get(edge.target);
+    if (from === undefined || to === undefined || from === to) continue;
+    targets[from].push(to);
+    inDegree[to]++;
+  }
+
+  const done = nodes.map(() => false);
+  const order: Node<NodeData>[] = [];
+
+  while (order.length < nodes.length) {
+    // First ready node in node order, or the first remaining one (cycle)
+    let next = -1;
+    for (let i = 0; i < nodes.length; i++) {
+      if (done[i]) continue;
+      if (inDegree[i] === 0) {
+        next = i;
+        break;
+      }
+      if (next === -1) next = i;
+    }
+
+    done[next] = true;
+    order.push(nodes[next]);
+    for (const to of targets[next]) inDegree[to]--;
+  }
+
+  return order;
+}
+
+/**
+ * Simulate a single tick.
+ *
+ * Pure function: input nodes are not mutated. Script nodes use the cached
+ * `scriptState.lastOutput`, so run `runNodeScripts()` beforehand to refresh it.
+ * All randomness comes from a generator derived from (settings.seed, tick).
+ */
+export function stepSimulation(
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  currentTick: number,
+  settings: ProjectSettings = defaultProjectSettings
+): TickResult {
+  const rng = createRng(deriveSeed(settings.seed, currentTick));
+
+  if (isScriptDebug()) {
+    for (const n of nodes) {
+      if (n.data.scriptState?.lastOutput !== undefined) {
+        console.log(`[tick] START node ${n.id} lastOutput=`, n.data.scriptState.lastOutput);
+      }
+    }
+  }
+
+  const nodeMap = new Map(nodes.map((n) => [n.id, { ...n, data: { ...n.data, typedResources: { ...n.data.typedResources } } }]));
+  for (const node of nodeMap.values()) {
+    node.data.lastSent = 0;
+    if (node.data.nodeType === 'source') node.data.lastProduced = 0;
+    if (node.data.nodeType === 'pool') node.data.lastReceived = 0;
+    if (node.data.nodeType === 'trader') node.data.lastTrades = 0;
+    if (node.data.nodeType === 'converter') {
+      node.data.lastConverted = 0;
+      delete node.data.lastShortage;
+    }
+    if (node.data.nodeType === 'drain') node.data.lastConsumed = 0;
+    delete node.data.modifiedValues;
+    delete node.data.deactivated;
+    delete node.data.lastTriggered;
+  }
+
+  // Phase 0: evaluate registers, in node order (a register sees the new value of the
+  // registers before it). Everything else in this tick reads the new values by name.
+  const registers = getRegisterValues(nodes);
+  // Market prices readable as prices.<good>, from the start-of-tick reserves
+  const prices = getMarketPrices(nodes, { tick: currentTick, registers, random: rng.next });
+  const evaluatedRegisters = new Set<string>();
+  for (const node of nodeMap.values()) {
+    if (node.data.nodeType !== 'register') continue;
+    const name = node.data.registerName;
+    // Duplicate names: only the first register is readable (see getRegisterValues)
+    const isReadable = isValidRegisterName(name) && !evaluatedRegisters.has(name);
+    if (isValidRegisterName(name)) evaluatedRegisters.add(name);
+    if (!node.data.isActive) continue;
+
+    const mode = getMode(node.data);
+    let value: number | null = null;
+    if (mode === 'formula' && node.data.formula) {
+      value = evaluateFormula(node.data.formula, {
+        resources: node.data.resources,
+        tick: currentTick,
+        capacity: -1,
+        random: rng.next,
+        registers,
+        prices,
+      });
+    } else if (mode === 'script' && node.data.script) {
+      const lastOutput = node.data.scriptState?.lastOutput;
+      if (typeof lastOutput === 'number') value = lastOutput;
+    } else if (mode === 'fixed') {
+      value = node.data.initialValue ?? 0;
+    }
+
+    // Evaluation failed: keep the previous value
+    if (value === null) continue;
+    node.data.resources = value;
+    if (isReadable) registers[name] = value;
+  }
+
+  // Propagation mode (see PropagationMode):
+  // - snapshot (default): transfers are computed from the start-of-tick snapshot and applied at
+  //   the end of the tick (no multi-hop in one tick)
+  // - topological: nodes are processed upstream-first and read their LIVE resources
+  //   (snapshot + received - sent so far), so resources can cross a whole chain in one tick
+  const sameTick = settings.propagationMode === 'topological';
+
+  // Snapshot typed resources at the start of the tick.
+  const baseTypedResources = new Map<string, TypedResources>();
+  for (const node of nodeMap.values()) {
+    baseTypedResources.set(node.id, { ...node.data.typedResources });
+  }
+
+  // Legacy single-value resources for backward compat
+  const baseResources = new Map<string, number>();
+  for (const node of nodeMap.values()) baseResources.set(node.id, node.data.resources);
+
+  // State connections modify a property of their target for this tick, scaled by the
+  // origin's start-of-tick value (see utils/modifiers.ts). Only resource connections
+  // carry resources; modified properties are restored at the end of the tick.
+  const resourceEdges = edges.filter((edge) => isResourceEdge(edge.data));
+  const modifiersByTarget = new Map<string, Map<ModifierTarget, { modifier: Modifier; originValue: number }[]>>();
+  for (const edge of edges) {
+    if (!isStateEdge(edge.data)) continue;
+    const origin = nodeMap.get(edge.source);
+    const target = nodeMap.get(edge.target);
+    if (!origin || !target || !origin.data.isActive) continue;
+    const allowedTargets = getModifierTargets(target.data.nodeType);
+    const property = edge.data?.modifierTarget ?? allowedTargets[0];
+    if (!property || !allowedTargets.includes(property)) continue;
+    let modifier: Modifier;
+    try {
+      modifier = parseModifier(edge.data?.modifier ?? '');
+    } catch {
+      continue;
+    }
+    const targetModifiers = modifiersByTarget.get(target.id) ?? new Map();
+    targetModifiers.set(property, [...(targetModifiers.get(property) ?? []), { modifier, originValue: baseResources.get(origin.id) ?? 0 }]);
+    modifiersByTarget.set(target.id, targetModifiers);
+  }
+
+  // Apply the modifiers before phase 1 (flowRate applies to the target's outgoing
+  // connections, see getFlowRate)
+  const modifiedOriginals = new Map<string, Partial<NodeData>>();
+  for (const [nodeId, targetModifiers] of modifiersByTarget) {
+    const node = nodeMap.get(nodeId)!;
+    const originals: Partial<NodeData> = {};
+    const modifiedValues: Partial<Record<ModifierTarget, number>> = {};
+    for (const [property, modifiers] of targetModifiers) {
+      if (property === 'flowRate') continue;
+      const base = property === 'probability'
+        ? node.data.probability ?? 100
+        : property === 'gateThreshold'
+          ? node.data.gateThreshold ?? 0
+          : node.data[property];
+      // Unlimited capacity stays unlimited
+      if (property === 'capacity' && base === -1) continue;
+      let value = applyModifiers(base, modifiers);
+      if (property === 'probability') value = Math.min(100, Math.max(0, value));
+      else if (property !== 'gateThreshold') value = Math.max(0, value);
+      originals[property] = node.data[property];
+      node.data[property] = value;
+      modifiedValues[property] = value;
+    }
+    modifiedOriginals.set(nodeId, originals);
+    if (Object.keys(modifiedValues).length > 0) node.data.modifiedValues = modifiedValues;
+  }
+
+  // Activators: a node is active this tick only if the condition of every activator
+  // connection holds on its origin's start-of-tick value (isActive is restored at the end)
+  for (const edge of edges) {
+    if (getEdgeKind(edge.data) !== 'activator') continue;
+    const origin = nodeMap.get(edge.source);
+    const target = nodeMap.get(edge.target);
+    if (!origin || !target || !target.data.isActive) continue;
+    const tokenId = edge.data?.activatorTokenId;
+    const value = tokenId
+      ? getTokenResources(baseTypedResources.get(origin.id) ?? {}, tokenId)
+      : baseResources.get(origin.id) ?? 0;
+    if (isActivatorMet(edge.data, value)) continue;
+    const originals = modifiedOriginals.get(target.id) ?? {};
+    originals.isActive = true;
+    modifiedOriginals.set(target.id, originals);
+    target.data.isActive = false;
+    target.data.deactivated = true;
+  }
+
+  // Typed deltas: nodeId -> { tokenId -> amount }
+  const incomingTypedDelta = new Map<string, TypedResources>();
+  const sentTypedAmount = new Map<string, TypedResources>();
+  
+  // Legacy single-value deltas (for backward compat)
+  const incomingDelta = new Map<string, number>();
+  const sentAmount = new Map<string, number>();
+  const converterConsumed = new Map<string, TypedResources>();
+
+  const addTypedIncoming = (nodeId: string, tokenId: string, amount: number) => {
+    if (amount <= 0) return;
+    const current = incomingTypedDelta.get(nodeId) ?? {};
+    incomingTypedDelta.set(nodeId, addTokenResources(current, tokenId, amount));
+    // Legacy
+    incomingDelta.set(nodeId, (incomingDelta.get(nodeId) ?? 0) + amount);
+  };
+
+  const addTypedSent = (nodeId: string, tokenId: string, amount: number) => {
+    if (amount <= 0) return;
+    const current = sentTypedAmount.get(nodeId) ?? {};
+    sentTypedAmount.set(nodeId, addTokenResources(current, tokenId, amount));
+    // Legacy
+    sentAmount.set(nodeId, (sentAmount.get(nodeId) ?? 0) + amount);
+  };
+
+  const getEffectiveTypedResources = (nodeId: string): TypedResources => {
+    const base = baseTypedResources.get(nodeId) ?? {};
+    const incoming = incomingTypedDelta.get(nodeId) ?? {};
+    const result: TypedResources = { ...base };
+    for (const [tokenId, amount] of Object.entries(incoming)) {
+      result[tokenId] = (result[tokenId] ?? 0) + amount;
+    }
+    if (sameTick) {
+      const sent = sentTypedAmount.get(nodeId) ?? {};
+      for (const [tokenId, amount] of Object.entries(sent)) {
+        result[tokenId] = Math.max(0, (result[tokenId] ?? 0) - amount);
+      }
+    }
+    return result;
+  };
+
+  // Resources a node works with when it is processed:
+  // start-of-tick snapshot, or live resources in topological mode
+  const readTypedResources = (nodeId: string): TypedResources => {
+    return sameTick ? getEffectiveTypedResources(nodeId) : { ...(baseTypedResources.get(nodeId) ?? {}) };
+  };
+
+  const getEffectiveTargetResources = (nodeId: string) => {
+    return getTotalResources(getEffectiveTypedResources(nodeId));
+  };
+
+  const getTargetSpace = (target: Node<NodeData>) => {
+    if (target.data.nodeType === 'drain') {
+      // Demand drains take up to consumptionRate per tick
+      if (target.data.drainMode !== 'demand') return Infinity;
+      return Math.max(0, (target.data.consumptionRate ?? 0) - (incomingDelta.get(target.id) ?? 0));
+    }
+    // Discard/overflow pools accept everything; the excess is handled at the end of the tick
+    if (target.data.nodeType === 'pool' && (target.data.overflowPolicy ?? 'block') !== 'block') return Infinity;
+    const cap = target.data.capacity ?? -1;
+    if (cap === -1 || !Number.isFinite(cap)) return Infinity;
+    return Math.max(0, cap - getEffectiveTargetResources(target.id));
+  };
+
+  // Amount held back because a pool was full (block policy), by pool id
+  const blockedAmount = new Map<string, number>();
+  const recordBlocked = (target: Node<NodeData>, amount: number) => {
+    if (target.data.nodeType !== 'pool' || !(amount > 0)) return;
+    blockedAmount.set(target.id, (blockedAmount.get(target.id) ?? 0) + amount);
+  };
+
+  // Amount a random percentage gate discarded on a "no output" roll, by gate id
+  const gateDiscarded = new Map<string, number>();
+
+  // Node values seen by connection formulas
+  const getFormulaNodeValues = (nodeId: string): FormulaNodeValues => {
+    const typed = readTypedResources(nodeId);
+    return { resources: getTotalResources(typed), capacity: nodeMap.get(nodeId)?.data.capacity ?? -1, tokens: typed };
+  };
+
+  // Flow rate of a connection for this tick. Formula rates are evaluated and random
+  // notations rolled once, the first time the connection is used; script rates use
+  // the cached output.
+  const flowRates = new Map<string, number>();
+
+  const getFlowRate = (edge: Edge<EdgeData>): number => {
+    const rate = getBaseFlowRate(edge);
+    const modifiers = modifiersByTarget.get(edge.source)?.get('flowRate');
+    return modifiers ? Math.max(0, applyModifiers(rate, modifiers)) : rate;
+  };
+
+  const getBaseFlowRate = (edge: Edge<EdgeData>): number => {
+    const fixedRate = edge.data?.flowRate ?? 1;
+    const mode = getFlowMode(edge.data);
+    if (mode === 'fixed') return fixedRate;
+
+    const cached = flowRates.get(edge.id);
+    if (cached !== undefined) return cached;
+
+    let rate: number;
+    if (mode === 'formula') {
+      const source = getFormulaNodeValues(edge.source);
+      const result = evaluateFormula(edge.data?.flowFormula ?? '', {
+        resources: source.resources,
+        tick: currentTick,
+        capacity: source.capacity,
+        random: rng.next,
+        source,
+        target: getFormulaNodeValues(edge.target),
+        registers,
+        prices,
+      });
+      rate = result ?? fixedRate;
+    } else if (mode === 'random') {
+      try {
+        rate = rollFlowNotation(parseFlowNotation(edge.data?.flowNotation ?? ''), rng.next);
+      } catch {
+        rate = fixedRate;
+      }
+    } else {
+      const lastOutput = edge.data?.scriptState?.lastOutput;
+      rate = typeof lastOutput === 'number' ? lastOutput : fixedRate;
+    }
+
+    flowRates.set(edge.id, rate);
+    return rate;
+  };
+
+  // Per-tick flow records (one entry per edge/token transfer)
+  const flows: FlowRecord[] = [];
+
+  const recordTypedTransfer = (from: Node<NodeData>, to: Node<NodeData>, tokenId: string, amount: number, edgeId: string | null) => {
+    if (amount <= 0) return;
+    flows.push({ edgeId, from: from.id, to: to.id, tokenId, amount });
+    addTypedSent(from.id, tokenId, amount);
+    from.data.lastSent = (from.data.lastSent ?? 0) + amount;
+
+    addTypedIncoming(to.id, tokenId, amount);
+    if (to.data.nodeType === 'drain') {
+      to.data.lastConsumed = (to.data.lastConsumed ?? 0) + amount;
+    } else if (to.data.nodeType === 'pool') {
+      to.data.lastReceived = (to.data.lastReceived ?? 0) + amount;
+    }
+  };
+
+  const checkProbability = (prob: number): boolean => rng.next() * 100 < prob;
+
+  const getProductionRate = (node: Node<NodeData>): number => {
+    const mode = getMode(node.data);
+
+    if (mode === 'formula' && node.data.formula) {
+      const result = evaluateFormula(node.data.formula, {
+        resources: node.data.resources,
+        tick: currentTick,
+        capacity: node.data.capacity,
+        totalProduced: node.data.totalProduced ?? 0,
+        random: rng.next,
+        registers,
+        prices,
+      });
+      return result ?? node.data.productionRate;
+    }
+
+    if (mode === 'script' && node.data.script) {
+      const lastOutput = node.data.scriptState?.lastOutput;
+      if (isScriptDebug()) console.log(`[tick] Node ${node.id} scriptState:`, JSON.stringify(node.data.scriptState), 'lastOutput:', lastOutput);
+      return typeof lastOutput === 'number' ? lastOutput : node.data.productionRate;
+    }
+
+    return node.data.productionRate;
+  };
+
+  // Phase 1: compute how much each Source produces THIS tick (in total and by token type).
+  const sourceProductionThisTick = new Map<string, number>();
+  const sourceTypedProductionThisTick = new Map<string, TypedResources>();
+
+  for (const node of nodeMap.values()) {
+    if (node.data.nodeType !== 'source' || !node.data.isActive) continue;
+
+    if ((node.data.activationMode ?? 'auto') === 'manual') {
+      sourceProductionThisTick.set(node.id, 0);
+      continue;
+    }
+
+    const maxProd = node.data.maxProduction ?? -1;
+    const totalProduced = node.data.totalProduced ?? 0;
+
+    if (maxProd !== -1 && totalProduced >= maxProd) {
+      sourceProductionThisTick.set(node.id, 0);
+      continue;
+    }
+
+    const prob = node.data.probability ?? 100;
+    if (!checkProbability(prob)) {
+      sourceProductionThisTick.set(node.id, 0);
+      continue;
+    }
+
+    let production = getProductionRate(node);
+    if (!Number.isFinite(production) || production <= 0) {
+      sourceProductionThisTick.set(node.id, 0);
+      continue;
+    }
+
+    if (maxProd !== -1) {
+      const remaining = maxProd - totalProduced;
+      production = Math.min(production, remaining);
+    }
+
+    const produced = getSourceProduction(node.data, production, rng.next);
+    sourceTypedProductionThisTick.set(node.id, produced);
+    sourceProductionThisTick.set(node.id, getTotalResources(produced));
+  }
+
+  // Pull nodes (pools and drains) take from their inputs instead of being pushed to.
+  // Demand drains always pull (their demand, whatever the flow rates).
+  // Only connections from nodes holding a stock (sources, pools, gates) are pulled;
+  // converters, traders and delays still push their output.
+  const isDemandDrain = (node: Node<NodeData>) => node.data.nodeType === 'drain' && node.data.drainMode === 'demand';
+  const isPullNode = (node: Node<NodeData>) =>
+    isDemandDrain(node)
+    || ((node.data.nodeType === 'pool' || node.data.nodeType === 'drain') && (node.data.pullMode ?? 'push') !== 'push');
+  const isPulledEdge = (edge: Edge<EdgeData>) => {
+    const source = nodeMap.get(edge.source);
+    const target = nodeMap.get(edge.target);
+    if (!source || !target || !isPullNode(target)) return false;
+    return source.data.nodeType === 'source' || source.data.nodeType === 'pool' || source.data.nodeType === 'gate';
+  };
+
+  // Group edges by source (pool overflow outputs are only used at the end of the tick,
+  // pulled connections by their target)
+  const edgesBySource = new Map<string, Edge<EdgeData>[]>();
+  const overflowEdgesBySource = new Map<string, Edge<EdgeData>[]>();
+  const pulledEdgesByTarget = new Map<string, Edge<EdgeData>[]>();
+  for (const edge of resourceEdges) {
+    if (edge.sourceHandle === OVERFLOW_HANDLE) {
+      overflowEdgesBySource.set(edge.source, [...(overflowEdgesBySource.get(edge.source) ?? []), edge]);
+      continue;
+    }
+    if (isPulledEdge(edge)) {
+      pulledEdgesByTarget.set(edge.target, [...(pulledEdgesByTarget.get(edge.target) ?? []), edge]);
+      continue;
+    }
+    const sourceEdges = edgesBySource.get(edge.source) || [];
+    sourceEdges.push(edge);
+    edgesBySource.set(edge.source, sourceEdges);
+  }
+
+  // Values read by gate conditions: the gate itself (nodeId undefined) or another node,
+  // total resources or one token type, from the snapshot (or live in topological mode)
+  const readGateValue = (gateId: string) => (nodeId: string | undefined, tokenId: string): number => {
+    const id = nodeId ?? gateId;
+    const node = nodeMap.get(id);
+    if (!node) return 0;
+    if (node.data.nodeType === 'register') return baseResources.get(id) ?? 0;
+    if (tokenId) return getTokenResources(readTypedResources(id), tokenId);
+    return sameTick ? getTotalResources(readTypedResources(id)) : baseResources.get(id) ?? 0;
+  };
+
+  // Phase 2: transfer along edges based on snapshot (or live) resources.
+  // For Source: transfers the token types it produces (tokenType, or its bundle/mix)
+  // For Pool: transfers tokens proportionally (or by type if filtered)
+  const transferAlongEdges = (sourceId: string, outgoingEdges: Edge<EdgeData>[]) => {
+    const source = nodeMap.get(sourceId);
+    if (!source || !source.data.isActive) return;
+
+    // Skip nodes that have their own dedicated processing phase
+    if (source.data.nodeType === 'converter' || source.data.nodeType === 'drain' || source.data.nodeType === 'trader' || source.data.nodeType === 'delay' || source.data.nodeType === 'register' || source.data.nodeType === 'end') return;
+
+    const isSourceNode = source.data.nodeType === 'source';
+
+    const prob = source.data.probability ?? 100;
+    if (!isSourceNode && !checkProbability(prob)) return;
+
+    if (source.data.nodeType === 'gate' && !isGateOpen(source.data, readGateValue(sourceId), registers)) return;
+
+    const sourceTokenIds = isSourceNode ? getSourceTokenIds(source.data) : [];
+    
+    // For Source: determine token types and available amounts
+    // For Pool/Gate: get all typed resources
+    let availableTyped: TypedResources;
+    if (isSourceNode) {
+      const baseTyped = readTypedResources(sourceId);
+      const producedTyped = sourceTypedProductionThisTick.get(sourceId) ?? {};
+      availableTyped = {};
+      for (const tokenId of sourceTokenIds) {
+        availableTyped[tokenId] = getTokenResources(baseTyped, tokenId) + (producedTyped[tokenId] ?? 0);
+      }
+    } else if (source.data.nodeType === 'market' || source.data.nodeType === 'loot') {
+      // Only the proceeds/drops of earlier ticks: arrivals are handled at the end of the tick
+      availableTyped = { ...(baseTypedResources.get(sourceId) ?? {}) };
+    } else {
+      availableTyped = { ...readTypedResources(sourceId) };
+    }
+    
+    let available = getTotalResources(availableTyped);
+    if (available <= 0) return;
+
+    const distributionMode = source.data.distributionMode ?? 'continuous';
+
+    const validEdges: { edgeId: string; target: Node<NodeData>; flowRate: number; targetSpace: number; tokenFilter?: string[] }[] = [];
+    for (const edge of outgoingEdges) {
+      const target = nodeMap.get(edge.target);
+      if (!target) continue;
+
+      const flowRate = getFlowRate(edge);
+      if (!Number.isFinite(flowRate) || flowRate <= 0) continue;
+
+      // A Source only produces its own token types
+      const tokenFilter = getDeliveryFilter(edge, target);
+      if (isSourceNode && !sourceTokenIds.some((tokenId) => allowsToken(tokenFilter, tokenId))) continue;
+
+      const targetSpace = getTargetSpace(target);
+      if (targetSpace > 0) validEdges.push({ edgeId: edge.id, target, flowRate, targetSpace, tokenFilter });
+      else recordBlocked(target, Math.min(flowRate, tokenFilter ? getFilteredTotal(availableTyped, tokenFilter) : available));
+    }
+
+    if (validEdges.length === 0) return;
+
+    // Amount a connection can still carry (all of it unless filtered)
+    const getAvailableFor = (tokenFilter: string[] | undefined) =>
+      tokenFilter ? getFilteredTotal(availableTyped, tokenFilter) : available;
+
+    // Helper to transfer typed resources
+    const transferTyped = (target: Node<NodeData>, totalAmount: number, edgeId: string, tokenFilter: string[] | undefined) => {
+      if (totalAmount <= 0) return;
+      
+      // Round to integer
+      let amountToTransfer = Math.floor(totalAmount);
+      if (amountToTransfer <= 0) return;
+      
+      // For single-token Sources: transfer only the tokenType
+      // (a bundle/mix is shared out like a pool's tokens)
+      if (isSourceNode && sourceTokenIds.length === 1) {
+        const tokenType = sourceTokenIds[0];
+        const avail = availableTyped[tokenType] ?? 0;
+        const toTransfer = Math.min(avail, amountToTransfer);
+        if (toTransfer > 0) {
+          recordTypedTransfer(source, target, tokenType, toTransfer, edgeId);
+          availableTyped[tokenType] = (availableTyped[tokenType] ?? 0) - toTransfer;
+          available -= toTransfer;
+        }
+        return;
+      }
+      
+      // For Pool/Gate: transfer proportionally from available tokens (integers),
+      // only the token types the connection accepts
+      const totalAvail = getFilteredTotal(availableTyped, tokenFilter);
+      if (totalAvail <= 0) return;
+      
+      // Transfer tokens one by one to maintain integer counts
+      let transferred = 0;
+      for (const [tokenId, tokenAmount] of Object.entries(availableTyped)) {
+        if (tokenAmount <= 0 || transferred >= amountToTransfer || !allowsToken(tokenFilter, tokenId)) continue;
+        const proportion = tokenAmount / totalAvail;
+        const toTransfer = Math.min(Math.floor(tokenAmount), Math.floor(amountToTransfer * proportion));
+        if (toTransfer > 0) {
+          recordTypedTransfer(source, target, tokenId, toTransfer, edgeId);
+          availableTyped[tokenId] = (availableTyped[tokenId] ?? 0) - toTransfer;
+          available -= toTransfer;
+          transferred += toTransfer;
+        }
+      }
+      
+      // If we haven't transferred enough due to rounding, transfer remaining from largest token
+      while (transferred < amountToTransfer) {
+        const largestToken = Object.entries(availableTyped)
+          .filter(([tokenId, v]) => v > 0 && allowsToken(tokenFilter, tokenId))
+          .sort((a, b) => b[1] - a[1])[0];
+        if (!largestToken) break;
+        
+        const [tokenId, tokenAmount] = largestToken;
+        const toTransfer = Math.min(1, tokenAmount, amountToTransfer - transferred);
+        if (toTransfer > 0) {
+          recordTypedTransfer(source, target, tokenId, toTransfer, edgeId);
+          availableTyped[tokenId] = (availableTyped[tokenId] ?? 0) - toTransfer;
+          available -= toTransfer;
+          transferred += toTransfer;
+        } else {
+          break;
+        }
+      }
+    };
+
+    const gateDistribution = source.data.nodeType === 'gate' ? source.data.gateDistribution ?? 'flow' : 'flow';
+
+    if (gateDistribution !== 'flow') {
+      // Weighted gate outputs: resources are routed one at a time, each output
+      // still carries at most its flowRate (and what its target can hold) per tick
+      const validById = new Map(validEdges.map((entry) => [entry.edgeId, entry]));
+      const capacityLeft = new Map(validEdges.map((entry) => [entry.edgeId, Math.min(entry.flowRate, entry.targetSpace)]));
+      const outputs = outgoingEdges
+        .map((edge) => ({ edgeId: edge.id, weight: Math.max(0, edge.data?.weight ?? 1) }))
+        .filter((output) => output.weight > 0);
+      const totalWeight = outputs.reduce((sum, output) => sum + output.weight, 0);
+      if (totalWeight <= 0) return;
+
+      const canTake = (edgeId: string) => {
+        const entry = validById.get(edgeId);
+        return !!entry && (capacityLeft.get(edgeId) ?? 0) >= 1 && getAvailableFor(entry.tokenFilter) >= 1;
+      };
+      const sendOne = (edgeId: string) => {
+        const entry = validById.get(edgeId);
+        if (!entry) return;
+        transferTyped(entry.target, 1, edgeId, entry.tokenFilter);
+        capacityLeft.set(edgeId, (capacityLeft.get(edgeId) ?? 0) - 1);
+      };
+
+      if (gateDistribution === 'deterministic') {
+        // Each resource goes to the output furthest behind its share of the weights
+        const counts = { ...(source.data.gateDistributionCounts ?? {}) };
+        let remaining = Math.floor(available);
+        while (remaining > 0) {
+          let best: string | null = null;
+          let bestScore = Infinity;
+          for (const { edgeId, weight } of outputs) {
+            if (!canTake(edgeId)) continue;
+            const score = ((counts[edgeId] ?? 0) + 1) / weight;
+            if (score < bestScore) {
+              best = edgeId;
+              bestScore = score;
+            }
+          }
+          if (best === null) break;
+          sendOne(best);
+          counts[best] = (counts[best] ?? 0) + 1;
+          remaining -= 1;
+        }
+        source.data.gateDistributionCounts = counts;
+      } else {
+        // Percentages below 100% in total leave a chance of "no output": the resource is discarded
+        const rollTotal = gateDistribution === 'random_percent' ? Math.max(100, totalWeight) : totalWeight;
+        const units = Math.floor(available);
+        for (let i = 0; i < units; i++) {
+          let roll = rng.next() * rollTotal;
+          const picked = outputs.find((output) => (roll -= output.weight) < 0);
+          if (!picked) {
+            const largestToken = Object.entries(availableTyped)
+              .filter(([, amount]) => amount >= 1)
+              .sort((a, b) => b[1] - a[1])[0];
+            if (!largestToken) break;
+            addTypedSent(sourceId, largestToken[0], 1);
+            availableTyped[largestToken[0]] -= 1;
+            available -= 1;
+            gateDiscarded.set(sourceId, (gateDiscarded.get(sourceId) ?? 0) + 1);
+            continue;
+          }
+          // Output full or used up this tick: the resource waits in the gate
+          if (canTake(picked.edgeId)) sendOne(picked.edgeId);
+        }
+      }
+    } else if (distributionMode === 'continuous') {
+      // Continuous mode: fill each connection up to its flowRate, in order
+      // First connection gets up to flowRate, then second, etc.
+      // This respects flowRate as a "max capacity per tick" for each connection
+      for (const { edgeId, target, flowRate, tokenFilter } of validEdges) {
+        if (available <= 0) break;
+        const wantedFlow = Math.min(flowRate, getAvailableFor(tokenFilter));
+        const actualFlow = Math.min(wantedFlow, getTargetSpace(target));
+        recordBlocked(target, wantedFlow - actualFlow);
+        if (actualFlow > 0) {
+          transferTyped(target, actualFlow, edgeId, tokenFilter);
+        }
+      }
+    } else {
+      let lastIndex = source.data.lastDistributionIndex ?? 0;
+      let remaining = Math.floor(available);
+
+      while (remaining > 0 && validEdges.length > 0) {
+        let found = false;
+
+        for (let i = 0; i < validEdges.length; i++) {
+          const idx = (lastIndex + i) % validEdges.length;
+          const { edgeId, target, flowRate, targetSpace, tokenFilter } = validEdges[idx];
+
+          const canSend = Math.min(1, flowRate, targetSpace, remaining, getAvailableFor(tokenFilter));
+          if (canSend >= 1) {
+            transferTyped(target, 1, edgeId, tokenFilter);
+            remaining -= 1;
+
+            lastIndex = (idx + 1) % validEdges.length;
+            found = true;
+
+            validEdges[idx].targetSpace -= 1;
+            if (validEdges[idx].targetSpace <= 0) {
+              validEdges.splice(idx, 1);
+              if (lastIndex > idx) lastIndex--;
+              if (lastIndex >= validEdges.length) lastIndex = 0;
+            }
+
+            break;
+          }
+        }
+
+        if (!found) break;
+      }
+
+      source.data.lastDistributionIndex = lastIndex;
+    }
+  };
+
+  // What a pull node can still take from an input this tick: the input's resources
+  // (plus production for sources) minus what it already sent
+  const getPullableTyped = (source: Node<NodeData>): TypedResources => {
+    if (source.data.nodeType === 'source') {
+      const producedTyped = sourceTypedProductionThisTick.get(source.id) ?? {};
+      const result: TypedResources = {};
+      for (const tokenId of getSourceTokenIds(source.data)) {
+        const stock = getTokenResources(baseTypedResources.get(source.id) ?? {}, tokenId)
+          + (producedTyped[tokenId] ?? 0)
+          - getTokenResources(sentTypedAmount.get(source.id) ?? {}, tokenId);
+        result[tokenId] = Math.max(0, stock);
+      }
+      return result;
+    }
+    if (sameTick) return getEffectiveTypedResources(source.id);
+    const result: TypedResources = { ...(baseTypedResources.get(source.id) ?? {}) };
+    for (const [tokenId, amount] of Object.entries(sentTypedAmount.get(source.id) ?? {})) {
+      result[tokenId] = Math.max(0, (result[tokenId] ?? 0) - amount);
+    }
+    return result;
+  };
+
+  // Pull phase: a pull node takes up to each input connection's flow rate (whole units).
+  // pull_all takes nothing unless every input can deliver its full flow rate and it all fits.
+  // A demand drain takes its demand (less what already arrived this tick) from its inputs in
+  // turn, one unit at a time, whatever the flow rates; pull_all takes nothing unless the
+  // inputs hold the whole demand.
+  const pullInputs = (node: Node<NodeData>) => {
+    const inputEdges = pulledEdgesByTarget.get(node.id);
+    if (!inputEdges || !node.data.isActive) return;
+    const isDemand = isDemandDrain(node);
+
+    const pulls: { edgeId: string; source: Node<NodeData>; wanted: number; amount: number; pullable: TypedResources; tokenFilter?: string[] }[] = [];
+    for (const edge of inputEdges) {
+      const source = nodeMap.get(edge.source);
+      if (!source) continue;
+      const flowRate = getFlowRate(edge);
+      const wanted = isDemand ? Infinity : Number.isFinite(flowRate) ? Math.floor(flowRate) : 0;
+      if (wanted <= 0) continue;
+
+      const tokenFilter = getDeliveryFilter(edge, node);
+      const isOpen = source.data.isActive
+        && (source.data.nodeType !== 'gate' || isGateOpen(source.data, readGateValue(source.id), registers));
+      const pullable = isOpen ? getPullableTyped(source) : {};
+      const amount = Math.min(wanted, Math.floor(getFilteredTotal(pullable, tokenFilter)));
+      pulls.push({ edgeId: edge.id, source, wanted, amount, pullable, tokenFilter });
+    }
+
+    // One unit from the input's largest stock the connection accepts
+    const pullUnit = ({ edgeId, source, pullable, tokenFilter }: typeof pulls[number]): boolean => {
+      const largestToken = Object.entries(pullable)
+        .filter(([tokenId, stock]) => stock >= 1 && allowsToken(tokenFilter, tokenId))
+        .sort((a, b) => b[1] - a[1])[0];
+      if (!largestToken) return false;
+      recordTypedTransfer(source, node, largestToken[0], 1, edgeId);
+      pullable[largestToken[0]] -= 1;
+      return true;
+    };
+
+    let space = getTargetSpace(node);
+    if (isDemand) {
+      let demand = Math.floor(space);
+      const available = pulls.reduce((sum, pull) => sum + pull.amount, 0);
+      if (node.data.pullMode === 'pull_all' && available < demand) return;
+      // Round robin over the inputs that still have something
+      let active = pulls.filter((pull) => pull.amount > 0);
+      while (demand > 0 && active.length > 0) {
+        const stillActive: typeof pulls = [];
+        for (const pull of active) {
+          if (demand <= 0) break;
+          if (!pullUnit(pull)) continue;
+          demand -= 1;
+          stillActive.push(pull);
+        }
+        active = stillActive;
+      }
+      return;
+    }
+    if (node.data.pullMode === 'pull_all') {
+      const totalWanted = pulls.reduce((sum, pull) => sum + pull.wanted, 0);
+      if (pulls.some((pull) => pull.amount < pull.wanted) || totalWanted > space) {
+        recordBlocked(node, totalWanted > space ? totalWanted - space : 0);
+        return;
+      }
+    }
+
+    for (const pull of pulls) {
+      let toPull = Math.min(pull.amount, Math.floor(space));
+      recordBlocked(node, pull.amount - toPull);
+      space -= toPull;
+      while (toPull > 0 && pullUnit(pull)) toPull -= 1;
+    }
+  };
+
+  // Phase 3: converters transform input (snapshot or live) into output and distribute the produced output.
+  // Supports both legacy single-ratio mode and multi-token recipes (several recipes, crafting time, catalysts).
+
+  // Send a converter's output along its connections (continuous or round robin);
+  // returns the amount sent and what didn't fit
+  const sendConverterOutput = (node: Node<NodeData>, outputTokens: TypedResources): { sent: number; remaining: TypedResources } => {
+    const outputEdges = edgesBySource.get(node.id) ?? [];
+    const distributionMode = node.data.distributionMode ?? 'continuous';
+    let outputAvailable = { ...outputTokens };
+    let actualOutputUsed = 0;
+    if (outputEdges.length === 0) return { sent: 0, remaining: outputAvailable };
+
+    const validEdges: { edgeId: string; target: Node<NodeData>; flowRate: number; targetSpace: number; tokenFilter?: string[] }[] = [];
+    for (const edge of outputEdges) {
+      const target = nodeMap.get(edge.target);
+      if (!target) continue;
+
+      const flowRate = getFlowRate(edge);
+      if (!Number.isFinite(flowRate) || flowRate <= 0) continue;
+
+      const targetSpace = getTargetSpace(target);
+      const tokenFilter = getDeliveryFilter(edge, target);
+      if (targetSpace > 0) validEdges.push({ edgeId: edge.id, target, flowRate, targetSpace, tokenFilter });
+      else recordBlocked(target, Math.min(flowRate, getFilteredTotal(outputAvailable, tokenFilter)));
+    }
+
+    if (validEdges.length === 0) return { sent: 0, remaining: outputAvailable };
+
+    // Helper to transfer typed outputs (only the token types the connection accepts)
+    const transferConverterOutput = (target: Node<NodeData>, totalAmount: number, edgeId: string, tokenFilter: string[] | undefined) => {
+      if (totalAmount <= 0) return;
+      
+      const totalAvail = getFilteredTotal(outputAvailable, tokenFilter);
+      if (totalAvail <= 0) return;
+      
+      for (const [tokenId, tokenAmount] of Object.entries(outputAvailable)) {
+        if (tokenAmount <= 0 || !allowsToken(tokenFilter, tokenId)) continue;
+        const proportion = tokenAmount / totalAvail;
+        const toTransfer = Math.min(tokenAmount, totalAmount * proportion);
+        if (toTransfer > 0) {
+          recordTypedTransfer(node, target, tokenId, toTransfer, edgeId);
+          outputAvailable[tokenId] = (outputAvailable[tokenId] ?? 0) - toTransfer;
+          actualOutputUsed += toTransfer;
+        }
+      }
+    };
+
+    if (distributionMode === 'continuous') {
+      const totalFlowRates = validEdges.reduce((sum, e) => sum + e.flowRate, 0);
+      const totalAvailableOutput = getTotalResources(outputAvailable);
+
+      for (const { edgeId, target, flowRate, tokenFilter } of validEdges) {
+        const proportion = flowRate / totalFlowRates;
+        const allocated = totalAvailableOutput * proportion;
+        const wantedFlow = Math.min(allocated, flowRate, getFilteredTotal(outputAvailable, tokenFilter));
+        const actualFlow = Math.min(wantedFlow, getTargetSpace(target));
+        recordBlocked(target, wantedFlow - actualFlow);
+        if (actualFlow > 0) {
+          transferConverterOutput(target, actualFlow, edgeId, tokenFilter);
+        }
+      }
+    } else {
+      let lastIndex = node.data.lastDistributionIndex ?? 0;
+      let remaining = Math.floor(getTotalResources(outputAvailable));
+
+      while (remaining > 0 && validEdges.length > 0) {
+        let found = false;
+
+        for (let i = 0; i < validEdges.length; i++) {
+          const idx = (lastIndex + i) % validEdges.length;
+          const { edgeId, target, flowRate, targetSpace, tokenFilter } = validEdges[idx];
+
+          const canSend = Math.min(1, flowRate, targetSpace, remaining, getFilteredTotal(outputAvailable, tokenFilter));
+          if (canSend >= 1) {
+            transferConverterOutput(target, 1, edgeId, tokenFilter);
+            remaining -= 1;
+
+            lastIndex = (idx + 1) % validEdges.length;
+            found = true;
+
+            validEdges[idx].targetSpace -= 1;
+            if (validEdges[idx].targetSpace <= 0) {
+              validEdges.splice(idx, 1);
+              if (lastIndex > idx) lastIndex--;
+              if (lastIndex >= validEdges.length) lastIndex = 0;
+            }
+
+            break;
+          }
+        }
+
+        if (!found) break;
+      }
+
+      node.data.lastDistributionIndex = lastIndex;
+    }
+
+    return { sent: actualOutputUsed, remaining: outputAvailable };
+  };
+
+  // Recipe converters: one recipe at a time, picked by the selection rule (see utils/recipes.ts)
+  const processRecipes = (node: Node<NodeData>, recipes: ConverterRecipe[]) => {
+    // Crafting: one more tick of work, then the finished outputs wait for room
+    const crafting = node.data.craftingRecipe !== undefined ? recipes[node.data.craftingRecipe] : undefined;
+    if (crafting) {
+      if (!node.data.craftingOutput) {
+        node.data.craftingProgress = (node.data.craftingProgress ?? 0) + 1;
+        if (node.data.craftingProgress < getRecipeDuration(crafting)) return;
+        node.data.craftingOutput = getRecipeTokens(crafting.outputs);
+      }
+      const { sent, remaining } = sendConverterOutput(node, node.data.craftingOutput);
+      node.data.lastConverted = sent;
+      const waiting = Object.fromEntries(Object.entries(remaining).filter(([, amount]) => amount > 1e-9));
+      if (Object.keys(waiting).length > 0) {
+        node.data.craftingOutput = waiting;
+        return;
+      }
+    }
+    if (node.data.craftingRecipe !== undefined) {
+      // Done (or the recipe was removed): the next recipe starts next tick
+      delete node.data.craftingRecipe;
+      delete node.data.craftingProgress;
+      delete node.data.craftingOutput;
+      if (crafting) return;
+    }
+
+    const inputTyped = readTypedResources(node.id);
+    const order = getRecipeOrder(node.data, recipes.length, rng.next);
+    const index = order.find((i) => getMaxCrafts(recipes[i], inputTyped) > 0);
+    if (index === undefined) {
+      node.data.lastShortage = getRecipeShortage(recipes[order[0]], inputTyped);
+      return;
+    }
+    const recipe = recipes[index];
+    node.data.lastRecipe = index;
+
+    if (getRecipeDuration(recipe) > 1) {
+      // Start crafting: the inputs are consumed now, the outputs come on the last tick
+      converterConsumed.set(node.id, getRecipeTokens(recipe.inputs));
+      node.data.craftingRecipe = index;
+      node.data.craftingProgress = 1;
+      return;
+    }
+
+    // 1-tick recipe: convert as often as the inputs allow, consume in proportion to the output sent
+    const crafts = getMaxCrafts(recipe, inputTyped);
+    const outputTokens = getRecipeTokens(recipe.outputs, crafts);
+    const { sent } = sendConverterOutput(node, outputTokens);
+    node.data.lastConverted = sent;
+    const totalOutput = getTotalResources(outputTokens);
+    const outputRatioUsed = totalOutput > 0 ? sent / totalOutput : 0;
+    const consumed: TypedResources = {};
+    for (const [tokenId, amount] of Object.entries(getRecipeTokens(recipe.inputs, crafts))) {
+      consumed[tokenId] = Math.floor(amount * outputRatioUsed);
+    }
+    converterConsumed.set(node.id, consumed);
+  };
+
+  const processConverter = (node: Node<NodeData>) => {
+    if (node.data.nodeType !== 'converter' || !node.data.isActive) return;
+
+    const recipes = getConverterRecipes(node.data);
+    if (recipes.length > 0) {
+      processRecipes(node, recipes);
+      return;
+    }
+
+    const inputTyped = readTypedResources(node.id);
+    const inputResources = getTotalResources(inputTyped);
+    if (inputResources <= 0) return;
+
+    const mode = getMode(node.data);
+
+    // Output tokens and amounts to produce
+    let outputTokens: TypedResources = {};
+    let consumedTokens: TypedResources = {};
+    let totalOutputAmount = 0;
+
+    if (mode === 'formula' && node.data.formula) {
+      // Formula mode - legacy single-token behavior
+      const result = evaluateFormula(node.data.formula, {
+        resources: inputResources,
+        tick: currentTick,
+        capacity: node.data.capacity,
+        input: inputResources,
+        random: rng.next,
+        registers,
+        prices,
+      });
+
+      if (result === null || result <= 0) return;
+      
+      // Transfer all input types proportionally to output as 'black' token
+      outputTokens = { black: result };
+      totalOutputAmount = result;
+      consumedTokens = { ...inputTyped }; // Consume all
+    } else if (mode === 'script' && node.data.script && node.data.scriptState?.lastExchange) {
+      // Script mode - typed { consume, produce } result, applied like one recipe conversion
+      // if the converter holds every consumed token
+      const exchange = node.data.scriptState.lastExchange as ScriptExchange;
+      const shortage: TypedResources = {};
+      for (const [tokenId, amount] of Object.entries(exchange.consume)) {
+        const missing = amount - getTokenResources(inputTyped, tokenId);
+        if (missing > 0) shortage[tokenId] = missing;
+      }
+      if (Object.keys(shortage).length > 0) {
+        node.data.lastShortage = shortage;
+        return;
+      }
+
+      consumedTokens = { ...exchange.consume };
+      outputTokens = { ...exchange.produce };
+      totalOutputAmount = getTotalResources(outputTokens);
+      if (totalOutputAmount <= 0) return;
+    } else if (mode === 'script' && node.data.script) {
+      // Script mode (number result) - legacy single-token behavior
+      const cachedOutput = node.data.scriptState?.lastOutput;
+      if (typeof cachedOutput !== 'number' || cachedOutput <= 0) return;
+      
+      outputTokens = { black: cachedOutput };
+      totalOutputAmount = cachedOutput;
+      consumedTokens = { ...inputTyped }; // Consume all
+    } else {
+      // Legacy fixed ratio mode - uses dominant token type
+      const inputRatio = node.data.inputRatio ?? 2;
+      const outputRatio = node.data.outputRatio ?? 1;
+      const conversions = Math.floor(inputResources / inputRatio);
+      if (conversions <= 0) return;
+      
+      const outputAmount = conversions * outputRatio;
+      const inputConsumed = conversions * inputRatio;
+      
+      // Output as dominant token type (or black)
+      const dominantToken = Object.entries(inputTyped)
+        .sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'black';
+      
+      outputTokens = { [dominantToken]: outputAmount };
+      totalOutputAmount = outputAmount;
+      
+      // Consume proportionally from all input tokens
+      const consumeRatio = inputConsumed / inputResources;
+      for (const [tokenId, amount] of Object.entries(inputTyped)) {
+        consumedTokens[tokenId] = Math.floor(amount * consumeRatio);
+      }
+    }
+
+    const actualOutputUsed = sendConverterOutput(node, outputTokens).sent;
+    node.data.lastConverted = actualOutputUsed;
+
+    // Store consumed tokens for end-of-tick processing
+    // Scale consumed tokens by actual output ratio
+    const outputRatioUsed = totalOutputAmount > 0 ? actualOutputUsed / totalOutputAmount : 0;
+    const scaledConsumed: TypedResources = {};
+    for (const [tokenId, amount] of Object.entries(consumedTokens)) {
+      scaledConsumed[tokenId] = Math.floor(amount * outputRatioUsed);
+    }
+    converterConsumed.set(node.id, scaledConsumed);
+  };
+
+  // Phase 4: Traders exchange resources between two inputs and two outputs
+  // Input A (top) → Output B (bottom) - cross exchange
+  // Input B (bottom) → Output A (top) - cross exchange
+  const traderConsumedA = new Map<string, TypedResources>();
+  const traderConsumedB = new Map<string, TypedResources>();
+
+  // Ratio traders buffer what arrives on each input. Arrivals are read from the flow
+  // records: up to the trade in topological mode, the rest at the end of the tick.
+  const traderFlowIndex = new Map<string, number>();
+  const resourceEdgesById = new Map(resourceEdges.map((edge) => [edge.id, edge]));
+
+  const collectTraderArrivals = (node: Node<NodeData>, fromIndex: number, toIndex: number) => {
+    const ratios = (node.data.traderRatios ?? []).filter(isValidTraderRatio);
+    const a: TypedResources = { ...(node.data.traderTypedA ?? {}) };
+    const b: TypedResources = { ...(node.data.traderTypedB ?? {}) };
+    for (let i = fromIndex; i < toIndex; i++) {
+      const flow = flows[i];
+      if (flow.to !== node.id || !flow.edgeId) continue;
+      const handle = resourceEdgesById.get(flow.edgeId)?.targetHandle;
+      // Token types no ratio asks for on that side are not kept
+      if (handle === 'input-a' && ratios.some((ratio) => ratio.tokenA === flow.tokenId)) {
+        a[flow.tokenId] = (a[flow.tokenId] ?? 0) + flow.amount;
+      } else if (handle === 'input-b' && ratios.some((ratio) => ratio.tokenB === flow.tokenId)) {
+        b[flow.tokenId] = (b[flow.tokenId] ?? 0) + flow.amount;
+      }
+    }
+    node.data.traderTypedA = a;
+    node.data.traderTypedB = b;
+    node.data.traderInputA = getTotalResources(a);
+    node.data.traderInputB = getTotalResources(b);
+  };
+
+  // Trade full units by the ratios, in order, while both sides have them and the
+  // opposite outputs have room: tokenA from input A leaves through output B, tokenB
+  // from input B through output A. Leftovers wait in the buffers.
+  const tradeByRatios = (node: Node<NodeData>) => {
+    if (sameTick) {
+      collectTraderArrivals(node, 0, flows.length);
+      traderFlowIndex.set(node.id, flows.length);
+    }
+    const bufferA: TypedResources = { ...(node.data.traderTypedA ?? {}) };
+    const bufferB: TypedResources = { ...(node.data.traderTypedB ?? {}) };
+
+    const outgoingEdges = edgesBySource.get(node.id) ?? [];
+    const used = new Map<string, number>();        // Sent per connection
+    const pending = new Map<string, number>();     // Sent per target
+    const sends: { edge: Edge<EdgeData>; target: Node<NodeData>; tokenId: string; amount: number }[] = [];
+
+    const getRoom = (edge: Edge<EdgeData>, target: Node<NodeData>) => {
+      const flowRate = getFlowRate(edge);
+      const rate = Number.isFinite(flowRate) ? Math.floor(flowRate) : 0;
+      const space = getTargetSpace(target) - (pending.get(target.id) ?? 0);
+      return Math.max(0, Math.min(rate - (used.get(edge.id) ?? 0), space));
+    };
+
+    const book = (part: (typeof sends)[number], sign: 1 | -1) => {
+      used.set(part.edge.id, (used.get(part.edge.id) ?? 0) + sign * part.amount);
+      pending.set(part.target.id, (pending.get(part.target.id) ?? 0) + sign * part.amount);
+    };
+
+    // Place amount of tokenId on the outputs of a handle (all or nothing)
+    const allocate = (handle: string, tokenId: string, amount: number): typeof sends | null => {
+      const plan: typeof sends = [];
+      let left = amount;
+      for (const edge of outgoingEdges) {
+        if (left <= 0) break;
+        const target = nodeMap.get(edge.target);
+        if (edge.sourceHandle !== handle || !target || !allowsToken(getDeliveryFilter(edge, target), tokenId)) continue;
+        const part = Math.min(left, getRoom(edge, target));
+        if (part <= 0) continue;
+        plan.push({ edge, target, tokenId, amount: part });
+        left -= part;
+      }
+      if (left > 0) return null;
+      for (const part of plan) book(part, 1);
+      return plan;
+    };
+
+    let trades = 0;
+    for (const ratio of node.data.traderRatios ?? []) {
+      if (!isValidTraderRatio(ratio)) continue;
+      while ((bufferA[ratio.tokenA] ?? 0) >= ratio.amountA && (bufferB[ratio.tokenB] ?? 0) >= ratio.amountB) {
+        const toB = allocate('output-b', ratio.tokenA, ratio.amountA);
+        const toA = toB && allocate('output-a', ratio.tokenB, ratio.amountB);
+        if (!toB || !toA) {
+          // No room for one side: release the other and stop trading this pair
+          for (const part of toB ?? []) book(part, -1);
+          break;
+        }
+        sends.push(...toB, ...toA);
+        bufferA[ratio.tokenA] -= ratio.amountA;
+        bufferB[ratio.tokenB] -= ratio.amountB;
+        trades += 1;
+      }
+    }
+
+    for (const { edge, target, tokenId, amount } of sends) {
+      recordTypedTransfer(node, target, tokenId, amount, edge.id);
+    }
+    for (const buffer of [bufferA, bufferB]) {
+      for (const tokenId of Object.keys(buffer)) {
+        if (buffer[tokenId] <= 0) delete buffer[tokenId];
+      }
+    }
+    node.data.traderTypedA = bufferA;
+    node.data.traderTypedB = bufferB;
+    node.data.traderInputA = getTotalResources(bufferA);
+    node.data.traderInputB = getTotalResources(bufferB);
+    node.data.lastTrades = trades;
+  };
+  
+  const processTrader = (node: Node<NodeData>) => {
+    if (node.data.nodeType !== 'trader' || !node.data.isActive) return;
+
+    const prob = node.data.probability ?? 100;
+    if (!checkProbability(prob)) return;
+
+    if (hasTraderRatios(node.data)) {
+      tradeByRatios(node);
+      return;
+    }
+
+    // Find incoming edges by target handle
+    const incomingEdges = resourceEdges.filter(e => e.target === node.id);
+    const edgesToInputA = incomingEdges.filter(e => e.targetHandle === 'input-a');
+    const edgesToInputB = incomingEdges.filter(e => e.targetHandle === 'input-b');
+    
+    // Find outgoing edges by source handle
+    const outgoingEdges = edgesBySource.get(node.id) ?? [];
+    const edgesFromOutputA = outgoingEdges.filter(e => e.sourceHandle === 'output-a');
+    const edgesFromOutputB = outgoingEdges.filter(e => e.sourceHandle === 'output-b');
+    
+    // Calculate incoming resources from each input
+    // (These come from snapshot, but we need to track what was sent TO the trader)
+    let inputATyped: TypedResources = {};
+    let inputBTyped: TypedResources = {};
+    
+    // Check what's being sent to this trader from other nodes
+    for (const edge of edgesToInputA) {
+      const sourceNode = nodeMap.get(edge.source);
+      if (!sourceNode || !sourceNode.data.isActive) continue;
+      
+      const flowRate = getFlowRate(edge);
+      const tokenFilter = getTokenFilter(edge);
+      const sourceTyped = readTypedResources(edge.source);
+      
+      // Get available from source
+      for (const [tokenId, amount] of Object.entries(sourceTyped)) {
+        if (!allowsToken(tokenFilter, tokenId)) continue;
+        const toSend = Math.min(amount, flowRate);
+        if (toSend > 0) {
+          inputATyped[tokenId] = (inputATyped[tokenId] ?? 0) + toSend;
+        }
+      }
+    }
+    
+    for (const edge of edgesToInputB) {
+      const sourceNode = nodeMap.get(edge.source);
+      if (!sourceNode || !sourceNode.data.isActive) continue;
+      
+      const flowRate = getFlowRate(edge);
+      const tokenFilter = getTokenFilter(edge);
+      const sourceTyped = readTypedResources(edge.source);
+      
+      for (const [tokenId, amount] of Object.entries(sourceTyped)) {
+        if (!allowsToken(tokenFilter, tokenId)) continue;
+        const toSend = Math.min(amount, flowRate);
+        if (toSend > 0) {
+          inputBTyped[tokenId] = (inputBTyped[tokenId] ?? 0) + toSend;
+        }
+      }
+    }
+    
+    // Cross exchange: Input A → Output B, Input B → Output A
+    // Output A sends what came from Input B
+    // Output B sends what came from Input A
+    
+    // Helper to send to targets
+    const sendToTargets = (edgesList: Edge<EdgeData>[], available: TypedResources) => {
+      let totalSent = 0;
+      const consumed: TypedResources = {};
+      
+      for (const edge of edgesList) {
+        const target = nodeMap.get(edge.target);
+        if (!target) continue;
+        
+        const flowRate = getFlowRate(edge);
+        const targetSpace = getTargetSpace(target);
+        if (getTotalResources(available) <= 0) break;
+        
+        const tokenFilter = getDeliveryFilter(edge, target);
+        const totalAvail = getFilteredTotal(available, tokenFilter);
+        recordBlocked(target, Math.min(flowRate, totalAvail) - Math.max(0, targetSpace));
+        if (targetSpace <= 0) continue;
+        
+        const toSend = Math.min(flowRate, targetSpace, totalAvail);
+        if (toSend <= 0) continue;
+        
+        // Send proportionally from available (token types the connection accepts)
+        for (const [tokenId, amount] of Object.entries(available)) {
+          if (amount <= 0 || !allowsToken(tokenFilter, tokenId)) continue;
+          const proportion = amount / totalAvail;
+          const tokenSend = Math.floor(toSend * proportion);
+          if (tokenSend > 0) {
+            recordTypedTransfer(node, target, tokenId, tokenSend, edge.id);
+            available[tokenId] = (available[tokenId] ?? 0) - tokenSend;
+            consumed[tokenId] = (consumed[tokenId] ?? 0) + tokenSend;
+            totalSent += tokenSend;
+          }
+        }
+      }
+      
+      return { totalSent, consumed };
+    };
+    
+    // Output A gets Input B's resources (cross)
+    const outputAResult = sendToTargets(edgesFromOutputA, { ...inputBTyped });
+    // Output B gets Input A's resources (cross)  
+    const outputBResult = sendToTargets(edgesFromOutputB, { ...inputATyped });
+    
+    // Track what was consumed (for removing from sources)
+    // Input A resources went to Output B
+    traderConsumedA.set(node.id, outputBResult.consumed);
+    // Input B resources went to Output A
+    traderConsumedB.set(node.id, outputAResult.consumed);
+    
+    node.data.lastSent = outputAResult.totalSent + outputBResult.totalSent;
+    
+    // Update trader's internal buffers for display
+    node.data.traderInputA = getTotalResources(inputATyped) - getTotalResources(outputBResult.consumed);
+    node.data.traderInputB = getTotalResources(inputBTyped) - getTotalResources(outputAResult.consumed);
+  };
+
+  // Phase 5: Delays - hold resources for a number of ticks before releasing
+  // Two modes: 
+  // - 'delay': All resources are processed in parallel (each delayed independently)
+  // - 'queue': Only one resource processed at a time (others wait in queue)
+  // Supports formula/script for dynamic delay calculation
+  const delayConsumed = new Map<string, TypedResources>();
+  
+  const processDelay = (node: Node<NodeData>) => {
+    if (node.data.nodeType !== 'delay' || !node.data.isActive) return;
+
+    const prob = node.data.probability ?? 100;
+    if (!checkProbability(prob)) return;
+
+    const delayMode = node.data.delayMode ?? 'delay';
+    let delayQueue = [...(node.data.delayQueue ?? [])];
+    
+    // Calculate delay ticks - can be fixed, formula, or script
+    const mode = node.data.processingMode || 'fixed';
+    let delayTicks: number;
+    
+    if (mode === 'formula' && node.data.formula) {
+      // Formula mode: evaluate formula for delay
+      // Available variables: tick, queueSize, resources
+      const queueSize = delayQueue.reduce((sum, item) => sum + item.amount, 0);
+      const result = evaluateFormula(node.data.formula, {
+        tick: currentTick,
+        queueSize,
+        resources: node.data.resources,
+        capacity: node.data.capacity,
+        random: rng.next,
+        registers,
+        prices,
+      });
+      delayTicks = Math.max(1, Math.round(result ?? node.data.delayTicks ?? 3));
+    } else if (mode === 'script' && node.data.script) {
+      // Script mode: use last output from script execution
+      const lastOutput = node.data.scriptState?.lastOutput;
+      delayTicks = Math.max(1, Math.round(typeof lastOutput === 'number' ? lastOutput : node.data.delayTicks ?? 3));
+    } else {
+      // Fixed mode
+      delayTicks = node.data.delayTicks ?? 3;
+    }
+    
+    // Store calculated delay for display
+    node.data.calculatedDelay = delayTicks;
+    
+    // Find incoming and outgoing edges
+    const incomingEdges = resourceEdges.filter(e => e.target === node.id);
+    const outgoingEdges = edgesBySource.get(node.id) ?? [];
+    
+    // Step 1: Decrement ticksRemaining for all items in queue
+    delayQueue = delayQueue.map(item => ({
+      ...item,
+      ticksRemaining: item.ticksRemaining - 1
+    }));
+    
+    // Step 2: Release resources that have completed their delay (ticksRemaining <= 0)
+    let totalOutput = 0;
+    const readyToRelease = delayQueue.filter(item => item.ticksRemaining <= 0);
+    delayQueue = delayQueue.filter(item => item.ticksRemaining > 0);
+    
+    // Send released resources to targets
+    for (const releasedItem of readyToRelease) {
+      let remaining = releasedItem.amount;
+      const tokenType = releasedItem.tokenType ?? 'black';
+      
+      for (const edge of outgoingEdges) {
+        if (remaining <= 0) break;
+        
+        const target = nodeMap.get(edge.target);
+        if (!target || !allowsToken(getDeliveryFilter(edge, target), tokenType)) continue;
+        
+        const flowRate = getFlowRate(edge);
+        const targetSpace = getTargetSpace(target);
+        recordBlocked(target, Math.min(remaining, flowRate) - Math.max(0, targetSpace));
+        if (targetSpace <= 0) continue;
+        
+        const toSend = Math.min(remaining, flowRate, targetSpace);
+        if (toSend > 0) {
+          recordTypedTransfer(node, target, tokenType, toSend, edge.id);
+          remaining -= toSend;
+          totalOutput += toSend;
+        }
+      }
+    }
+    
+    // Step 3: Accept new incoming resources
+    let inputConsumed: TypedResources = {};
+    
+    for (const edge of incomingEdges) {
+      const sourceNode = nodeMap.get(edge.source);
+      if (!sourceNode || !sourceNode.data.isActive) continue;
+      
+      const flowRate = getFlowRate(edge);
+      const tokenFilter = getTokenFilter(edge);
+      const sourceTyped = readTypedResources(edge.source);
+      
+      for (const [tokenId, amount] of Object.entries(sourceTyped)) {
+        if (!allowsToken(tokenFilter, tokenId)) continue;
+        let toAccept = Math.min(amount, flowRate);
+        
+        // In queue mode, only accept if nothing is currently being processed
+        if (delayMode === 'queue') {
+          const currentlyProcessing = delayQueue.reduce((sum, item) => sum + item.amount, 0);
+          if (currentlyProcessing > 0) {
+            // Add to waiting queue (ticksRemaining set to delayTicks + queue position)
+            // This simulates waiting - we'll add with extra ticks
+            const queuePosition = delayQueue.length;
+            if (toAccept > 0) {
+              delayQueue.push({
+                amount: toAccept,
+                ticksRemaining: delayTicks + (queuePosition * delayTicks),
+                tokenType: tokenId
+              });
+              inputConsumed[tokenId] = (inputConsumed[tokenId] ?? 0) + toAccept;
+            }
+          } else {
+            // Queue is empty, start processing immediately
+            if (toAccept > 0) {
+              delayQueue.push({
+                amount: toAccept,
+                ticksRemaining: delayTicks,
+                tokenType: tokenId
+              });
+              inputConsumed[tokenId] = (inputConsumed[tokenId] ?? 0) + toAccept;
+            }
+          }
+        } else {
+          // Delay mode: all resources are processed in parallel
+          if (toAccept > 0) {
+            delayQueue.push({
+              amount: toAccept,
+              ticksRemaining: delayTicks,
+              tokenType: tokenId
+            });
+            inputConsumed[tokenId] = (inputConsumed[tokenId] ?? 0) + toAccept;
+          }
+        }
+      }
+    }
+    
+    // Track what was consumed from sources
+    delayConsumed.set(node.id, inputConsumed);
+    
+    // Update node data
+    node.data.delayQueue = delayQueue;
+    node.data.delayProcessing = delayQueue.reduce((sum, item) => sum + item.amount, 0);
+    node.data.lastOutput = totalOutput;
+    node.data.lastSent = totalOutput;
+  };
+
+  if (sameTick) {
+    // Topological: each node runs its phase once, upstream nodes first
+    for (const node of getPropagationOrder(nodes, resourceEdges)) {
+      const current = nodeMap.get(node.id);
+      if (!current) continue;
+      switch (current.data.nodeType) {
+        case 'converter': processConverter(current); break;
+        case 'trader': processTrader(current); break;
+        case 'delay': processDelay(current); break;
+        default: {
+          // A pull node takes from its inputs before passing resources on
+          if (isPullNode(current)) pullInputs(current);
+          const outgoingEdges = edgesBySource.get(current.id);
+          if (outgoingEdges) transferAlongEdges(current.id, outgoingEdges);
+        }
+      }
+    }
+  } else {
+    // Snapshot: phases run in order over all nodes
+    for (const [sourceId, outgoingEdges] of edgesBySource) transferAlongEdges(sourceId, outgoingEdges);
+    for (const node of nodeMap.values()) if (isPullNode(node)) pullInputs(node);
+    for (const node of nodeMap.values()) processConverter(node);
+    for (const node of nodeMap.values()) processTrader(node);
+    for (const node of nodeMap.values()) processDelay(node);
+  }
+
+  // Subtract sent (or consumed) and add incoming tokens. Snapshot mode subtracts first
+  // (a node never uses more than its snapshot); topological mode adds first, because
+  // a node can forward or convert what it received earlier in the same tick.
+  // Overflow outputs also send what arrived in the tick (incomingFirst).
+  const applyFlowDeltas = (
+    typed: TypedResources,
+    incomingTyped: TypedResources,
+    sentTyped: TypedResources,
+    incomingFirst = sameTick
+  ) => {
+    let result = typed;
+    const addIncoming = () => {
+      for (const [tokenId, amount] of Object.entries(incomingTyped)) {
+        result = addTokenResources(result, tokenId, amount);
+      }
+    };
+    if (incomingFirst) addIncoming();
+    for (const [tokenId, amount] of Object.entries(sentTyped)) {
+      result = removeTokenResources(result, tokenId, amount);
+    }
+    if (!incomingFirst) addIncoming();
+    return result;
+  };
+
+  // Overflow pools: the excess above capacity leaves through the overflow output
+  // (up to each connection's flow rate and its target's space)
+  for (const node of nodeMap.values()) {
+    if (node.data.nodeType !== 'pool' || node.data.overflowPolicy !== 'overflow') continue;
+    const capacity = node.data.capacity ?? -1;
+    if (capacity === -1 || !Number.isFinite(capacity)) continue;
+
+    const projected = applyFlowDeltas(
+      { ...(baseTypedResources.get(node.id) ?? {}) },
+      incomingTypedDelta.get(node.id) ?? {},
+      sentTypedAmount.get(node.id) ?? {}
+    );
+    let excess = Math.floor(getTotalResources(projected) - capacity);
+
+    for (const edge of overflowEdgesBySource.get(node.id) ?? []) {
+      if (excess <= 0) break;
+      const target = nodeMap.get(edge.target);
+      if (!target) continue;
+      const tokenFilter = getDeliveryFilter(edge, target);
+      let toSend = Math.floor(Math.min(excess, getFlowRate(edge), getTargetSpace(target)));
+      // One token at a time from the largest stock, so the excess keeps the pool's mix
+      while (toSend > 0) {
+        const largestToken = Object.entries(projected)
+          .filter(([tokenId, amount]) => amount >= 1 && allowsToken(tokenFilter, tokenId))
+          .sort((a, b) => b[1] - a[1])[0];
+        if (!largestToken) break;
+        recordTypedTransfer(node, target, largestToken[0], 1, edge.id);
+        projected[largestToken[0]] -= 1;
+        excess -= 1;
+        toSend -= 1;
+      }
+    }
+  }
+
+  // Apply deltas at end of tick
+  // Now handles typed resources properly
+  for (const node of nodeMap.values()) {
+    const baseTyped = baseTypedResources.get(node.id) ?? {};
+    const incomingTyped = incomingTypedDelta.get(node.id) ?? {};
+    const sentTyped = sentTypedAmount.get(node.id) ?? {};
+    
+    // Legacy incoming value for overflow calculation
+    const incoming = incomingDelta.get(node.id) ?? 0;
+
+    if (node.data.nodeType === 'source') {
+      const produced = sourceProductionThisTick.get(node.id) ?? 0;
+      const producedTyped = sourceTypedProductionThisTick.get(node.id) ?? {};
+      
+      // Calculate new typed resources
+      let newTyped = { ...baseTyped };
+      
+      // Add produced tokens
+      for (const tokenId of getSourceTokenIds(node.data)) {
+        newTyped = addTokenResources(newTyped, tokenId, producedTyped[tokenId] ?? 0);
+      }
+      
+      // Subtract sent tokens, add incoming tokens
+      newTyped = applyFlowDeltas(newTyped, incomingTyped, sentTyped);
+      
+      // Apply capacity limit
+      const capacity = node.data.capacity ?? -1;
+      let totalNew = getTotalResources(newTyped);
+      let overflow = 0;
+      
+      if (capacity !== -1 && Number.isFinite(capacity) && totalNew > capacity) {
+        overflow = totalNew - capacity;
+        // Scale down all tokens proportionally
+        const scale = capacity / totalNew;
+        for (const tokenId of Object.keys(newTyped)) {
+          newTyped[tokenId] = Math.floor(newTyped[tokenId] * scale);
+        }
+        totalNew = getTotalResources(newTyped);
+      }
+
+      node.data.typedResources = newTyped;
+      node.data.resources = totalNew;
+
+      // Track production
+      const discardedIncoming = Math.min(incoming, overflow);
+      const overflowAfterIncoming = overflow - discardedIncoming;
+      const discardedProduced = Math.min(produced, overflowAfterIncoming);
+      const actualProduced = Math.max(0, produced - discardedProduced);
+
+      if (actualProduced > 0) node.data.totalProduced = (node.data.totalProduced ?? 0) + actualProduced;
+      node.data.lastProduced = actualProduced;
+      continue;
+    }
+
+    if (node.data.nodeType === 'converter') {
+      const consumed = converterConsumed.get(node.id) ?? {};
+      
+      // Subtract consumed tokens, add incoming tokens
+      const newTyped = applyFlowDeltas({ ...baseTyped }, incomingTyped, consumed);
+      
+      node.data.typedResources = newTyped;
+      node.data.resources = getTotalResources(newTyped);
+      continue;
+    }
+
+    if (node.data.nodeType === 'drain') {
+      // Drain accumulates all tokens
+      let newTyped = { ...baseTyped };
+      
+      for (const [tokenId, amount] of Object.entries(incomingTyped)) {
+        newTyped = addTokenResources(newTyped, tokenId, amount);
+      }
+      
+      node.data.typedResources = newTyped;
+      node.data.resources = getTotalResources(newTyped);
+
+      // Demand drains record what they wanted but didn't get
+      if (node.data.drainMode === 'demand' && node.data.isActive) {
+        const unmet = Math.max(0, (node.data.consumptionRate ?? 0) - (node.data.lastConsumed ?? 0));
+        node.data.lastUnmet = unmet;
+        node.data.totalUnmet = (node.data.totalUnmet ?? 0) + unmet;
+      }
+      continue;
+    }
+
+    if (node.data.nodeType === 'trader') {
+      // Trader: resources pass through, don't accumulate
+      // The trading logic already handled transfers in Phase 4
+      // Just update the display buffers which were set in Phase 4
+      // (ratio traders keep what arrived since their trade in the input buffers)
+      if (hasTraderRatios(node.data)) {
+        collectTraderArrivals(node, traderFlowIndex.get(node.id) ?? 0, flows.length);
+      }
+      node.data.typedResources = {};
+      node.data.resources = 0;
+      continue;
+    }
+
+    if (node.data.nodeType === 'market') {
+      // Market: the orders that arrived are traded against the reserves and the proceeds
+      // wait for the next tick (a market switched off returns the orders as they are)
+      let newTyped = applyFlowDeltas({ ...baseTyped }, {}, sentTyped);
+      const priceContext = { tick: currentTick, registers, random: rng.next };
+      let payout = incomingTyped;
+      node.data.lastSold = 0;
+      node.data.lastBought = 0;
+      if (node.data.isActive && getTotalResources(incomingTyped) > 0) {
+        const trade = tradeWithMarket(node.data, incomingTyped, priceContext);
+        payout = trade.payout;
+        node.data.marketStock = trade.stock;
+        node.data.marketFunds = trade.funds;
+        node.data.lastSold = trade.sold;
+        node.data.lastBought = trade.bought;
+        node.data.totalFees = (node.data.totalFees ?? 0) + trade.fees;
+      }
+      for (const [tokenId, amount] of Object.entries(payout)) {
+        newTyped = addTokenResources(newTyped, tokenId, amount);
+      }
+      node.data.typedResources = newTyped;
+      node.data.resources = getTotalResources(newTyped);
+      node.data.marketPrice = getMarketPrice(node.data, { ...priceContext, tick: currentTick + 1 });
+      continue;
+    }
+
+    if (node.data.nodeType === 'loot') {
+      // Loot table: every whole unit that arrived rolls the table once and the drops wait
+      // for the next tick (a loot table switched off passes the arrivals on as they are)
+      let newTyped = applyFlowDeltas({ ...baseTyped }, {}, sentTyped);
+      let dropped = incomingTyped;
+      node.data.lastRolls = 0;
+      node.data.lastDrops = undefined;
+      if (node.data.isActive && getTotalResources(incomingTyped) > 0) {
+        const rolls = Math.floor(getTotalResources(incomingTyped) + 1e-9);
+        dropped = recordLootRoll(node, rollLootTable(node.data, rolls, rng.next), rolls);
+      }
+      for (const [tokenId, amount] of Object.entries(dropped)) {
+        newTyped = addTokenResources(newTyped, tokenId, amount);
+      }
+      node.data.typedResources = newTyped;
+      node.data.resources = getTotalResources(newTyped);
+      continue;
+    }
+
+    if (node.data.nodeType === 'register') {
+      // Register: resources hold the value evaluated in phase 0
+      node.data.typedResources = {};
+      continue;
+    }
+
+    if (node.data.nodeType === 'delay') {
+      // Delay: resources are held in the delay queue, not in typedResources
+      // The delay logic in Phase 5 already handled everything
+      // Display the number of resources in the queue
+      const queueTotal = (node.data.delayQueue ?? []).reduce(
+        (sum: number, item: { amount: number }) => sum + item.amount, 
+        0
+      );
+      node.data.typedResources = {};
+      node.data.resources = queueTotal;
+      continue;
+    }
+
+    // Pool and other nodes: subtract sent tokens, add incoming tokens
+    const hasOverflowOutput = node.data.nodeType === 'pool' && node.data.overflowPolicy === 'overflow';
+    let newTyped = applyFlowDeltas({ ...baseTyped }, incomingTyped, sentTyped, sameTick || hasOverflowOutput);
+    
+    // Apply capacity for pools; what doesn't fit is discarded
+    if (node.data.nodeType === 'pool') {
+      const capacity = node.data.capacity ?? -1;
+      let totalNew = getTotalResources(newTyped);
+      let discarded = 0;
+      
+      if (capacity !== -1 && Number.isFinite(capacity) && totalNew > capacity) {
+        const scale = capacity / totalNew;
+        for (const tokenId of Object.keys(newTyped)) {
+          newTyped[tokenId] = Math.floor(newTyped[tokenId] * scale);
+        }
+        discarded = totalNew - getTotalResources(newTyped);
+      }
+
+      const blocked = blockedAmount.get(node.id) ?? 0;
+      node.data.lastBlocked = blocked;
+      node.data.lastDiscarded = discarded;
+      node.data.totalBlocked = (node.data.totalBlocked ?? 0) + blocked;
+      node.data.totalDiscarded = (node.data.totalDiscarded ?? 0) + discarded;
+    }
+
+    if (node.data.nodeType === 'gate') {
+      const discarded = gateDiscarded.get(node.id) ?? 0;
+      node.data.lastDiscarded = discarded;
+      node.data.totalDiscarded = (node.data.totalDiscarded ?? 0) + discarded;
+    }
+    
+    node.data.typedResources = newTyped;
+    node.data.resources = getTotalResources(newTyped);
+  }
+
+  // Triggers: every trigger connection whose origin moved resources this tick fires
+  // its target source once (the production lands in its buffer, like a click),
+  // or rolls its target loot table once (the drops wait to leave)
+  for (const edge of edges) {
+    if (getEdgeKind(edge.data) !== 'trigger') continue;
+    const origin = nodeMap.get(edge.source);
+    const target = nodeMap.get(edge.target);
+    if (!origin || !target || !canBeTriggered(target.data.nodeType) || !hasMovedResources(origin.data)) continue;
+    if (target.data.nodeType === 'loot') {
+      if (!target.data.isActive) continue;
+      const drops = recordLootRoll(target, rollLootTable(target.data, 1, rng.next), 1);
+      for (const [tokenId, amount] of Object.entries(drops)) {
+        target.data.typedResources = addTokenResources(target.data.typedResources, tokenId, amount);
+      }
+      target.data.resources = getTotalResources(target.data.typedResources);
+      target.data.lastTriggered = (target.data.lastTriggered ?? 0) + 1;
+      continue;
+    }
+    const capacity = target.data.capacity ?? -1;
+    const space = capacity === -1 || !Number.isFinite(capacity) ? Infinity : Math.max(0, capacity - target.data.resources);
+    const producedTyped = limitTokens(
+      getSourceProduction(target.data, produceOnce(target, currentTick, settings, registers, prices), rng.next),
+      space
+    );
+    const produced = getTotalResources(producedTyped);
+    if (produced <= 0) continue;
+    for (const [tokenId, amount] of Object.entries(producedTyped)) {
+      target.data.typedResources = addTokenResources(target.data.typedResources, tokenId, amount);
+    }
+    target.data.resources = getTotalResources(target.data.typedResources);
+    target.data.totalProduced = (target.data.totalProduced ?? 0) + produced;
+    target.data.lastProduced = (target.data.lastProduced ?? 0) + produced;
+    target.data.lastTriggered = (target.data.lastTriggered ?? 0) + 1;
+  }
+
+  // End conditions: checked on the end-of-tick state, each fires once per run
+  // (the first one met is reported)
+  let ended: SimulationEnd | undefined;
+  for (const node of nodeMap.values()) {
+    if (node.data.nodeType !== 'end' || !node.data.isActive || node.data.endedAtTick !== undefined) continue;
+    const reason = checkEndCondition(node, nodeMap, currentTick + 1, registers, prices, rng.next);
+    if (reason === null) continue;
+    node.data.endedAtTick = currentTick + 1;
+    ended ??= { nodeId: node.id, tick: currentTick + 1, reason: `${node.data.label}: ${reason}` };
+  }
+
+  // Restore the properties changed by state and activator connections
+  for (const [nodeId, originals] of modifiedOriginals) Object.assign(nodeMap.get(nodeId)!.data, originals);
+
+  // Record the rate of formula/script connections for their labels
+  // (connections not used this tick, e.g. behind a closed gate, are evaluated here)
+  const nextEdges = edges.map((edge) => {
+    if (getFlowMode(edge.data) === 'fixed' || !isResourceEdge(edge.data)) return edge;
+    const lastFlowRate = getBaseFlowRate(edge);
+    return lastFlowRate === edge.data?.lastFlowRate ? edge : { ...edge, data: { ...edge.data!, lastFlowRate } };
+  });
+
+  return {
+    nodes: Array.from(nodeMap.values()),
+    edges: nextEdges,
+    tick: currentTick + 1,
+    flows,
+    ended,
+  };
+}
+
+/**
+ * Build a chart/history entry from the node state at a given tick.
+ * Drains, gates and end conditions are excluded from per-node totals and token totals.
+ * Pools with a capacity also record their blocked/discarded totals, demand drains
+ * their consumption and unmet demand in the tick, markets their unit price.
+ * settings: seed of the run, for the price of formula markets before the first tick
+ */
+export function buildHistoryEntry(
+  nodes: Node<NodeData>[],
+  tick: number,
+  settings: ProjectSettings = defaultProjectSettings
+): ResourceHistoryEntry {
+  const historyEntry: ResourceHistoryEntry = { tick };
+  const tokenTotals: Record<string, number> = {};
+
+  for (const node of nodes) {
+    if (node.data.nodeType === 'drain' && node.data.drainMode === 'demand') {
+      historyEntry[getCounterKey('consumed', node.id)] = node.data.lastConsumed ?? 0;
+      historyEntry[getCounterKey('unmet', node.id)] = node.data.lastUnmet ?? 0;
+    }
+
+    if (node.data.nodeType === 'gate' && node.data.gateDistribution === 'random_percent') {
+      historyEntry[getCounterKey('discarded', node.id)] = node.data.totalDiscarded ?? 0;
+    }
+
+    if (node.data.nodeType !== 'drain' && node.data.nodeType !== 'gate' && node.data.nodeType !== 'end') {
+      historyEntry[node.id] = node.data.resources;
+
+      const capacity = node.data.capacity ?? -1;
+      if (node.data.nodeType === 'pool' && capacity !== -1 && Number.isFinite(capacity)) {
+        historyEntry[getCounterKey('blocked', node.id)] = node.data.totalBlocked ?? 0;
+        historyEntry[getCounterKey('discarded', node.id)] = node.data.totalDiscarded ?? 0;
+      }
+      // Before the first tick: the price at the initial reserves
+      if (node.data.nodeType === 'market') {
+        historyEntry[getCounterKey('price', node.id)] = node.data.marketPrice
+          ?? getMarketPrice(node.data, { tick, registers: getRegisterValues(nodes), random: createRng(deriveSeed(settings.seed, tick)).next });
+      }
+      // Loot tables: rolls and drops by tier of the tiers in the table, so drop rates can be checked
+      if (node.data.nodeType === 'loot') {
+        historyEntry[getCounterKey('rolls', node.id)] = node.data.lootTotalRolls ?? 0;
+        const tiers = new Set((node.data.lootEntries ?? []).map((entry) => entry.tier));
+        for (const tier of LOOT_TIERS) {
+          if (tiers.has(tier)) historyEntry[getCounterKey(`drops-${tier}`, node.id)] = node.data.lootTierDrops?.[tier] ?? 0;
+        }
+      }
+
+      // Accumulate token totals
+      for (const [tokenId, amount] of Object.entries(node.data.typedResources)) {
+        if (amount > 0) {
+          tokenTotals[tokenId] = (tokenTotals[tokenId] || 0) + amount;
+        }
+      }
+    }
+  }
+
+  // Add token totals with prefix
+  for (const [tokenId, amount] of Object.entries(tokenTotals)) {
+    historyEntry[`token:${tokenId}`] = amount;
+  }
+
+  return historyEntry;
+}
+
+/**
+ * Return nodes to their pre-simulation state: default resources, empty
+ * token maps, zeroed counters, queues and script state. Configuration
+ * (rates, formulas, recipes...) is kept.
+ */
+export function resetNodes(nodes: Node<NodeData>[]): Node<NodeData>[] {
+  return nodes.map((node) => {
+    const defaults = nodeDefaults[node.data.nodeType];
+    return {
+      ...node,
+      data: {
+        ...node.data,
+        // Reset resources to default (registers start at their initial value)
+        resources: node.data.nodeType === 'register' ? node.data.initialValue ?? 0 : defaults.resources ?? 0,
+        // Reset typed resources (multi-token)
+        typedResources: {},
+        // Reset production counters
+        totalProduced: 0,
+        lastProduced: 0,
+        lastConsumed: 0,
+        lastUnmet: 0,
+        totalUnmet: 0,
+        lastReceived: 0,
+        lastBlocked: 0,
+        lastDiscarded: 0,
+        totalBlocked: 0,
+        totalDiscarded: 0,
+        lastConverted: 0,
+        lastSent: 0,
+        lastOutput: 0,
+        // Reset distribution index and weighted gate counts
+        lastDistributionIndex: 0,
+        gateDistributionCounts: undefined,
+        // Reset script state
+        scriptState: {},
+        // Reset Trader accumulators
+        traderInputA: 0,
+        traderInputB: 0,
+        traderTypedA: {},
+        traderTypedB: {},
+        lastTrades: 0,
+        // Reset Converter crafting
+        craftingRecipe: undefined,
+        craftingProgress: undefined,
+        craftingOutput: undefined,
+        lastRecipe: undefined,
+        // Reset Delay queue
+        delayQueue: [],
+        delayProcessing: 0,
+        calculatedDelay: undefined,
+        // Re-arm End Conditions
+        endedAtTick: undefined,
+        // Restore the Market reserves
+        marketStock: undefined,
+        marketFunds: undefined,
+        marketPrice: undefined,
+        lastSold: 0,
+        lastBought: 0,
+        totalFees: 0,
+        // Reset Loot Table counters
+        lootPityCounters: undefined,
+        lootTotalRolls: 0,
+        lootTierDrops: undefined,
+        lastRolls: 0,
+        lastDrops: undefined,
+      },
+    };
+  });
+}
+
+/**
+ * Reset connection runtime state (script state, last evaluated flow rate).
+ */
+export function resetEdges(edges: Edge<EdgeData>[]): Edge<EdgeData>[] {
+  return edges.map((edge) => {
+    if (!edge.data || (edge.data.scriptState === undefined && edge.data.lastFlowRate === undefined)) return edge;
+    const data = { ...edge.data };
+    delete data.scriptState;
+    delete data.lastFlowRate;
+    return { ...edge, data };
+  });
+}
+
+/**
+ * Produce once from a manual Source (click activation).
+ * Returns the updated node, or null if the source cannot produce right now.
+ * registers, prices: current register values and market prices, readable by the source formula
+ */
+export function triggerManualSource(
+  node: Node<NodeData>,
+  currentTick: number,
+  settings: ProjectSettings = defaultProjectSettings,
+  registers: Record<string, number> = {},
+  prices: Record<string, number> = {}
+): Node<NodeData> | null {
+  if (node.data.nodeType !== 'source') return null;
+  if (!node.data.isActive) return null;
+  if ((node.data.activationMode ?? 'auto') !== 'manual') return null;
+
+  const production = produceOnce(node, currentTick, settings, registers, prices);
+  if (production <= 0) return null;
+
+  // Tokens of the click (the random mix is keyed on totalProduced, like the formula)
+  const totalProduced = node.data.totalProduced ?? 0;
+  const random = createRng(deriveSeed(settings.seed, currentTick, node.id, totalProduced)).next;
+  const capacity = node.data.capacity ?? -1;
+  const space = capacity === -1 || !Number.isFinite(capacity) ? Infinity : Math.max(0, capacity - node.data.resources);
+  const producedTyped = limitTokens(getSourceProduction(node.data, production, random), space);
+
+  const actualProduced = getTotalResources(producedTyped);
+  if (actualProduced <= 0) return null;
+
+  let typedResources = { ...node.data.typedResources };
+  for (const [tokenId, amount] of Object.entries(producedTyped)) {
+    typedResources = addTokenResources(typedResources, tokenId, amount);
+  }
+
+  return {
+    ...node,
+    data: {
+      ...node.data,
+      resources: node.data.resources + actualProduced,
+      typedResources,
+      totalProduced: totalProduced + actualProduced,
+      lastProduced: actualProduced,
+    },
+  };
+}
+
+/**
+ * Count the rolls of a loot table (pity counters, drops by tier) and return the drops
+ */
+function recordLootRoll(node: Node<NodeData>, roll: LootRoll, rolls: number): TypedResources {
+  node.data.lootPityCounters = roll.pityCounters;
+  node.data.lootTotalRolls = (node.data.lootTotalRolls ?? 0) + rolls;
+  const tierDrops = { ...(node.data.lootTierDrops ?? {}) };
+  for (const tier of LOOT_TIERS) {
+    const dropped = roll.tierDrops[tier] ?? 0;
+    if (dropped > 0) tierDrops[tier] = (tierDrops[tier] ?? 0) + dropped;
+  }
+  node.data.lootTierDrops = tierDrops;
+  node.data.lastRolls = (node.data.lastRolls ?? 0) + rolls;
+  const lastDrops = { ...(node.data.lastDrops ?? {}) };
+  for (const [tokenId, amount] of Object.entries(roll.drops)) {
+    lastDrops[tokenId] = (lastDrops[tokenId] ?? 0) + amount;
+  }
+  node.data.lastDrops = lastDrops;
+  return roll.drops;
+}
+
+/**
+ * One production of a Source (a click on a manual source, or a trigger),
+ * limited by maxProduction. Returns 0 if the source cannot produce.
+ */
+function produceOnce(
+  node: Node<NodeData>,
+  currentTick: number,
+  settings: ProjectSettings,
+  registers: Record<string, number>,
+  prices: Record<string, number>
+): number {
+  if (!node.data.isActive) return 0;
+  const maxProd = node.data.maxProduction ?? -1;
+  const totalProduced = node.data.totalProduced ?? 0;
+  if (maxProd !== -1 && totalProduced >= maxProd) return 0;
+
+  const mode = getMode(node.data);
+  let production: number;
+
+  if (mode === 'formula' && node.data.formula) {
+    const result = evaluateFormula(node.data.formula, {
+      resources: node.data.resources,
+      tick: currentTick,
+      capacity: node.data.capacity,
+      totalProduced,
+      // Stream keyed on totalProduced so repeated clicks in one tick differ
+      random: createRng(deriveSeed(settings.seed, currentTick, node.id, totalProduced)).next,
+      registers,
+      prices,
+    });
+    production = result ?? node.data.productionRate;
+  } else if (mode === 'script' && node.data.script) {
+    const lastOutput = node.data.scriptState?.lastOutput;
+    production = typeof lastOutput === 'number' ? lastOutput : node.data.productionRate;
+  } else {
+    production = node.data.productionRate;
+  }
+
+  if (!Number.isFinite(production) || production <= 0) return 0;
+
+  if (maxProd !== -1) {
+    const remaining = maxProd - totalProduced;
+    production = Math.min(production, remaining);
+  }
+  return production;
+}
+
+// getNode/get accessors for scripts, over a frozen snapshot of `nodes`
+function createScriptAccessors(nodes: Node<NodeData>[]) {
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  const findNode = (id: string) => {
+    // Try to find by ID first
+    const node = nodeMap.get(id);
+    if (node) return node;
+
+    // If not found, try to find by label (case-insensitive)
+    const normalizedId = id.toLowerCase();
+    return nodes.find(n => n.data.label.toLowerCase() === normalizedId);
+  };
+
+  const getNode = (id: string) => {
+    const node = findNode(id);
+    if (!node) return null;
+    return {
+      resources: node.data.resources,
+      capacity: node.data.capacity,
+      tokens: node.data.typedResources || {},
+      tokenType: node.data.tokenType
+    };
+  };
+
+  // Create get function (shorthand)
+  const getTokenFromNode = (nodeId: string, tokenId: string): number => {
+    const node = findNode(nodeId);
+    if (!node) return 0;
+    return getTokenResources(node.data.typedResources, tokenId);
+  };
+
+  return { getNode, getTokenFromNode };
+}
+
+// Script state without lastOutput/lastError, so they don't leak back via
+// newState and overwrite the explicit lastOutput assignment
+const getPersistentScriptState = (scriptState: Record<string, unknown> | undefined) =>
+  Object.fromEntries(
+    Object.entries(scriptState || {}).filter(([k]) => k !== 'lastOutput' && k !== 'lastError' && k !== 'lastExchange')
+  );
+
+/**
+ * Execute all node scripts for the given tick in a single QuickJS batch.
+ * Scripts see a frozen snapshot of `nodes` (snapshot semantics).
+ * Each script gets its own Math.random stream seeded from (seed, tick, nodeId).
+ */
+export async function runNodeScripts(
+  nodes: Node<NodeData>[],
+  currentTick: number,
+  settings: ProjectSettings = defaultProjectSettings
+): Promise<BatchScriptResult[]> {
+  // Find all nodes with scripts
+  const scriptNodes = nodes.filter(n => getMode(n.data) === 'script' && n.data.script);
+
+  if (scriptNodes.length === 0) return [];
+
+  // Getters for other nodes (snapshot semantics)
+  const { getNode, getTokenFromNode } = createScriptAccessors(nodes);
+  const registers = getRegisterValues(nodes);
+  const prices = getMarketPrices(nodes, { tick: currentTick, registers, random: createRng(deriveSeed(settings.seed, currentTick)).next });
+
+  // Build batch entries for all scripts
+  const entries: BatchScriptEntry[] = scriptNodes.map(node => ({
+    nodeId: node.id,
+    script: node.data.script,
+    context: {
+      input: node.data.resources,
+      resources: node.data.resources,
+      capacity: node.data.capacity,
+      totalProduced: node.data.totalProduced,
+      maxProduction: node.data.maxProduction,
+      tick: currentTick,
+      tokenType: node.data.tokenType,
+      tokens: node.data.typedResources,
+      getNode,
+      get: getTokenFromNode,
+      state: getPersistentScriptState(node.data.scriptState),
+      randomSeed: deriveSeed(settings.seed, currentTick, node.id),
+      registers,
+      prices,
+      keepDecimals: node.data.nodeType === 'register',
+      allowExchange: node.data.nodeType === 'converter',
+    }
+  }));
+
+  // Execute all scripts in batch (single runtime/context)
+  const results = await executeBatchScripts(entries);
+
+  // Log script results for debugging
+  if (isScriptDebug()) {
+    for (const r of results) {
+      console.log(`[runNodeScripts] Node ${r.nodeId}: success=${r.result.success}, value=${r.result.value}, error=${r.result.error ?? 'none'}`);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Execute all connection flow rate scripts for the given tick in a single
+ * QuickJS batch. Results are keyed by edge id (in the `nodeId` field).
+ * Scripts see the source node as `resources`/`tokens`/`capacity`, plus the
+ * `source` and `target` objects.
+ */
+export async function runEdgeScripts(
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  currentTick: number,
+  settings: ProjectSettings = defaultProjectSettings
+): Promise<BatchScriptResult[]> {
+  const scriptEdges = edges.filter(e => getFlowMode(e.data) === 'script' && isResourceEdge(e.data));
+  if (scriptEdges.length === 0) return [];
+
+  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  const { getNode, getTokenFromNode } = createScriptAccessors(nodes);
+  const registers = getRegisterValues(nodes);
+  const prices = getMarketPrices(nodes, { tick: currentTick, registers, random: createRng(deriveSeed(settings.seed, currentTick)).next });
+
+  const entries: BatchScriptEntry[] = scriptEdges.map(edge => {
+    const source = getNode(edge.source) ?? { resources: 0, capacity: -1, tokens: {} };
+    return {
+      nodeId: edge.id,
+      script: edge.data!.flowScript!,
+      context: {
+        input: source.resources,
+        resources: source.resources,
+        capacity: source.capacity,
+        tick: currentTick,
+        tokenType: nodeMap.get(edge.source)?.data.tokenType,
+        tokens: source.tokens,
+        getNode,
+        get: getTokenFromNode,
+        state: getPersistentScriptState(edge.data?.scriptState),
+        randomSeed: deriveSeed(settings.seed, currentTick, edge.id),
+        source,
+        target: getNode(edge.target) ?? undefined,
+        registers,
+        prices,
+      },
+    };
+  });
+
+  return executeBatchScripts(entries);
+}
+
+/**
+ * Merge connection script results into edge scriptState.
+ */
+export function applyEdgeScriptResults(
+  edges: Edge<EdgeData>[],
+  results: BatchScriptResult[]
+): Edge<EdgeData>[] {
+  if (results.length === 0) return edges;
+
+  return edges.map(edge => {
+    const scriptResult = results.find(r => r.nodeId === edge.id);
+    if (!scriptResult || !edge.data) return edge;
+
+    return {
+      ...edge,
+      data: {
+        ...edge.data,
+        scriptState: {
+          ...edge.data.scriptState,
+          ...(scriptResult.result.newState || {}),
+          lastOutput: scriptResult.result.value,
+          lastError: scriptResult.result.error,
+        },
+      },
+    };
+  });
+}
+
+/**
+ * Merge script results into node scriptState (lastOutput, lastError, state vars).
+ * Nodes without a result are returned unchanged.
+ */
+export function applyScriptResults(
+  nodes: Node<NodeData>[],
+  results: BatchScriptResult[]
+): Node<NodeData>[] {
+  if (results.length === 0) return nodes;
+
+  return nodes.map(node => {
+    const scriptResult = results.find(r => r.nodeId === node.id);
+    if (!scriptResult) return node;
+
+    return {
+      ...node,
+      data: {
+        ...node.data,
+        scriptState: {
+          ...node.data.scriptState,
+          ...(scriptResult.result.newState || {}),
+          // These MUST come AFTER newState spread to prevent overwrite
+          lastOutput: scriptResult.result.value,
+          lastError: scriptResult.result.error,
+          lastExchange: scriptResult.result.exchange,
+        },
+      },
+    };
+  });
+}
+
+// ============================================================================
+// ENGINE - Stateful wrapper for headless runs
+// ============================================================================
+
+export interface EngineState {
+  nodes: Node<NodeData>[];
+  edges: Edge<EdgeData>[];
+  tick: number;
+}
+
+export interface EngineOptions {
+  // Tick to start from (default 0)
+  startTick?: number;
+  // Project settings (seed...); missing fields use defaultProjectSettings
+  settings?: Partial<ProjectSettings>;
+}
+
+export interface Engine {
+  getState: () => EngineState;
+  // Effective settings (options merged over defaults)
+  getSettings: () => ProjectSettings;
+  // Refresh script outputs for the current state (QuickJS, async)
+  runScripts: () => Promise<void>;
+  // Advance one tick using cached script outputs
+  step: () => TickResult;
+  // Run scripts (if any) then advance one tick
+  stepAsync: () => Promise<TickResult>;
+}
+
+/**
+ * Create a stateful engine around the pure tick functions.
+ * The input arrays are not mutated.
+ */
+export function createEngine(
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  options: EngineOptions = {}
+): Engine {
+  const settings: ProjectSettings = { ...defaultProjectSettings, ...options.settings };
+  let state: EngineState = { nodes, edges, tick: options.startTick ?? 0 };
+
+  const runScripts = async () => {
+    const results = await runNodeScripts(state.nodes, state.tick, settings);
+    const edgeResults = await runEdgeScripts(state.nodes, state.edges, state.tick, settings);
+    state = {
+      ...state,
+      nodes: applyScriptResults(state.nodes, results),
+      edges: applyEdgeScriptResults(state.edges, edgeResults),
+    };
+  };
+
+  const step = () => {
+    const result = stepSimulation(state.nodes, state.edges, state.tick, settings);
+    state = { nodes: result.nodes, edges: result.edges, tick: result.tick };
+    return result;
+  };
+
+  return {
+    getState: () => state,
+    getSettings: () => settings,
+    runScripts,
+    step,
+    stepAsync: async () => {
+      await runScripts();
+      return step();
+    },
+  };
+}
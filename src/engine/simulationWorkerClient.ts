@@ -0,0 +1,110 @@
+/**
+ * Main-thread side of the simulation worker (see simulation.worker.ts).
+ *
+ * Usage:
+ *   const worker = createSimulationWorker(applySnapshot, showError);
+ *   worker?.start(state, ticksPerSecond);  // null when Web Workers are unavailable
+ *   worker?.update(editedState);           // after a user edit while playing
+ *   worker?.stop();
+ */
+
+import { Node, Edge } from '@xyflow/react';
+import { NodeData, EdgeData, ProjectSettings } from '../types';
+import { ResourceHistoryEntry, SimulationEnd } from './simulationEngine';
+import type { WorkerRequest, WorkerResponse } from './simulation.worker';
+
+export interface SimulationSnapshot {
+  nodes: Node<NodeData>[];
+  edges: Edge<EdgeData>[];
+  tick: number;
+  history: ResourceHistoryEntry[];
+  // Set when an End Condition was met during this tick
+  ended?: SimulationEnd;
+}
+
+// Project state sent to the worker (the client adds the version)
+export interface SimulationStateInput {
+  nodes: Node<NodeData>[];
+  edges: Edge<EdgeData>[];
+  tick: number;
+  settings: ProjectSettings;
+}
+
+export interface SimulationWorkerClient {
+  start: (state: SimulationStateInput, ticksPerSecond: number) => void;
+  stop: () => void;
+  // Resolves once the snapshot of this step has been delivered
+  step: (state: SimulationStateInput) => Promise<void>;
+  update: (state: SimulationStateInput) => void;
+  terminate: () => void;
+}
+
+/**
+ * Create the worker. Returns null if Web Workers are not supported.
+ *
+ * @param onSnapshot Called for every up-to-date snapshot
+ * @param onError Called if a tick fails or the worker cannot load
+ */
+export function createSimulationWorker(
+  onSnapshot: (snapshot: SimulationSnapshot) => void,
+  onError: (message: string) => void
+): SimulationWorkerClient | null {
+  if (typeof Worker === 'undefined') return null;
+
+  const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+  let version = 0;
+  let pendingStep: { version: number; resolve: () => void } | null = null;
+
+  const send = (message: WorkerRequest) => worker.postMessage(message);
+  const nextState = (state: SimulationStateInput) => ({ ...state, version: ++version });
+
+  const settleStep = () => {
+    pendingStep?.resolve();
+    pendingStep = null;
+  };
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const message = event.data;
+    // Any response to the pending step settles it, even one that is out of date
+    const settlesStep = pendingStep?.version === message.version;
+
+    // Skip responses computed from a state that has since been replaced
+    if (message.version === version) {
+      if (message.type === 'snapshot') {
+        onSnapshot({ nodes: message.nodes, edges: message.edges, tick: message.tick, history: message.history, ended: message.ended });
+      } else if (message.type === 'error') {
+        onError(message.message);
+      }
+    }
+    if (settlesStep) settleStep();
+  };
+
+  worker.onerror = (event) => {
+    event.preventDefault();
+    onError(event.message || 'Simulation worker failed to load');
+    settleStep();
+  };
+
+  return {
+    start: (state, ticksPerSecond) => send({ type: 'start', state: nextState(state), ticksPerSecond }),
+    stop: () => {
+      // Drop the snapshot of a tick still in progress
+      version++;
+      settleStep();
+      send({ type: 'stop' });
+    },
+    step: (state) => {
+      settleStep();
+      const message = { type: 'step' as const, state: nextState(state) };
+      return new Promise<void>((resolve) => {
+        pendingStep = { version: message.state.version, resolve };
+        send(message);
+      });
+    },
+    update: (state) => send({ type: 'update', state: nextState(state) }),
+    terminate: () => {
+      settleStep();
+      worker.terminate();
+    },
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Helpers for engine tests: build nodes and connections like the editor does
+ * and run them headlessly.
+ */
+
+import { Node, Edge } from '@xyflow/react';
+import { NodeData, EdgeData, NodeType, TypedResources, nodeDefaults } from '../types';
+import { createEngine, EngineOptions } from './simulationEngine';
+
+/**
+ * A node with the defaults of its type (empty, labelled by its id)
+ */
+export function createNode(id: string, type: NodeType, data: Partial<NodeData> = {}): Node<NodeData> {
+  return {
+    id,
+    type,
+    position: { x: 0, y: 0 },
+    data: { ...nodeDefaults[type], nodeType: type, label: id, typedResources: {}, resources: 0, ...data } as NodeData,
+  };
+}
+
+/**
+ * A connection (flow rate 1 unless set)
+ */
+export function createEdge(
+  id: string,
+  source: string,
+  target: string,
+  data: Partial<EdgeData> = {},
+  handles: Pick<Edge, 'sourceHandle' | 'targetHandle'> = {}
+): Edge<EdgeData> {
+  return { id, source, target, ...handles, data: { flowRate: 1, ...data } as EdgeData };
+}
+
+/**
+ * Typed resources of a node, with the matching total
+ */
+export function stock(typedResources: TypedResources): Pick<NodeData, 'typedResources' | 'resources'> {
+  return {
+    typedResources,
+    resources: Object.values(typedResources).reduce((sum, amount) => sum + amount, 0),
+  };
+}
+
+/**
+ * Node data by id after a number of ticks
+ */
+export function run(
+  nodes: Node<NodeData>[],
+  edges: Edge<EdgeData>[],
+  ticks: number,
+  options: EngineOptions = {}
+): Record<string, NodeData> {
+  const engine = createEngine(nodes, edges, options);
+  for (let i = 0; i < ticks; i++) engine.step();
+  return Object.fromEntries(engine.getState().nodes.map((node) => [node.id, node.data]));
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { createEdge, createNode, run, stock } from './testUtils';
+
+describe('token filters', () => {
+  it('carries only the selected token types', () => {
+    const result = run(
+      [
+        createNode('mixed', 'pool', stock({ black: 5, orange: 5 })),
+        createNode('gold', 'pool'),
+        createNode('rest', 'pool'),
+      ],
+      [
+        createEdge('e1', 'mixed', 'gold', { flowRate: 10, tokenFilter: ['orange'] }),
+        createEdge('e2', 'mixed', 'rest', { flowRate: 10, tokenFilter: ['black'] }),
+      ],
+      1
+    );
+    expect(result.gold.typedResources).toEqual({ orange: 5 });
+    expect(result.rest.typedResources).toEqual({ black: 5 });
+    expect(result.mixed.resources).toBe(0);
+  });
+
+  it('carries nothing when the selected types are missing', () => {
+    const result = run(
+      [createNode('pool', 'pool', stock({ black: 5 })), createNode('gold', 'pool')],
+      [createEdge('e1', 'pool', 'gold', { flowRate: 10, tokenFilter: ['orange'] })],
+      3
+    );
+    expect(result.gold.resources).toBe(0);
+    expect(result.pool.typedResources).toEqual({ black: 5 });
+  });
+});
@@ -1,8 +1,16 @@
 import { memo } from 'react';
 import { Handle, Position } from '@xyflow/react';
-import { NodeData, ProcessingMode } from '../types';
+import { NodeData, ProcessingMode, OVERFLOW_HANDLE } from '../types';
 import { useSimulatorStore } from '../store/simulatorStore';
 import { useTokenStore } from '../store/tokenStore';
+import { formatGateCondition } from '../utils/gateConditions';
+import { formatExchange, formatTokenAmounts } from '../utils/tokenFormat';
+import { getMarketPrice, getMarketReserves } from '../utils/market';
+import { formatTraderRatio, getShortSides, hasTraderRatios } from '../utils/traderRatios';
+import { formatRecipe, getConverterRecipes, getRecipeDuration } from '../utils/recipes';
+import { getLootChances } from '../utils/loot';
+import { formatSourceTokens, getSourceTokenMode, getSourceTokenShares } from '../utils/sourceTokens';
+import type { ScriptExchange } from '../utils/scriptRunner';
 
 // Props for our custom nodes
 interface CustomNodeProps {
@@ -24,6 +32,19 @@ const formatResources = (val: number): string => {
   return parseFloat(val.toFixed(2)).toString();
 };
 
+// Input handle of pull nodes (pools and drains pulling from their inputs, demand drains)
+const getPullHandleProps = (data: NodeData) => {
+  const pullMode = data.pullMode ?? 'push';
+  if (pullMode === 'push' && data.nodeType === 'drain' && data.drainMode === 'demand') {
+    return { className: 'pull-handle', title: 'Pull (demand)' };
+  }
+  if (pullMode === 'push') return {};
+  return {
+    className: pullMode === 'pull_all' ? 'pull-handle pull-all' : 'pull-handle',
+    title: pullMode === 'pull_all' ? 'Pull all or nothing' : 'Pull',
+  };
+};
+
 
 // Source Node - produces resources (NO input handle - sources only produce)
 export const SourceNode = memo(({ id, data, selected }: CustomNodeProps) => {
@@ -48,20 +69,44 @@ export const SourceNode = memo(({ id, data, selected }: CustomNodeProps) => {
   // Get token info for badge
   const tokenType = data.tokenType || 'black';
   const token = getToken(tokenType);
+  const tokenMode = getSourceTokenMode(data);
+  
+  // Bundle/mix badge: token colors side by side, by share of the production
+  const tokenShares = getSourceTokenShares(data);
+  let shareOffset = 0;
+  const mixBackground = `linear-gradient(90deg, ${Object.entries(tokenShares)
+    .map(([tokenId, share]) => {
+      const color = getToken(tokenId)?.color || '#1a1a2e';
+      const stop = `${color} ${shareOffset * 100}% ${(shareOffset + share) * 100}%`;
+      shareOffset += share;
+      return stop;
+    })
+    .join(', ')})`;
   
   return (
-    <div className={`custom-node node-source ${activeClass} ${selected ? 'selected' : ''} ${isExhausted ? 'exhausted' : ''}`}>
+    <div className={`custom-node node-source ${activeClass} ${selected ? 'selected' : ''} ${isExhausted ? 'exhausted' : ''} ${data.deactivated ? 'deactivated' : ''}`}>
       {/* Token badge */}
-      <div 
-        className="token-badge" 
-        style={{ backgroundColor: token?.color || '#1a1a2e' }}
-        title={token?.name || 'Black'}
-      >
-        {token?.emoji || '⚫'}
-      </div>
+      {tokenMode === 'single' ? (
+        <div 
+          className="token-badge" 
+          style={{ backgroundColor: token?.color || '#1a1a2e' }}
+          title={token?.name || 'Black'}
+        >
+          {token?.emoji || '⚫'}
+        </div>
+      ) : (
+        <div
+          className="token-badge token-mix"
+          style={{ background: mixBackground }}
+          title={`${tokenMode === 'bundle' ? 'Per unit' : 'Random mix'}: ${Object.keys(tokenShares).map((id) => getToken(id)?.name || id).join(', ')}`}
+        >
+          {formatSourceTokens(data, (id) => getToken(id)?.emoji || '●')}
+        </div>
+      )}
       <div className="node-label">{data.label}</div>
       <div className="node-value">{formatResources(data.resources)}</div>
       {isExhausted && <div className="node-rate exhausted-label">⛔ exhausted</div>}
+      {(data.lastTriggered ?? 0) > 0 && <div className="node-rate">🔔 triggered ×{data.lastTriggered}</div>}
       {!isExhausted && maxProd !== -1 && (
         <div className="node-rate">{formatResources(totalProduced)}/{maxProd}</div>
       )}
@@ -108,8 +153,15 @@ export const SourceNode = memo(({ id, data, selected }: CustomNodeProps) => {
 });
 
 // Pool Node - stores resources (multi-token support)
-export const PoolNode = memo(({ data, selected }: CustomNodeProps) => {
+export const PoolNode = memo(({ id, data, selected }: CustomNodeProps) => {
   const getToken = useTokenStore((state) => state.getToken);
+  // Overflow output (bottom): shown for the overflow policy, or while connections still use it
+  const hasOverflowEdges = useSimulatorStore(
+    (state) => state.edges.some((e) => e.source === id && e.sourceHandle === OVERFLOW_HANDLE)
+  );
+  const showOverflowHandle = data.overflowPolicy === 'overflow' || hasOverflowEdges;
+  const lastBlocked = data.lastBlocked ?? 0;
+  const lastDiscarded = data.lastDiscarded ?? 0;
   const lastReceived = typeof data.lastReceived === 'number' ? data.lastReceived : 0;
   const lastSent = typeof data.lastSent === 'number' ? data.lastSent : 0;
   const delta = lastReceived - lastSent;
@@ -126,8 +178,8 @@ export const PoolNode = memo(({ data, selected }: CustomNodeProps) => {
     : data.resources;
   
   return (
-    <div className={`custom-node node-pool ${activeClass} ${selected ? 'selected' : ''}`}>
-      <Handle type="target" position={Position.Left} />
+    <div className={`custom-node node-pool ${activeClass} ${selected ? 'selected' : ''} ${data.deactivated ? 'deactivated' : ''}`}>
+      <Handle type="target" position={Position.Left} {...getPullHandleProps(data)} />
       <div className="node-label">{data.label}</div>
       
       {/* Show total resources prominently */}
@@ -160,23 +212,49 @@ export const PoolNode = memo(({ data, selected }: CustomNodeProps) => {
           Δ {delta >= 0 ? '+' : ''}{formatResources(delta)}/tick
         </div>
       )}
+      {(lastBlocked > 0 || lastDiscarded > 0) && (
+        <div className="node-rate pool-overflow">
+          {lastBlocked > 0 && `🚫 ${formatResources(lastBlocked)} `}
+          {lastDiscarded > 0 && `🗑️ ${formatResources(lastDiscarded)}`}
+        </div>
+      )}
       <Handle type="source" position={Position.Right} />
+      {showOverflowHandle && (
+        <Handle
+          type="source"
+          position={Position.Bottom}
+          id={OVERFLOW_HANDLE}
+          className="overflow-handle"
+          title="Overflow output"
+        />
+      )}
     </div>
   );
 });
 
 // Drain Node - consumes resources
 export const DrainNode = memo(({ data, selected }: CustomNodeProps) => {
+  const getToken = useTokenStore((state) => state.getToken);
   const lastConsumed = typeof data.lastConsumed === 'number' ? data.lastConsumed : 0;
   const activeClass = lastConsumed > 0 ? 'drain-active' : '';
+  const isDemand = data.drainMode === 'demand';
+  const demandedTokens = (data.demandTokens ?? []).map((tokenId) => getToken(tokenId)?.emoji || '●').join('');
+  const lastUnmet = data.lastUnmet ?? 0;
   return (
-    <div className={`custom-node node-drain ${activeClass} ${selected ? 'selected' : ''}`}>
-      <Handle type="target" position={Position.Left} />
+    <div className={`custom-node node-drain ${activeClass} ${selected ? 'selected' : ''} ${data.deactivated ? 'deactivated' : ''}`}>
+      <Handle type="target" position={Position.Left} {...getPullHandleProps(data)} />
       <div className="node-label">{data.label}</div>
       <div className="node-value">{formatResources(data.resources)}</div>
-      {lastConsumed > 0 && (
+      {isDemand ? (
+        <div className="node-rate">
+          🎯 {formatResources(lastConsumed)}/{formatResources(data.consumptionRate ?? 0)}{demandedTokens && ` ${demandedTokens}`}
+        </div>
+      ) : lastConsumed > 0 && (
         <div className="node-rate">-{formatResources(lastConsumed)}/tick</div>
       )}
+      {isDemand && lastUnmet > 0 && (
+        <div className="node-rate drain-unmet">⚠️ unmet {formatResources(lastUnmet)}</div>
+      )}
       <Handle type="source" position={Position.Right} />
     </div>
   );
@@ -188,23 +266,20 @@ export const ConverterNode = memo(({ data, selected }: CustomNodeProps) => {
   const mode = getMode(data);
   const lastConverted = typeof data.lastConverted === 'number' ? data.lastConverted : 0;
   const activeClass = lastConverted > 0 ? 'converter-active' : '';
-  const recipe = data.recipe;
+  const recipes = getConverterRecipes(data);
+  const lastExchange = data.scriptState?.lastExchange as ScriptExchange | undefined;
+  // Recipe being crafted (timed recipes) and its progress
+  const crafting = data.craftingRecipe !== undefined ? recipes[data.craftingRecipe] : undefined;
+  const craftingDuration = crafting ? getRecipeDuration(crafting) : 1;
+  const craftingProgress = Math.min(data.craftingProgress ?? 0, craftingDuration);
   
   // Build recipe display
   const renderRecipe = () => {
-    if (recipe && recipe.inputs.length > 0) {
-      // Multi-token recipe
-      const inputParts = recipe.inputs.map(({ tokenId, amount }) => {
-        const token = getToken(tokenId);
-        return `${amount}${token?.emoji || '●'}`;
-      }).join('+');
-      
-      const outputParts = recipe.outputs.map(({ tokenId, amount }) => {
-        const token = getToken(tokenId);
-        return `${amount}${token?.emoji || '●'}`;
-      }).join('+');
-      
-      return `${inputParts}→${outputParts}`;
+    if (recipes.length > 0) {
+      // Multi-token recipe (the one crafted or started last, and how many more there are)
+      const shown = recipes[data.craftingRecipe ?? data.lastRecipe ?? 0] ?? recipes[0];
+      const more = recipes.length > 1 ? ` (+${recipes.length - 1})` : '';
+      return `${formatRecipe(shown, (tokenId) => getToken(tokenId)?.emoji || '●')}${more}`;
     }
     
     // Legacy ratio display
@@ -212,18 +287,31 @@ export const ConverterNode = memo(({ data, selected }: CustomNodeProps) => {
   };
   
   return (
-    <div className={`custom-node node-converter ${activeClass} ${selected ? 'selected' : ''}`}>
+    <div className={`custom-node node-converter ${activeClass} ${selected ? 'selected' : ''} ${data.deactivated ? 'deactivated' : ''}`}>
       <Handle type="target" position={Position.Left} />
       <div className="node-label">{data.label}</div>
       <div className="node-value">{formatResources(data.resources)}</div>
       {mode === 'script' ? (
-        <div className="node-ratio">⚙️ 📜</div>
+        <div className="node-ratio">⚙️ 📜{lastExchange ? ` ${formatExchange(lastExchange, getToken)}` : ''}</div>
       ) : mode === 'formula' && data.formula ? (
         <div className="node-ratio">⚙️ f(x)→out</div>
       ) : (
         <div className="node-ratio">⚙️ {renderRecipe()}</div>
       )}
+      {crafting && (
+        <>
+          <div className="craft-progress">
+            <div className="craft-progress-fill" style={{ width: `${(craftingProgress / craftingDuration) * 100}%` }} />
+          </div>
+          <div className="node-rate">
+            🔨 {data.craftingOutput ? `waiting for room: ${formatTokenAmounts(data.craftingOutput, getToken)}` : `${craftingProgress}/${craftingDuration}`}
+          </div>
+        </>
+      )}
       {lastConverted > 0 && <div className="node-rate">→ +{formatResources(lastConverted)}/tick</div>}
+      {data.lastShortage && (
+        <div className="node-rate drain-unmet">⏳ needs {formatTokenAmounts(data.lastShortage, getToken)}</div>
+      )}
       <Handle type="source" position={Position.Right} />
     </div>
   );
@@ -231,18 +319,31 @@ export const ConverterNode = memo(({ data, selected }: CustomNodeProps) => {
 
 // Gate Node - controls flow with conditions
 export const GateNode = memo(({ data, selected }: CustomNodeProps) => {
-  const conditionLabel = data.gateCondition === 'always' 
-    ? '🚪 Open' 
-    : data.gateCondition === 'if_above' 
-      ? `🚪 >${data.gateThreshold}` 
-      : `🚪 <${data.gateThreshold}`;
+  const getToken = useTokenStore((state) => state.getToken);
+  // Full condition text (thresholds read from a register show the register name);
+  // computed in the selector so the node re-renders only when the text changes
+  const condition = useSimulatorStore((state) => formatGateCondition(
+    data,
+    (nodeId) => state.nodes.find((n) => n.id === nodeId)?.data.label,
+    (tokenId) => getToken(tokenId)?.emoji || tokenId
+  ));
+  const conditionLabel = `🚪 ${condition}`;
+  const distribution = data.gateDistribution ?? 'flow';
+  const distributionLabel = distribution === 'random_weight'
+    ? '🎲 Random (weights)'
+    : distribution === 'random_percent'
+      ? '🎲 Random (%)'
+      : distribution === 'deterministic'
+        ? '⚖️ Deterministic'
+        : null;
   
   return (
-    <div className={`custom-node node-gate ${selected ? 'selected' : ''}`}>
+    <div className={`custom-node node-gate ${selected ? 'selected' : ''} ${data.deactivated ? 'deactivated' : ''}`}>
       <Handle type="target" position={Position.Left} />
       <div className="node-label">{data.label}</div>
       <div className="node-value">{data.resources}</div>
       <div className="node-condition">{conditionLabel}</div>
+      {distributionLabel && <div className="node-rate">{distributionLabel}</div>}
       <Handle type="source" position={Position.Right} />
     </div>
   );
@@ -256,9 +357,13 @@ export const TraderNode = memo(({ data, selected }: CustomNodeProps) => {
   const inputB = data.traderInputB ?? 0;
   const lastSent = typeof data.lastSent === 'number' ? data.lastSent : 0;
   const activeClass = lastSent > 0 ? 'trader-active' : '';
+  const getToken = useTokenStore((state) => state.getToken);
+  // Ratio mode: the pairs traded and the side a waiting trade is short of
+  const ratios = hasTraderRatios(data) ? data.traderRatios ?? [] : [];
+  const shortSides = getShortSides(ratios, data.traderTypedA ?? {}, data.traderTypedB ?? {});
   
   return (
-    <div className={`custom-node node-trader ${activeClass} ${selected ? 'selected' : ''}`}>
+    <div className={`custom-node node-trader ${activeClass} ${selected ? 'selected' : ''} ${data.deactivated ? 'deactivated' : ''}`}>
       {/* Two input handles on the left - colored to match outputs */}
       <Handle 
         type="target" 
@@ -291,8 +396,17 @@ export const TraderNode = memo(({ data, selected }: CustomNodeProps) => {
         <span className="trader-separator">×</span>
         <span className="trader-buffer-b" title="Input B → Output A">{formatResources(inputB)}</span>
       </div>
+      {ratios.length > 0 && (
+        <div className="node-rate">{ratios.map((ratio) => formatTraderRatio(ratio, (id) => getToken(id)?.emoji || '●')).join(', ')}</div>
+      )}
       {lastSent > 0 && (
-        <div className="node-rate">exchanged {formatResources(lastSent)}/tick</div>
+        <div className="node-rate">
+          exchanged {formatResources(lastSent)}/tick
+          {ratios.length > 0 && ` (${data.lastTrades ?? 0} trade${data.lastTrades === 1 ? '' : 's'})`}
+        </div>
+      )}
+      {shortSides.length > 0 && (
+        <div className="node-rate">⏳ short on {shortSides.map((side) => side.toUpperCase()).join(' & ')}</div>
       )}
       
       {/* Two output handles on the right - colored to match inputs */}
@@ -338,7 +452,7 @@ export const DelayNode = memo(({ data, selected }: CustomNodeProps) => {
     : null;
   
   return (
-    <div className={`custom-node node-delay ${activeClass} ${selected ? 'selected' : ''}`}>
+    <div className={`custom-node node-delay ${activeClass} ${selected ? 'selected' : ''} ${data.deactivated ? 'deactivated' : ''}`}>
       <Handle type="target" position={Position.Left} />
       
       <div className="node-label">{data.label}</div>
@@ -383,6 +497,116 @@ export const DelayNode = memo(({ data, selected }: CustomNodeProps) => {
   );
 });
 
+// Register Node - named global value, evaluated every tick (no connections:
+// formulas, scripts, gates and connections read it by name)
+export const RegisterNode = memo(({ data, selected }: CustomNodeProps) => {
+  const mode = getMode(data);
+  const modePrefix =
+    mode === 'script'
+      ? '📜'
+      : mode === 'formula' && data.formula
+        ? '📐'
+        : '📊';
+
+  return (
+    <div className={`custom-node node-register ${selected ? 'selected' : ''} ${data.deactivated ? 'deactivated' : ''}`}>
+      <div className="node-label">{data.label}</div>
+      <div className="node-value">{formatResources(data.resources)}</div>
+      <div className="node-condition">{modePrefix} {data.registerName || '?'}</div>
+    </div>
+  );
+});
+
+// End Condition Node - stops the simulation when its condition is met
+// (a watched node's value against a threshold, or a formula)
+export const EndNode = memo(({ data, selected }: CustomNodeProps) => {
+  const getToken = useTokenStore((state) => state.getToken);
+  const watchedLabel = useSimulatorStore(
+    (state) => state.nodes.find((n) => n.id === data.endWatchNodeId)?.data.label
+  );
+  const mode = getMode(data);
+  const tokenId = data.endWatchToken || '';
+  const token = tokenId ? getToken(tokenId) : undefined;
+  const comparison = data.endComparison === 'at_most' ? '≤' : '≥';
+  const conditionLabel = mode === 'formula'
+    ? `📐 ${data.formula || '?'}`
+    : `${watchedLabel ?? '?'} ${tokenId ? token?.emoji || tokenId : ''} ${comparison} ${data.endThreshold ?? 0}`;
+  const isMet = data.endedAtTick !== undefined;
+
+  return (
+    <div className={`custom-node node-end ${isMet ? 'end-met' : ''} ${selected ? 'selected' : ''} ${data.deactivated ? 'deactivated' : ''}`}>
+      <div className="node-label">{data.label}</div>
+      <div className="node-condition">{conditionLabel}</div>
+      {isMet && <div className="node-rate">🏁 Met at tick {data.endedAtTick}</div>}
+    </div>
+  );
+});
+
+// Market Node - buys and sells a good at a price that moves with its stock
+// (orders arrive on the left, proceeds leave on the right)
+export const MarketNode = memo(({ data, selected }: CustomNodeProps) => {
+  const getToken = useTokenStore((state) => state.getToken);
+  const good = getToken(data.marketGood ?? '');
+  const currency = getToken(data.marketCurrency ?? '');
+  const { stock } = getMarketReserves(data);
+  // Before the first tick: a preview of the price at the initial reserves (unseeded random())
+  const price = data.marketPrice ?? getMarketPrice(data, { tick: 0, registers: {} });
+  const lastSold = data.lastSold ?? 0;
+  const lastBought = data.lastBought ?? 0;
+  const activeClass = lastSold > 0 || lastBought > 0 ? 'market-active' : '';
+  const curveLabel = data.marketCurve === 'formula' ? '📐' : 'x·y';
+
+  return (
+    <div className={`custom-node node-market ${activeClass} ${selected ? 'selected' : ''} ${data.deactivated ? 'deactivated' : ''}`}>
+      <Handle type="target" position={Position.Left} />
+      <div className="node-label">{data.label}</div>
+      <div className="node-value">
+        {formatResources(price)} {currency?.emoji || data.marketCurrency}
+      </div>
+      <div className="node-condition">
+        {curveLabel} {good?.emoji || data.marketGood} stock {formatResources(stock)}
+        {(data.marketFee ?? 0) > 0 ? ` · fee ${data.marketFee}%` : ''}
+      </div>
+      {(lastSold > 0 || lastBought > 0) && (
+        <div className="node-rate">
+          {lastSold > 0 && `sold ${lastSold} `}
+          {lastBought > 0 && `bought ${lastBought}`}
+        </div>
+      )}
+      {data.resources > 0 && <div className="node-rate">→ {formatResources(data.resources)} waiting</div>}
+      <Handle type="source" position={Position.Right} />
+    </div>
+  );
+});
+
+// Loot Table Node - rolls weighted drops for every unit that arrives or trigger
+// (drops leave on the right)
+export const LootNode = memo(({ data, selected }: CustomNodeProps) => {
+  const getToken = useTokenStore((state) => state.getToken);
+  const chances = getLootChances(data);
+  const table = (data.lootEntries ?? [])
+    .map((entry, index) => `${getToken(entry.tokenId)?.emoji || '●'}${entry.guaranteed ? '✓' : `${Number((chances[index] * 100).toFixed(1))}%`}`)
+    .join(' ');
+  const lastRolls = data.lastRolls ?? 0;
+  const activeClass = lastRolls > 0 ? 'loot-active' : '';
+
+  return (
+    <div className={`custom-node node-loot ${activeClass} ${selected ? 'selected' : ''} ${data.deactivated ? 'deactivated' : ''}`}>
+      <Handle type="target" position={Position.Left} />
+      <div className="node-label">{data.label}</div>
+      <div className="node-value">{formatResources(data.resources)}</div>
+      {table && <div className="node-condition">{table}</div>}
+      {lastRolls > 0 && (
+        <div className="node-rate">
+          🎲 {lastRolls}{data.lastDrops && Object.keys(data.lastDrops).length > 0 ? ` → ${formatTokenAmounts(data.lastDrops, getToken)}` : ''}
+        </div>
+      )}
+      {(data.lastTriggered ?? 0) > 0 && <div className="node-rate">🔔 triggered ×{data.lastTriggered}</div>}
+      <Handle type="source" position={Position.Right} />
+    </div>
+  );
+});
+
 // Export all node types for React Flow
 export const nodeTypes = {
   source: SourceNode,
@@ -392,4 +616,8 @@ export const nodeTypes = {
   gate: GateNode,
   trader: TraderNode,
   delay: DelayNode,
+  register: RegisterNode,
+  end: EndNode,
+  market: MarketNode,
+  loot: LootNode,
 };
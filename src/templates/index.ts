@@ -120,30 +120,41 @@ const lootSystemTemplate: GameTemplate = {
   id: 'loot-system',
   name: 'Loot System',
   icon: '🗡️',
-  description: 'Enemy drops gold into player inventory',
+  description: 'Each defeated enemy rolls a loot table into the player inventory',
   nodes: [
     {
       id: 'enemy',
       type: 'source',
       position: { x: 100, y: 150 },
-      data: createNodeData('Enemy Drops', 'source', { productionRate: 5 }),
+      data: createNodeData('Enemies Defeated', 'source', { productionRate: 1 }),
     },
     {
       id: 'loot',
-      type: 'pool',
+      type: 'loot',
       position: { x: 350, y: 150 },
-      data: createNodeData('Loot Pool', 'pool', { resources: 0, capacity: 100 }),
+      data: createNodeData('Enemy Loot', 'loot', {
+        // Always 1 XP; then gold, a potion, a gem or (at the latest every 50 kills) a relic
+        lootEntries: [
+          { tokenId: 'black', amount: 1, weight: 0, tier: 'common', guaranteed: true },
+          { tokenId: 'orange', amount: 5, weight: 80, tier: 'common' },
+          { tokenId: 'green', amount: 1, weight: 15, tier: 'uncommon' },
+          { tokenId: 'blue', amount: 1, weight: 4, tier: 'rare' },
+          { tokenId: 'red', amount: 1, weight: 1, tier: 'legendary' },
+        ],
+        lootNothingWeight: 0,
+        lootPity: { legendary: 50 },
+      }),
     },
     {
       id: 'inventory',
       type: 'pool',
       position: { x: 600, y: 150 },
-      data: createNodeData('Player Inventory', 'pool', { resources: 50, capacity: 500 }),
+      data: createNodeData('Player Inventory', 'pool', { resources: 50, tokenType: 'orange', capacity: 500 }),
     },
   ],
   edges: [
-    createEdge('e1', 'enemy', 'loot', 5),
-    createEdge('e2', 'loot', 'inventory', 3),
+    createEdge('e1', 'enemy', 'loot', 1),
+    createEdge('e2', 'loot', 'inventory', 10),
   ],
 };
 
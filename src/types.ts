@@ -1,5 +1,5 @@
 // Node types
-export type NodeType = 'source' | 'pool' | 'drain' | 'converter' | 'gate' | 'trader' | 'delay';
+export type NodeType = 'source' | 'pool' | 'drain' | 'converter' | 'gate' | 'trader' | 'delay' | 'register' | 'end' | 'market' | 'loot';
 
 // Processing mode: fixed rate, formula expression, or full script
 export type ProcessingMode = 'fixed' | 'formula' | 'script';
@@ -15,6 +15,61 @@ export type DelayMode = 'delay' | 'queue';
 // discrete: atomic resources (items, cards) - round robin
 export type DistributionMode = 'continuous' | 'discrete';
 
+// Drain mode: passive (consumes whatever arrives) or demand (takes up to consumptionRate per tick)
+export type DrainMode = 'passive' | 'demand';
+
+// Connection mode of pools and drains:
+// push: inputs push resources along their connections (default)
+// pull_any: the node pulls up to each input connection's flow rate, whatever is available
+// pull_all: the node pulls only if every input connection can deliver its full flow rate
+export type PullMode = 'push' | 'pull_any' | 'pull_all';
+
+// Pool overflow policy: what happens to resources that don't fit in a full pool
+// block: the connection is held back and the excess stays upstream (counted as blocked)
+// discard: the pool accepts everything and destroys the excess (counted as discarded)
+// overflow: the excess leaves through the overflow output; what doesn't fit there is discarded
+export type OverflowPolicy = 'block' | 'discard' | 'overflow';
+
+// Market price curve (see utils/market.ts):
+// constant_product: stock × funds stays constant (price = funds / stock)
+// formula: the unit price is a formula of the stock
+export type MarketCurve = 'constant_product' | 'formula';
+
+// Loot rarity tiers, from the most common to the rarest (see utils/loot.ts)
+export type LootTier = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
+
+/**
+ * Loot table entry: amount of a token dropped when the entry is rolled.
+ * Guaranteed entries drop on every roll; the others are picked by weight.
+ *
+ * Example: 1 gem, weight 5, rare
+ * { tokenId: 'gem', amount: 1, weight: 5, tier: 'rare' }
+ */
+export interface LootEntry {
+  tokenId: string;
+  amount: number;
+  weight: number;
+  tier: LootTier;
+  guaranteed?: boolean;
+}
+
+// What a Source produces per unit of production (see utils/sourceTokens.ts)
+export type SourceTokenMode = 'single' | 'bundle' | 'mix';
+
+/**
+ * Source token entry: amount produced per unit (bundle) or weight of the token (mix).
+ *
+ * Example: 10 gold + 1 gem per unit
+ * [{ tokenId: 'gold', amount: 10 }, { tokenId: 'gem', amount: 1 }]
+ */
+export interface SourceTokenEntry {
+  tokenId: string;
+  amount: number;
+}
+
+// Source handle id of the pool overflow output
+export const OVERFLOW_HANDLE = 'overflow';
+
 // ============================================================================
 // TOKEN TYPES - Resource types that flow through the system
 // ============================================================================
@@ -50,17 +105,72 @@ export type TypedResources = Record<string, number>;
 /**
  * Converter recipe: defines input requirements and output production.
  * 
- * Example: 2 Iron + 3 Wood → 1 Sword
+ * Example: 2 Iron + 3 Wood → 1 Sword, taking 3 ticks at an anvil
  * {
  *   inputs: [{ tokenId: 'iron', amount: 2 }, { tokenId: 'wood', amount: 3 }],
- *   outputs: [{ tokenId: 'sword', amount: 1 }]
+ *   outputs: [{ tokenId: 'sword', amount: 1 }],
+ *   catalysts: [{ tokenId: 'anvil', amount: 1 }],
+ *   duration: 3
  * }
  */
 export interface ConverterRecipe {
   inputs: Array<{ tokenId: string; amount: number }>;
   outputs: Array<{ tokenId: string; amount: number }>;
+  // Held to craft but not consumed
+  catalysts?: Array<{ tokenId: string; amount: number }>;
+  // Ticks per craft (default 1: converts as often as the inputs allow, every tick)
+  duration?: number;
+}
+
+/**
+ * Which recipe an idle converter starts (see utils/recipes.ts)
+ */
+export type RecipeSelection = 'priority' | 'round_robin' | 'random';
+
+/**
+ * Trader exchange ratio: amountA of tokenA from input A trade for amountB of tokenB
+ * from input B (see utils/traderRatios.ts).
+ *
+ * Example: 3 wood ⇄ 1 gold
+ * { tokenA: 'wood', amountA: 3, tokenB: 'gold', amountB: 1 }
+ */
+export interface TraderRatio {
+  tokenA: string;
+  amountA: number;
+  tokenB: string;
+  amountB: number;
+}
+
+// ============================================================================
+// GATE CONDITIONS
+// ============================================================================
+
+export type GateCondition = 'always' | 'if_above' | 'if_below' | 'compound';
+
+export type GateLogic = 'and' | 'or';
+
+// above: >, below: <, at_least: >=, at_most: <=, equal: ==
+export type GateComparison = 'above' | 'below' | 'at_least' | 'at_most' | 'equal';
+
+// One clause of a compound gate condition, e.g. "Wallet gold >= 50"
+export interface GateClause {
+  // Node whose value is checked (undefined = the gate itself)
+  nodeId?: string;
+  // Token type checked ('' or undefined = total resources)
+  tokenId?: string;
+  comparison: GateComparison;
+  threshold: number;
+  // Read the threshold from a register (by name) instead
+  thresholdRegister?: string;
 }
 
+// Gate output distribution:
+// flow: every output gets up to its flow rate (see DistributionMode)
+// random_weight: each resource goes to one output at random, proportionally to the output weights
+// random_percent: each resource goes to output i with a weight_i % chance (the rest of 100% is discarded)
+// deterministic: resources are dealt to the outputs in the ratio of their weights
+export type GateDistribution = 'flow' | 'random_weight' | 'random_percent' | 'deterministic';
+
 // Node data stored in React Flow nodes
 export interface NodeData extends Record<string, unknown> {
   label: string;
@@ -76,8 +186,18 @@ export interface NodeData extends Record<string, unknown> {
   // Probability (0-100) - chance of activation per tick
   probability: number;
   // Gate specific - condition for flow
-  gateCondition: 'always' | 'if_above' | 'if_below';
+  // 'compound': gateClauses combined with gateLogic
+  gateCondition: GateCondition;
   gateThreshold: number;    // threshold for condition
+  // Gate: read the threshold from a register (by name) instead of gateThreshold
+  gateThresholdRegister?: string;
+  // Gate (compound): clauses, combined with AND (default) or OR
+  gateClauses?: GateClause[];
+  gateLogic?: GateLogic;
+  // Gate: how resources are split between the outputs (weights are on the connections)
+  gateDistribution?: GateDistribution;
+  // Gate (deterministic): resources dealt to each output so far, by edge id
+  gateDistributionCounts?: Record<string, number>;
   // Processing mode
   processingMode: ProcessingMode;
   // Source activation mode
@@ -103,10 +223,34 @@ export interface NodeData extends Record<string, unknown> {
   lastProduced?: number;
   // Pool: received in the last tick (for UI feedback)
   lastReceived?: number;
+  // Pool/Drain: push (default) or pull from the input connections
+  pullMode?: PullMode;
+  // Drain: passive (default) or demand. Demand drains take up to consumptionRate per tick,
+  // only the demandTokens types if set (undefined/empty = any type)
+  drainMode?: DrainMode;
+  demandTokens?: string[];
+  // Drain (demand): demand not met in the last tick and in total
+  lastUnmet?: number;
+  totalUnmet?: number;
+  // Pool: overflow policy (default block) and blocked/discarded amounts (last tick and total);
+  // random percentage gates count their "no output" rolls as discarded
+  overflowPolicy?: OverflowPolicy;
+  lastBlocked?: number;
+  lastDiscarded?: number;
+  totalBlocked?: number;
+  totalDiscarded?: number;
   // Converter: output in the last tick (for UI feedback)
   lastConverted?: number;
+  // Converter (script): tokens missing for the last tick's { consume, produce } result
+  lastShortage?: TypedResources;
   // Generic: sent out in the last tick (for UI feedback)
   lastSent?: number;
+  // Generic: properties changed by state connections in the last tick (effective values)
+  modifiedValues?: Partial<Record<ModifierTarget, number>>;
+  // Generic: disabled by an activator connection in the last tick
+  deactivated?: boolean;
+  // Source: fired by trigger connections in the last tick
+  lastTriggered?: number;
   
   // ============================================================================
   // TOKEN SYSTEM - Multi-resource type support
@@ -114,6 +258,10 @@ export interface NodeData extends Record<string, unknown> {
   
   // Source: type of token this source produces (e.g., "black", "gold")
   tokenType: string;
+  // Source: single token type, a bundle of tokens per unit or a random mix (undefined = single)
+  sourceTokenMode?: SourceTokenMode;
+  // Source (bundle/mix): tokens with their amount per unit or weight
+  sourceTokens?: SourceTokenEntry[];
   
   // Pool/Drain/Converter: typed resources map (tokenId → quantity)
   // Example: { black: 10, gold: 5, sword: 2 }
@@ -122,6 +270,15 @@ export interface NodeData extends Record<string, unknown> {
   // Converter: recipe for multi-token conversion
   // Example: 2 iron + 3 wood → 1 sword
   recipe?: ConverterRecipe;
+  // Converter: several recipes (replaces recipe) and how one is picked
+  recipes?: ConverterRecipe[];
+  recipeSelection?: RecipeSelection;
+  // Converter: recipe being crafted (index), ticks done and finished outputs waiting for room
+  craftingRecipe?: number;
+  craftingProgress?: number;
+  craftingOutput?: TypedResources;
+  // Converter: recipe started last (round robin)
+  lastRecipe?: number;
   
   // ============================================================================
   // TRADER - Cross-exchange node
@@ -131,10 +288,14 @@ export interface NodeData extends Record<string, unknown> {
   traderInputA?: number;
   // Trader: accumulated resources from input B (bottom handle)
   traderInputB?: number;
-  // Trader: typed resources from input A
+  // Trader: typed resources waiting on input A (ratio mode: leftovers that don't make a trade)
   traderTypedA?: TypedResources;
-  // Trader: typed resources from input B  
+  // Trader: typed resources waiting on input B
   traderTypedB?: TypedResources;
+  // Trader: exchange ratios, tried in order (undefined/empty = swap everything one-for-one)
+  traderRatios?: TraderRatio[];
+  // Trader (ratios): trades made in the last tick
+  lastTrades?: number;
   
   // ============================================================================
   // DELAY/QUEUE - Time-based resource processing
@@ -152,8 +313,136 @@ export interface NodeData extends Record<string, unknown> {
   lastOutput?: number;
   // Calculated delay (when using formula/script) for display
   calculatedDelay?: number;
+
+  // ============================================================================
+  // REGISTER - Named global value
+  // ============================================================================
+
+  // Register: identifier used to read the value in formulas and scripts
+  registerName?: string;
+  // Register: value in fixed mode and at tick 0 (the current value is stored in resources)
+  initialValue?: number;
+
+  // ============================================================================
+  // END CONDITION - Stops the simulation when met
+  // ============================================================================
+
+  // Fixed mode compares a node's value with endThreshold; formula mode fires when
+  // the formula is true (non-zero). resources/capacity/tokens refer to the watched node.
+  // Watched node id
+  endWatchNodeId?: string;
+  // Watched token type ('' or undefined = total resources)
+  endWatchToken?: string;
+  endComparison?: EndComparison;
+  endThreshold?: number;
+  // Tick at which the condition was met (runtime; fires once per run)
+  endedAtTick?: number;
+
+  // ============================================================================
+  // MARKET - Buys and sells a good at a price that moves with its stock
+  // ============================================================================
+
+  // Market: traded good and the currency it is priced in (token ids)
+  marketGood?: string;
+  marketCurrency?: string;
+  // Market: price curve (the formula curve uses `formula`) and fee per trade (%)
+  marketCurve?: MarketCurve;
+  marketFee?: number;
+  // Market: reserves at tick 0 (funds are only used by the constant product curve)
+  marketInitialStock?: number;
+  marketInitialFunds?: number;
+  // Market: current reserves (runtime; undefined = the initial reserves)
+  marketStock?: number;
+  marketFunds?: number;
+  // Market: unit price at the end of the last tick, goods sold/bought in it, fees taken so far
+  marketPrice?: number;
+  lastSold?: number;
+  lastBought?: number;
+  totalFees?: number;
+
+  // ============================================================================
+  // LOOT TABLE - Weighted random drops with rarity tiers and pity
+  // ============================================================================
+
+  // Loot: entries, tried by weight (guaranteed ones drop on every roll)
+  lootEntries?: LootEntry[];
+  // Loot: weight of rolling nothing
+  lootNothingWeight?: number;
+  // Loot: rolls in a row without a tier (or better) before it is forced (0/undefined = no pity)
+  lootPity?: Partial<Record<LootTier, number>>;
+  // Loot: rolls since the last drop of each tier with pity (runtime)
+  lootPityCounters?: Partial<Record<LootTier, number>>;
+  // Loot: rolls and entries dropped by tier so far, rolls and drops in the last tick (runtime)
+  lootTotalRolls?: number;
+  lootTierDrops?: Partial<Record<LootTier, number>>;
+  lastRolls?: number;
+  lastDrops?: TypedResources;
+}
+
+// End condition comparison: value >= threshold or value <= threshold
+export type EndComparison = 'at_least' | 'at_most';
+
+// Connection flow rate mode: node processing modes plus random notation (D6, 1-3, 50%)
+export type FlowRateMode = ProcessingMode | 'random';
+
+// Connection kind: resource connections carry resources, the others (drawn dashed) don't:
+// state connections modify a property of their target node (see utils/modifiers.ts),
+// triggers fire their target, activators enable it while a condition holds (see utils/edgeKinds.ts)
+export type EdgeKind = 'resource' | 'state' | 'trigger' | 'activator';
+
+// Node properties a state connection can modify (flowRate = the target's outgoing connections)
+export type ModifierTarget = 'productionRate' | 'capacity' | 'flowRate' | 'probability' | 'gateThreshold';
+
+// Edge data stored in React Flow edges
+export interface EdgeData extends Record<string, unknown> {
+  flowRate: number;
+  // Token types this connection carries (undefined/empty = all types)
+  tokenFilter?: string[];
+  // Flow rate mode: fixed uses flowRate, formula/script are evaluated and
+  // random notation is rolled every tick (flowRate is the fallback when they fail)
+  flowMode?: FlowRateMode;
+  flowFormula?: string;
+  flowScript?: string;
+  // Random notation, see utils/flowNotation.ts
+  flowNotation?: string;
+  // Persistent script state (same as NodeData.scriptState)
+  scriptState?: Record<string, unknown>;
+  // Flow rate evaluated/rolled on the last tick, shown on the label
+  lastFlowRate?: number;
+  // Gate output weight (percentage for random_percent gates), default 1
+  weight?: number;
+  // Connection kind (default resource)
+  edgeKind?: EdgeKind;
+  // State connection: modifier text ("+1", "*0.5", "+10%") and the target property
+  modifier?: string;
+  modifierTarget?: ModifierTarget;
+  // Activator: condition on the origin's total (or one token), default > 0
+  activatorComparison?: GateComparison;
+  activatorThreshold?: number;
+  activatorTokenId?: string;
+}
+
+// ============================================================================
+// PROJECT SETTINGS - Simulation-wide options saved with the project
+// ============================================================================
+
+// Propagation mode: how far resources travel in one tick
+// snapshot: every node works on the start-of-tick state (one hop per tick)
+// topological: nodes are processed upstream-first, so resources cross a whole acyclic chain in one tick
+export type PropagationMode = 'snapshot' | 'topological';
+
+export interface ProjectSettings {
+  // Seed for all simulation randomness (same seed = identical run)
+  seed: number;
+  // Tick semantics (default: snapshot)
+  propagationMode: PropagationMode;
 }
 
+export const defaultProjectSettings: ProjectSettings = {
+  seed: 1,
+  propagationMode: 'snapshot',
+};
+
 // Default values for each node type
 export const nodeDefaults: Record<NodeType, Partial<NodeData>> = {
   source: {
@@ -338,6 +627,128 @@ export const nodeDefaults: Record<NodeType, Partial<NodeData>> = {
     delayProcessing: 0,
     lastOutput: 0,
   },
+  register: {
+    resources: 0,
+    capacity: -1,
+    productionRate: 0,
+    consumptionRate: 0,
+    isActive: true,
+    inputRatio: 1,
+    outputRatio: 1,
+    probability: 100,
+    gateCondition: 'always',
+    gateThreshold: 0,
+    processingMode: 'fixed',
+    formula: '',
+    useFormula: false,
+    script: '',
+    scriptState: {},
+    distributionMode: 'continuous',
+    lastDistributionIndex: 0,
+    maxProduction: -1,
+    totalProduced: 0,
+    lastSent: 0,
+    // Token system
+    tokenType: 'black',
+    typedResources: {},
+    // Register specific
+    registerName: 'value',
+    initialValue: 0,
+  },
+  end: {
+    resources: 0,
+    capacity: -1,
+    productionRate: 0,
+    consumptionRate: 0,
+    isActive: true,
+    inputRatio: 1,
+    outputRatio: 1,
+    probability: 100,
+    gateCondition: 'always',
+    gateThreshold: 0,
+    processingMode: 'fixed',
+    formula: '',
+    useFormula: false,
+    script: '',
+    scriptState: {},
+    distributionMode: 'continuous',
+    lastDistributionIndex: 0,
+    maxProduction: -1,
+    totalProduced: 0,
+    lastSent: 0,
+    // Token system
+    tokenType: 'black',
+    typedResources: {},
+    // End condition specific
+    endWatchToken: '',
+    endComparison: 'at_least',
+    endThreshold: 100,
+  },
+  market: {
+    resources: 0,
+    capacity: -1,
+    productionRate: 0,
+    consumptionRate: 0,
+    isActive: true,
+    inputRatio: 1,
+    outputRatio: 1,
+    probability: 100,
+    gateCondition: 'always',
+    gateThreshold: 0,
+    processingMode: 'fixed',
+    formula: '',
+    useFormula: false,
+    script: '',
+    scriptState: {},
+    distributionMode: 'continuous',
+    lastDistributionIndex: 0,
+    maxProduction: -1,
+    totalProduced: 0,
+    lastSent: 0,
+    // Token system
+    tokenType: 'black',
+    typedResources: {},
+    // Market specific
+    marketGood: 'blue',
+    marketCurrency: 'orange',
+    marketCurve: 'constant_product',
+    marketFee: 5,
+    marketInitialStock: 100,
+    marketInitialFunds: 1000,
+  },
+  loot: {
+    resources: 0,
+    capacity: -1,
+    productionRate: 0,
+    consumptionRate: 0,
+    isActive: true,
+    inputRatio: 1,
+    outputRatio: 1,
+    probability: 100,
+    gateCondition: 'always',
+    gateThreshold: 0,
+    processingMode: 'fixed',
+    formula: '',
+    useFormula: false,
+    script: '',
+    scriptState: {},
+    distributionMode: 'continuous',
+    lastDistributionIndex: 0,
+    maxProduction: -1,
+    totalProduced: 0,
+    lastSent: 0,
+    // Token system
+    tokenType: 'black',
+    typedResources: {},
+    // Loot table specific
+    lootEntries: [
+      { tokenId: 'black', amount: 2, weight: 70, tier: 'common' },
+      { tokenId: 'green', amount: 1, weight: 22, tier: 'uncommon' },
+      { tokenId: 'blue', amount: 1, weight: 7, tier: 'rare' },
+      { tokenId: 'red', amount: 1, weight: 1, tier: 'legendary' },
+    ],
+    lootNothingWeight: 0,
+  },
 };
 
 // Node visual config
@@ -349,4 +760,8 @@ export const nodeConfig: Record<NodeType, { icon: string; label: string }> = {
   gate: { icon: '🚪', label: 'Gate' },
   trader: { icon: '⇄', label: 'Trader' },
   delay: { icon: '⏱️', label: 'Delay' },
+  register: { icon: '🔢', label: 'Register' },
+  end: { icon: '🏁', label: 'End Condition' },
+  market: { icon: '🏪', label: 'Market' },
+  loot: { icon: '🎁', label: 'Loot Table' },
 };
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createActivatorData, isActivatorMet } from './edgeKinds';
+import { createEdge, createNode, run, stock } from '../engine/testUtils';
+
+describe('isActivatorMet', () => {
+  it('defaults to "the origin has resources"', () => {
+    expect(isActivatorMet(createActivatorData(), 0)).toBe(false);
+    expect(isActivatorMet(createActivatorData(), 1)).toBe(true);
+  });
+
+  it('compares with the threshold', () => {
+    const data = { ...createActivatorData(), activatorComparison: 'below' as const, activatorThreshold: 5 };
+    expect(isActivatorMet(data, 4)).toBe(true);
+    expect(isActivatorMet(data, 5)).toBe(false);
+  });
+});
+
+describe('trigger connections', () => {
+  // The boss pool feeds a drain; every consumption fires the manual loot source
+  const runBoss = (boss: number, ticks: number) => run(
+    [
+      createNode('boss', 'pool', stock({ black: boss })),
+      createNode('drain', 'drain'),
+      createNode('loot', 'source', { activationMode: 'manual', productionRate: 2 }),
+    ],
+    [createEdge('e1', 'boss', 'drain'), createEdge('trigger', 'drain', 'loot', { edgeKind: 'trigger' })],
+    ticks
+  );
+
+  it('fire the target when the origin moved resources', () => {
+    const result = runBoss(1, 1);
+    expect(result.loot.resources).toBe(2);
+    expect(result.loot.lastTriggered).toBe(1);
+  });
+
+  it('fire once per tick in which the origin moved resources', () => {
+    const result = runBoss(2, 4);
+    expect(result.loot.totalProduced).toBe(4);
+    expect(result.loot.lastTriggered).toBeUndefined();
+  });
+});
+
+describe('activator connections', () => {
+  // The key pool activates the source feeding the vault
+  const runVault = (keys: number, data = createActivatorData()) => run(
+    [
+      createNode('key', 'pool', stock({ black: keys })),
+      createNode('source', 'source'),
+      createNode('vault', 'pool'),
+    ],
+    [createEdge('e1', 'source', 'vault'), createEdge('activator', 'key', 'source', data)],
+    3
+  );
+
+  it('let the target run while the condition holds', () => {
+    expect(runVault(1).vault.resources).toBe(3);
+  });
+
+  it('disable the target while it does not', () => {
+    const result = runVault(0);
+    expect(result.vault.resources).toBe(0);
+    expect(result.source.deactivated).toBe(true);
+    expect(result.source.isActive).toBe(true);
+  });
+
+  it('read a single token when one is set', () => {
+    expect(runVault(1, { ...createActivatorData(), activatorTokenId: 'red' }).vault.resources).toBe(0);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Connection kinds.
+ *
+ * - resource: carries resources (default)
+ * - state: modifies a property of the target (see utils/modifiers.ts)
+ * - trigger: fires the target Source (one production, like a click on a
+ *   manual source) at the end of every tick in which the origin moved
+ *   resources (sent, received, consumed or converted)
+ * - activator: the target is active only while a condition on the origin's
+ *   value holds (every activator of a node must hold)
+ *
+ * The engine evaluates them in stepSimulation; this module holds the
+ * per-kind rules and texts.
+ */
+
+import { EdgeData, EdgeKind, GateComparison, NodeData, NodeType } from '../types';
+import { GATE_COMPARISON_SYMBOLS, compareGateValue } from './gateConditions';
+
+export const EDGE_KIND_LABELS: Record<EdgeKind, string> = {
+  resource: '🔗 Resource',
+  state: '⚡ State (modifier)',
+  trigger: '🔔 Trigger',
+  activator: '🔌 Activator',
+};
+
+export function getEdgeKind(data: EdgeData | undefined): EdgeKind {
+  return data?.edgeKind ?? 'resource';
+}
+
+export function isResourceEdge(data: EdgeData | undefined): boolean {
+  return getEdgeKind(data) === 'resource';
+}
+
+/**
+ * Node types a trigger can fire.
+ */
+export function canBeTriggered(nodeType: NodeType): boolean {
+  return nodeType === 'source' || nodeType === 'loot';
+}
+
+/**
+ * Whether a node moved resources in the last tick (fires its trigger connections).
+ */
+export function hasMovedResources(data: NodeData): boolean {
+  return (data.lastSent ?? 0) > 0
+    || (data.lastReceived ?? 0) > 0
+    || (data.lastConsumed ?? 0) > 0
+    || (data.lastConverted ?? 0) > 0;
+}
+
+/**
+ * Default condition of a new activator: the origin has resources (> 0).
+ */
+export function createActivatorData(): EdgeData {
+  return { flowRate: 1, edgeKind: 'activator', activatorComparison: 'above', activatorThreshold: 0 };
+}
+
+/**
+ * Whether an activator condition holds for the origin's value.
+ */
+export function isActivatorMet(data: EdgeData | undefined, value: number): boolean {
+  const comparison: GateComparison = data?.activatorComparison ?? 'above';
+  return compareGateValue(value, comparison, data?.activatorThreshold ?? 0);
+}
+
+/**
+ * Label of an activator, e.g. "🔌 🪙 ≥ 5".
+ *
+ * @param getTokenLabel Short label of a token (e.g. its emoji)
+ */
+export function formatActivatorLabel(data: EdgeData | undefined, getTokenLabel: (tokenId: string) => string): string {
+  const token = data?.activatorTokenId ? `${getTokenLabel(data.activatorTokenId)} ` : '';
+  const comparison = GATE_COMPARISON_SYMBOLS[data?.activatorComparison ?? 'above'];
+  return `🔌 ${token}${comparison} ${data?.activatorThreshold ?? 0}`;
+}
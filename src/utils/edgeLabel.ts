@@ -0,0 +1,83 @@
+/**
+ * Edge label text shown on the canvas.
+ *
+ * Shows the flow rate, prefixed by the emoji of the token types the
+ * connection is filtered to (e.g. "🪙 3"). Formula/script rates show the
+ * value evaluated on the last tick (e.g. "📐 4"), random rates the notation
+ * and the last roll (e.g. "🎲 2D4+1 → 6"). Outputs of weighted gates add
+ * their weight (e.g. "3 ⚖️ 25"). State connections show their modifier
+ * (e.g. "⚡ +1 rate"), activators their condition (e.g. "🔌 ≥ 5"), triggers
+ * a bell; all three are drawn dashed.
+ */
+
+import type { CSSProperties } from 'react';
+import { EdgeData, EdgeKind, TokenDefinition } from '../types';
+import { parseFlowNotation, formatFlowNotation } from './flowNotation';
+import { formatModifierLabel } from './modifiers';
+import { formatActivatorLabel, getEdgeKind } from './edgeKinds';
+
+const formatNotation = (text: string): string => {
+  try {
+    return formatFlowNotation(parseFlowNotation(text));
+  } catch {
+    return text.trim() || '?';
+  }
+};
+
+const formatFlowRate = (data: EdgeData | undefined): string => {
+  const mode = data?.flowMode ?? 'fixed';
+  if (mode === 'fixed') return (data?.flowRate ?? 1).toString();
+
+  if (mode === 'random') {
+    const notation = `🎲 ${formatNotation(data?.flowNotation ?? '')}`;
+    return data?.lastFlowRate === undefined ? notation : `${notation} → ${data.lastFlowRate}`;
+  }
+
+  const icon = mode === 'formula' ? '📐' : '📜';
+  const value = data?.lastFlowRate;
+  // Not evaluated yet
+  if (value === undefined) return mode === 'formula' ? `${icon} f(x)` : `${icon} script`;
+  return `${icon} ${Number(value.toFixed(2))}`;
+};
+
+export function formatEdgeLabel(
+  data: EdgeData | undefined,
+  getToken: (id: string) => TokenDefinition | undefined
+): string {
+  const kind = getEdgeKind(data);
+  if (kind === 'state') return formatModifierLabel(data);
+  if (kind === 'trigger') return '🔔';
+  if (kind === 'activator') return formatActivatorLabel(data, (id) => getToken(id)?.emoji || '●');
+  const weight = data?.weight;
+  const flowRate = weight === undefined ? formatFlowRate(data) : `${formatFlowRate(data)} ⚖️ ${weight}`;
+  const filter = data?.tokenFilter;
+  if (!filter || filter.length === 0) return flowRate;
+
+  const emojis = filter.map((id) => getToken(id)?.emoji || '●').join('');
+  return `${emojis} ${flowRate}`;
+}
+
+// Color and dash pattern of the connections that don't carry resources
+const NON_RESOURCE_STYLES: Record<Exclude<EdgeKind, 'resource'>, CSSProperties> = {
+  state: { stroke: '#38bdf8', strokeDasharray: '6 4' },
+  trigger: { stroke: '#fbbf24', strokeDasharray: '2 4' },
+  activator: { stroke: '#4ade80', strokeDasharray: '10 4 2 4' },
+};
+
+/**
+ * Canvas style of a connection: resource connections are solid and animated,
+ * state, trigger and activator connections dashed in their own color.
+ */
+export function getEdgeStyle(data: EdgeData | undefined): { animated: boolean; style: CSSProperties } {
+  const kind = getEdgeKind(data);
+  if (kind === 'resource') return { animated: true, style: { stroke: '#e94560', strokeWidth: 2 } };
+  return { animated: false, style: { ...NON_RESOURCE_STYLES[kind], strokeWidth: 2 } };
+}
+
+/**
+ * Label background of a connection (the stroke color for non-resource kinds).
+ */
+export function getEdgeLabelColor(data: EdgeData | undefined): string {
+  const kind = getEdgeKind(data);
+  return kind === 'resource' ? '#e94560' : String(NON_RESOURCE_STYLES[kind].stroke);
+}
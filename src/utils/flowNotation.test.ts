@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { formatFlowNotation, parseFlowNotation, rollFlowNotation, validateFlowNotation } from './flowNotation';
+import { createEdge, createNode, run, stock } from '../engine/testUtils';
+
+// A generator that returns the given values in turn
+const sequence = (...values: number[]) => {
+  let i = 0;
+  return () => values[i++ % values.length];
+};
+
+describe('parseFlowNotation', () => {
+  it('reads dice, ranges and chances', () => {
+    expect(parseFlowNotation('D6')).toEqual({ kind: 'dice', count: 1, sides: 6, modifier: 0 });
+    expect(parseFlowNotation('2d4 - 1')).toEqual({ kind: 'dice', count: 2, sides: 4, modifier: -1 });
+    expect(parseFlowNotation('1-3')).toEqual({ kind: 'range', min: 1, max: 3 });
+    expect(parseFlowNotation('12.5%')).toEqual({ kind: 'chance', percent: 12.5 });
+  });
+
+  it('rejects invalid notations', () => {
+    expect(validateFlowNotation('')).not.toBeNull();
+    expect(validateFlowNotation('3-1')).toMatch(/minimum/);
+    expect(validateFlowNotation('150%')).toMatch(/between/);
+    expect(validateFlowNotation('1000D6')).toMatch(/Number of dice/);
+    expect(validateFlowNotation('abc')).toMatch(/Unknown notation/);
+  });
+
+  it('formats the canonical text', () => {
+    expect(formatFlowNotation(parseFlowNotation('2d4 + 1'))).toBe('2D4+1');
+    expect(formatFlowNotation(parseFlowNotation('1d6'))).toBe('D6');
+  });
+});
+
+describe('rollFlowNotation', () => {
+  it('sums the dice and the modifier', () => {
+    // Lowest and highest face
+    expect(rollFlowNotation(parseFlowNotation('2D6+1'), sequence(0, 0.999))).toBe(1 + 6 + 1);
+  });
+
+  it('never rolls below 0', () => {
+    expect(rollFlowNotation(parseFlowNotation('D4-5'), sequence(0.999))).toBe(0);
+  });
+
+  it('rolls ranges inclusively', () => {
+    expect(rollFlowNotation(parseFlowNotation('1-3'), sequence(0))).toBe(1);
+    expect(rollFlowNotation(parseFlowNotation('1-3'), sequence(0.999))).toBe(3);
+  });
+
+  it('rolls a chance as 1 or 0', () => {
+    expect(rollFlowNotation(parseFlowNotation('30%'), sequence(0.29))).toBe(1);
+    expect(rollFlowNotation(parseFlowNotation('30%'), sequence(0.3))).toBe(0);
+  });
+});
+
+describe('random flow rates', () => {
+  it('rolls the connection once per tick, within the notation', () => {
+    const result = run(
+      [createNode('pool', 'pool', { ...stock({ black: 1000 }), capacity: -1 }), createNode('target', 'pool', { capacity: -1 })],
+      [createEdge('e1', 'pool', 'target', { flowMode: 'random', flowNotation: '2D6' })],
+      10
+    );
+    expect(result.target.resources).toBeGreaterThanOrEqual(20);
+    expect(result.target.resources).toBeLessThanOrEqual(120);
+    expect(result.target.resources).toBe(1000 - result.pool.resources);
+  });
+
+  it('rolls the same amounts for the same seed', () => {
+    const nodes = [createNode('pool', 'pool', { ...stock({ black: 1000 }), capacity: -1 }), createNode('target', 'pool', { capacity: -1 })];
+    const edges = [createEdge('e1', 'pool', 'target', { flowMode: 'random', flowNotation: '1-10' })];
+    expect(run(nodes, edges, 10, { settings: { seed: 3 } })).toEqual(run(nodes, edges, 10, { settings: { seed: 3 } }));
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Random flow rate notation for connections (Machinations style).
+ *
+ * Supported forms:
+ * - Dice: "D6", "2D4", "2D4+1", "3d6-2" → sum of the dice plus the modifier
+ * - Range: "1-3" → uniform integer between min and max (inclusive)
+ * - Chance: "50%" → 1 with the given probability, otherwise 0
+ *
+ * Rolls take a random() function so the simulation can pass its seeded RNG.
+ */
+
+export type FlowNotation =
+  | { kind: 'dice'; count: number; sides: number; modifier: number }
+  | { kind: 'range'; min: number; max: number }
+  | { kind: 'chance'; percent: number };
+
+// Upper bounds keep a typo (e.g. "1000D1000") from stalling a tick
+const MAX_DICE = 100;
+const MAX_SIDES = 1000;
+
+const DICE_PATTERN = /^(\d*)\s*[dD]\s*(\d+)\s*(?:([+-])\s*(\d+))?$/;
+const RANGE_PATTERN = /^(\d+)\s*-\s*(\d+)$/;
+const CHANCE_PATTERN = /^(\d+(?:\.\d+)?)\s*%$/;
+
+/**
+ * Parse a notation. Throws an Error describing the problem if it is invalid.
+ */
+export function parseFlowNotation(text: string): FlowNotation {
+  const notation = text.trim();
+  if (notation === '') throw new Error('Enter a notation, e.g. D6, 2D4+1, 1-3 or 50%');
+
+  const dice = DICE_PATTERN.exec(notation);
+  if (dice) {
+    const count = dice[1] === '' ? 1 : parseInt(dice[1], 10);
+    const sides = parseInt(dice[2], 10);
+    const modifier = dice[3] ? parseInt(dice[4], 10) * (dice[3] === '-' ? -1 : 1) : 0;
+    if (count < 1 || count > MAX_DICE) throw new Error(`Number of dice must be 1-${MAX_DICE}`);
+    if (sides < 1 || sides > MAX_SIDES) throw new Error(`Dice sides must be 1-${MAX_SIDES}`);
+    return { kind: 'dice', count, sides, modifier };
+  }
+
+  const range = RANGE_PATTERN.exec(notation);
+  if (range) {
+    const min = parseInt(range[1], 10);
+    const max = parseInt(range[2], 10);
+    if (min > max) throw new Error('Range minimum must not exceed the maximum');
+    return { kind: 'range', min, max };
+  }
+
+  const chance = CHANCE_PATTERN.exec(notation);
+  if (chance) {
+    const percent = parseFloat(chance[1]);
+    if (percent > 100) throw new Error('Chance must be between 0% and 100%');
+    return { kind: 'chance', percent };
+  }
+
+  throw new Error('Unknown notation. Use dice (D6, 2D4+1), a range (1-3) or a chance (50%)');
+}
+
+/**
+ * Validate a notation. Returns an error message, or null if valid.
+ */
+export function validateFlowNotation(text: string): string | null {
+  try {
+    parseFlowNotation(text);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+/**
+ * Canonical text of a notation (e.g. "2d4 + 1" → "2D4+1"), used on labels.
+ */
+export function formatFlowNotation(notation: FlowNotation): string {
+  switch (notation.kind) {
+    case 'dice': {
+      const count = notation.count === 1 ? '' : notation.count;
+      const modifier = notation.modifier === 0 ? '' : notation.modifier > 0 ? `+${notation.modifier}` : notation.modifier;
+      return `${count}D${notation.sides}${modifier}`;
+    }
+    case 'range':
+      return `${notation.min}-${notation.max}`;
+    case 'chance':
+      return `${notation.percent}%`;
+  }
+}
+
+/**
+ * Roll a notation. The result is never negative.
+ */
+export function rollFlowNotation(notation: FlowNotation, random: () => number): number {
+  switch (notation.kind) {
+    case 'dice': {
+      let total = notation.modifier;
+      for (let i = 0; i < notation.count; i++) {
+        total += Math.floor(random() * notation.sides) + 1;
+      }
+      return Math.max(0, total);
+    }
+    case 'range':
+      return notation.min + Math.floor(random() * (notation.max - notation.min + 1));
+    case 'chance':
+      return random() * 100 < notation.percent ? 1 : 0;
+  }
+}
@@ -7,6 +7,14 @@
  * - capacity: node capacity (-1 if unlimited)
  * - input: (converter only) resources available to convert
  * - totalProduced / produced: (source only) total produced so far
+ * - source, target: (connections only) nodes at both ends of the connection,
+ *   as { resources, capacity, tokens }
+ * - tokens: (end conditions only) typed resources of the watched node
+ * - any register by name (e.g. "level"), see utils/registers.ts
+ * - prices: market prices by good token id (e.g. "prices.wood"), see utils/market.ts
+ *
+ * Comparisons and logical operators are allowed: true/false count as 1/0
+ * (e.g. "tokens.gold >= 100 && tick > 10").
  * 
  * Available functions:
  * - min(a, b): minimum of two values
@@ -18,7 +26,7 @@
  * - sqrt(x): square root
  * - pow(x, y): x to the power of y
  * - sin(x), cos(x), tan(x): trigonometric functions
- * - random(): random value between 0 and 1
+ * - random(): random value between 0 and 1 (seeded during simulation)
  * 
  * Examples (Source):
  * - "1 + resources * 0.1" → base 1, plus 10% of buffer
@@ -29,8 +37,23 @@
  * - "floor(input * 0.5)" → 50% conversion rate
  * - "min(input, 10)" → max 10 output per tick
  * - "input + floor(tick / 10)" → bonus output over time
+ * 
+ * Examples (Connection flow rate):
+ * - "min(5, floor(source.resources / 10))" → 1 per 10 in the source, max 5
+ * - "target.capacity - target.resources" → fill the target up
+ *
+ * Examples (Register):
+ * - "1 + floor(tick / 50)" → a level that rises every 50 ticks
+ * - "level * 2" → read another register by name
  */
 
+// Node values exposed to connection formulas
+export interface FormulaNodeValues {
+  resources: number;
+  capacity: number;
+  tokens: Record<string, number>;
+}
+
 interface FormulaContext {
   resources: number;
   tick: number;
@@ -39,10 +62,25 @@ interface FormulaContext {
   totalProduced?: number; // For sources: total produced so far
   queueSize?: number; // For delay: number of items in queue
   delayTicks?: number; // For delay: current delay setting
+  random?: () => number; // Seeded generator for random() (defaults to Math.random)
+  source?: FormulaNodeValues; // For connections: source node
+  target?: FormulaNodeValues; // For connections: target node
+  registers?: Record<string, number>; // Register values by name
+  tokens?: Record<string, number>; // For end conditions: watched node tokens
+  prices?: Record<string, number>; // Market prices by good token id
 }
 
+const toFormulaNode = (node: FormulaNodeValues | undefined) => ({
+  resources: node?.resources ?? 0,
+  capacity: node === undefined || node.capacity === -1 ? Infinity : node.capacity,
+  tokens: { ...node?.tokens },
+});
+
 // Create a safe evaluation context with allowed functions
 const createSafeContext = (ctx: FormulaContext) => ({
+  // Registers first, so a name can never shadow a built-in
+  ...ctx.registers,
+
   // Variables
   resources: ctx.resources,
   tick: ctx.tick,
@@ -52,6 +90,10 @@ const createSafeContext = (ctx: FormulaContext) => ({
   produced: ctx.totalProduced ?? 0, // Alias
   queueSize: ctx.queueSize ?? 0, // Delay: items in queue
   delayTicks: ctx.delayTicks ?? 1, // Delay: current delay setting
+  source: toFormulaNode(ctx.source), // Connection: source node
+  target: toFormulaNode(ctx.target), // Connection: target node
+  tokens: { ...ctx.tokens }, // End condition: watched node tokens
+  prices: { ...ctx.prices }, // Market prices by good token id
   
   // Math functions
   min: Math.min,
@@ -67,7 +109,7 @@ const createSafeContext = (ctx: FormulaContext) => ({
   tan: Math.tan,
   log: Math.log,
   exp: Math.exp,
-  random: Math.random,
+  random: ctx.random ?? Math.random,
   
   // Constants
   PI: Math.PI,
@@ -120,7 +162,8 @@ export function evaluateFormula(formula: string, context: FormulaContext): numbe
     
     // Create and execute the function
     const fn = new Function(...allowedNames, `"use strict"; return (${formula});`);
-    const result = fn(...allowedValues);
+    const raw = fn(...allowedValues);
+    const result = typeof raw === 'boolean' ? Number(raw) : raw;
     
     // Validate result
     if (typeof result !== 'number' || !isFinite(result)) {
@@ -139,7 +182,11 @@ export function evaluateFormula(formula: string, context: FormulaContext): numbe
  * Validate a formula without executing it.
  * Returns an error message if invalid, or null if valid.
  */
-export function validateFormula(formula: string): string | null {
+export function validateFormula(
+  formula: string,
+  registers?: Record<string, number>,
+  prices?: Record<string, number>
+): string | null {
   if (!formula || formula.trim() === '') {
     return null; // Empty is valid (will use default productionRate)
   }
@@ -149,6 +196,8 @@ export function validateFormula(formula: string): string | null {
     resources: 10,
     tick: 1,
     capacity: 100,
+    registers,
+    prices,
   });
   
   if (result === null) {
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { NodeData } from '../types';
+import { compareGateValue, isGateOpen } from './gateConditions';
+import { createEdge, createNode, run, stock } from '../engine/testUtils';
+
+// Values seen by the gate: its own gold and the Market's total
+const values: Record<string, number> = { 'gate:orange': 60, 'gate:': 70, 'market:': 5 };
+const readValue = (nodeId: string | undefined, tokenId: string) => values[`${nodeId ?? 'gate'}:${tokenId}`] ?? 0;
+
+describe('compareGateValue', () => {
+  it('applies every comparison', () => {
+    expect(compareGateValue(5, 'above', 5)).toBe(false);
+    expect(compareGateValue(5, 'at_least', 5)).toBe(true);
+    expect(compareGateValue(5, 'below', 6)).toBe(true);
+    expect(compareGateValue(5, 'at_most', 4)).toBe(false);
+    expect(compareGateValue(5, 'equal', 5)).toBe(true);
+  });
+});
+
+describe('isGateOpen', () => {
+  const gate = (data: Partial<NodeData>) => createNode('gate', 'gate', data).data;
+
+  it('combines compound clauses with AND or OR', () => {
+    const clauses: NodeData['gateClauses'] = [
+      { tokenId: 'orange', comparison: 'at_least', threshold: 50 },
+      { nodeId: 'market', comparison: 'above', threshold: 10 },
+    ];
+    expect(isGateOpen(gate({ gateCondition: 'compound', gateClauses: clauses }), readValue, {})).toBe(false);
+    expect(isGateOpen(gate({ gateCondition: 'compound', gateClauses: clauses, gateLogic: 'or' }), readValue, {})).toBe(true);
+  });
+
+  it('reads thresholds from registers', () => {
+    const data = gate({ gateCondition: 'if_above', gateThreshold: 100, gateThresholdRegister: 'level' });
+    expect(isGateOpen(data, readValue, { level: 50 })).toBe(true);
+    expect(isGateOpen(data, readValue, {})).toBe(false);
+  });
+});
+
+describe('gates with token conditions', () => {
+  const runWithGold = (gold: number) => run(
+    [
+      createNode('wallet', 'pool', stock({ orange: gold })),
+      createNode('source', 'source'),
+      createNode('gate', 'gate', {
+        gateCondition: 'compound',
+        gateClauses: [{ nodeId: 'wallet', tokenId: 'orange', comparison: 'at_least', threshold: 5 }],
+      }),
+      createNode('target', 'pool'),
+    ],
+    [createEdge('e1', 'source', 'gate'), createEdge('e2', 'gate', 'target')],
+    5
+  );
+
+  it('let resources through only while the condition holds', () => {
+    expect(runWithGold(3).target.resources).toBe(0);
+    expect(runWithGold(5).target.resources).toBeGreaterThan(0);
+  });
+});
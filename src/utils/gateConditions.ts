@@ -0,0 +1,109 @@
+/**
+ * Gate conditions.
+ *
+ * Simple conditions compare the gate's own resources with a threshold
+ * (if_above / if_below). Compound conditions combine clauses with AND/OR;
+ * each clause checks the gate or another node, its total resources or one
+ * token type, against a fixed threshold or a register.
+ *
+ * The engine reads the values (see stepSimulation); this module holds the
+ * comparison logic and the text shown on the node and in the panel.
+ */
+
+import { NodeData, GateClause, GateComparison } from '../types';
+
+export const GATE_COMPARISON_SYMBOLS: Record<GateComparison, string> = {
+  above: '>',
+  below: '<',
+  at_least: '≥',
+  at_most: '≤',
+  equal: '=',
+};
+
+/**
+ * Default clause for a new compound condition: the gate's own resources > 0.
+ */
+export function createGateClause(): GateClause {
+  return { comparison: 'above', threshold: 0 };
+}
+
+/**
+ * Compare a value with a clause threshold.
+ */
+export function compareGateValue(value: number, comparison: GateComparison, threshold: number): boolean {
+  switch (comparison) {
+    case 'above': return value > threshold;
+    case 'below': return value < threshold;
+    case 'at_least': return value >= threshold;
+    case 'at_most': return value <= threshold;
+    case 'equal': return value === threshold;
+  }
+}
+
+/**
+ * Whether a gate is open.
+ *
+ * @param data Gate node data
+ * @param readValue Value of a node (undefined = the gate), total or one token ('' = total)
+ * @param registers Current register values by name
+ */
+export function isGateOpen(
+  data: NodeData,
+  readValue: (nodeId: string | undefined, tokenId: string) => number,
+  registers: Record<string, number>
+): boolean {
+  const condition = data.gateCondition ?? 'always';
+  if (condition === 'always') return true;
+
+  if (condition === 'compound') {
+    const clauses = data.gateClauses ?? [];
+    if (clauses.length === 0) return true;
+    const check = (clause: GateClause) => {
+      const threshold = clause.thresholdRegister && clause.thresholdRegister in registers
+        ? registers[clause.thresholdRegister]
+        : clause.threshold;
+      return compareGateValue(readValue(clause.nodeId, clause.tokenId ?? ''), clause.comparison, threshold);
+    };
+    return data.gateLogic === 'or' ? clauses.some(check) : clauses.every(check);
+  }
+
+  const thresholdRegister = data.gateThresholdRegister;
+  const threshold = thresholdRegister && thresholdRegister in registers
+    ? registers[thresholdRegister]
+    : data.gateThreshold ?? 0;
+  const resources = readValue(undefined, '');
+  return compareGateValue(resources, condition === 'if_above' ? 'above' : 'below', threshold);
+}
+
+/**
+ * Text of a gate condition, e.g. "🪙 ≥ 50 AND Market > level".
+ *
+ * @param getNodeLabel Label of a node by id
+ * @param getTokenLabel Short label of a token (e.g. its emoji)
+ */
+export function formatGateCondition(
+  data: NodeData,
+  getNodeLabel: (nodeId: string) => string | undefined,
+  getTokenLabel: (tokenId: string) => string
+): string {
+  const condition = data.gateCondition ?? 'always';
+  if (condition === 'always') return 'Open';
+
+  if (condition === 'compound') {
+    const clauses = data.gateClauses ?? [];
+    if (clauses.length === 0) return 'Open';
+    return clauses
+      .map((clause) => {
+        const subject = [
+          clause.nodeId ? getNodeLabel(clause.nodeId) ?? '?' : '',
+          clause.tokenId ? getTokenLabel(clause.tokenId) : '',
+        ].filter(Boolean).join(' ');
+        const threshold = clause.thresholdRegister || clause.threshold;
+        return `${subject}${subject ? ' ' : ''}${GATE_COMPARISON_SYMBOLS[clause.comparison]} ${threshold}`;
+      })
+      .join(data.gateLogic === 'or' ? ' OR ' : ' AND ');
+  }
+
+  const threshold = data.gateThresholdRegister || data.gateThreshold;
+  return `${condition === 'if_above' ? '>' : '<'}${threshold}`;
+}
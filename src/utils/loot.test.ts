@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { NodeData } from '../types';
+import { getLootChances, rollLootTable } from './loot';
+import { buildHistoryEntry } from '../engine/simulationEngine';
+import { createEdge, createNode, run, stock } from '../engine/testUtils';
+
+describe('getLootChances', () => {
+  it('weighs the entries against each other and rolling nothing', () => {
+    const table = {
+      lootEntries: [
+        { tokenId: 'black', amount: 1, weight: 3, tier: 'common' },
+        { tokenId: 'orange', amount: 1, weight: 1, tier: 'rare' },
+        { tokenId: 'blue', amount: 1, weight: 0, tier: 'common', guaranteed: true },
+      ],
+      lootNothingWeight: 4,
+    } as NodeData;
+    expect(getLootChances(table)).toEqual([0.375, 0.125, 1]);
+  });
+});
+
+describe('rollLootTable', () => {
+  // An unlucky player: every roll lands on the common entry
+  const unlucky = () => 0;
+  const table = {
+    lootEntries: [
+      { tokenId: 'black', amount: 1, weight: 99, tier: 'common' },
+      { tokenId: 'orange', amount: 1, weight: 1, tier: 'legendary' },
+    ],
+    lootPity: { legendary: 5 },
+  } as NodeData;
+
+  it('forces a pity tier every N rolls without it', () => {
+    const roll = rollLootTable(table, 12, unlucky);
+    expect(roll.drops).toEqual({ black: 10, orange: 2 });
+    expect(roll.tierDrops).toEqual({ common: 10, legendary: 2 });
+    expect(roll.pityCounters).toEqual({ legendary: 2 });
+  });
+
+  it('carries the pity counter over to the next rolls', () => {
+    const first = rollLootTable(table, 3, unlucky);
+    const second = rollLootTable({ ...table, lootPityCounters: first.pityCounters }, 2, unlucky);
+    expect(second.drops).toEqual({ black: 1, orange: 1 });
+  });
+});
+
+describe('loot table nodes', () => {
+  // Every kill rolls a table with a guaranteed coin and a 1-in-4 gem
+  const runKills = (kills: number, ticks: number) => run(
+    [
+      createNode('kills', 'pool', stock({ black: kills })),
+      createNode('loot', 'loot', {
+        lootEntries: [
+          { tokenId: 'orange', amount: 1, weight: 0, tier: 'common', guaranteed: true },
+          { tokenId: 'blue', amount: 1, weight: 1, tier: 'rare' },
+        ],
+        lootNothingWeight: 3,
+      }),
+      createNode('bag', 'pool', { capacity: -1 }),
+    ],
+    [createEdge('e1', 'kills', 'loot', { flowRate: 10 }), createEdge('e2', 'loot', 'bag', { flowRate: 100 })],
+    ticks
+  );
+
+  it('roll once per unit that arrives and send the drops on', () => {
+    const result = runKills(10, 3);
+    expect(result.loot.lootTotalRolls).toBe(10);
+    expect(result.bag.typedResources.orange).toBe(10);
+    expect(result.bag.resources).toBe(10 + (result.loot.lootTierDrops?.rare ?? 0));
+  });
+
+  it('export the rolls and drops by tier', () => {
+    const result = runKills(10, 2);
+    const entry = buildHistoryEntry([createNode('loot', 'loot', result.loot)], 2);
+    expect(entry['rolls:loot']).toBe(10);
+    expect(entry['drops-common:loot']).toBe(10);
+    expect(entry['drops-rare:loot']).toBe(result.loot.lootTierDrops?.rare ?? 0);
+  });
+});
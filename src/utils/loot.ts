@@ -0,0 +1,124 @@
+/**
+ * Loot tables: weighted random drops of typed tokens, with rarity tiers,
+ * guaranteed drops and pity counters.
+ *
+ * A Loot Table node rolls once for every unit that arrives and every time a
+ * trigger connection fires it. A roll:
+ *   1. drops every guaranteed entry
+ *   2. picks one of the other entries by weight (or nothing, by the nothing weight)
+ *
+ * Pity: a tier with a pity of N is forced on the Nth roll in a row without a
+ * drop of that tier or better (the pick is made among those entries only).
+ *
+ * Drops wait in the node's resources and leave through its output connections
+ * (use token filters to route them). Rolls use the seeded generator, so a run
+ * with the same seed drops the same loot.
+ *
+ * e.g. "a chest: mostly gold, 5% gems, a gem at the latest every 20 chests":
+ * Chests → Loot Table (gold 95 common, gem 5 rare, rare pity 20) → Inventory.
+ */
+
+import { LootEntry, LootTier, NodeData, TypedResources } from '../types';
+
+// Tiers from the most common to the rarest
+export const LOOT_TIERS: LootTier[] = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
+
+export const LOOT_TIER_LABELS: Record<LootTier, string> = {
+  common: '⚪ Common',
+  uncommon: '🟢 Uncommon',
+  rare: '🔵 Rare',
+  epic: '🟣 Epic',
+  legendary: '🟠 Legendary',
+};
+
+/**
+ * Result of the rolls of one tick
+ */
+export interface LootRoll {
+  drops: TypedResources;                        // Tokens dropped
+  tierDrops: Partial<Record<LootTier, number>>; // Entries dropped, by tier (guaranteed ones included)
+  pityCounters: Partial<Record<LootTier, number>>;
+}
+
+const getTierRank = (tier: LootTier): number => LOOT_TIERS.indexOf(tier);
+
+/**
+ * Chance (0-1) of each entry on a roll without pity (guaranteed entries: 1)
+ */
+export function getLootChances(data: NodeData): number[] {
+  const entries = data.lootEntries ?? [];
+  const total = entries
+    .filter((entry) => !entry.guaranteed)
+    .reduce((sum, entry) => sum + Math.max(0, entry.weight), 0) + Math.max(0, data.lootNothingWeight ?? 0);
+  return entries.map((entry) => {
+    if (entry.guaranteed) return 1;
+    return total > 0 ? Math.max(0, entry.weight) / total : 0;
+  });
+}
+
+// Highest tier whose pity is due on this roll (among the tiers some entry can drop)
+const getPityTier = (
+  candidates: LootEntry[],
+  pity: Partial<Record<LootTier, number>>,
+  counters: Partial<Record<LootTier, number>>
+): LootTier | null => {
+  for (const tier of [...LOOT_TIERS].reverse()) {
+    const threshold = pity[tier] ?? 0;
+    if (threshold <= 0 || (counters[tier] ?? 0) + 1 < threshold) continue;
+    if (candidates.some((entry) => getTierRank(entry.tier) >= getTierRank(tier))) return tier;
+  }
+  return null;
+};
+
+/**
+ * Roll a loot table a number of times
+ *
+ * @param random Seeded generator (0 ≤ value < 1)
+ */
+export function rollLootTable(data: NodeData, rolls: number, random: () => number): LootRoll {
+  const entries = (data.lootEntries ?? []).filter((entry) => entry.tokenId && entry.amount > 0);
+  const guaranteed = entries.filter((entry) => entry.guaranteed);
+  const candidates = entries.filter((entry) => !entry.guaranteed && entry.weight > 0);
+  const pity = data.lootPity ?? {};
+  const pityCounters = { ...(data.lootPityCounters ?? {}) };
+  const drops: TypedResources = {};
+  const tierDrops: Partial<Record<LootTier, number>> = {};
+
+  const drop = (entry: LootEntry) => {
+    drops[entry.tokenId] = (drops[entry.tokenId] ?? 0) + entry.amount;
+    tierDrops[entry.tier] = (tierDrops[entry.tier] ?? 0) + 1;
+  };
+
+  for (let i = 0; i < rolls; i++) {
+    guaranteed.forEach(drop);
+
+    // Pity narrows the pick to the forced tier or better (and nothing can't be rolled)
+    const pityTier = getPityTier(candidates, pity, pityCounters);
+    const pool = pityTier
+      ? candidates.filter((entry) => getTierRank(entry.tier) >= getTierRank(pityTier))
+      : candidates;
+    const nothingWeight = pityTier ? 0 : Math.max(0, data.lootNothingWeight ?? 0);
+    const total = pool.reduce((sum, entry) => sum + entry.weight, 0) + nothingWeight;
+
+    let picked: LootEntry | null = null;
+    if (total > 0) {
+      let roll = random() * total;
+      for (const entry of pool) {
+        roll -= entry.weight;
+        if (roll < 0) {
+          picked = entry;
+          break;
+        }
+      }
+    }
+    if (picked) drop(picked);
+
+    for (const tier of LOOT_TIERS) {
+      if ((pity[tier] ?? 0) <= 0) continue;
+      const lucky = picked !== null && getTierRank(picked.tier) >= getTierRank(tier);
+      pityCounters[tier] = lucky ? 0 : (pityCounters[tier] ?? 0) + 1;
+    }
+  }
+
+  return { drops, tierDrops, pityCounters };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { getMarketPrice, getMarketPrices, tradeWithMarket } from './market';
+import { createRng, deriveSeed } from './random';
+import { buildHistoryEntry } from '../engine/simulationEngine';
+import { createEdge, createNode, run, stock } from '../engine/testUtils';
+
+// 100 wood and 1000 gold: 10 gold per wood
+const woodMarket = (data = {}) => createNode('market', 'market', {
+  marketGood: 'wood',
+  marketCurrency: 'gold',
+  marketInitialStock: 100,
+  marketInitialFunds: 1000,
+  ...data,
+});
+
+const context = { tick: 0, registers: {} };
+
+describe('getMarketPrice', () => {
+  it('divides the funds by the stock on a constant product curve', () => {
+    expect(getMarketPrice(woodMarket().data, context)).toBe(10);
+    expect(getMarketPrice(woodMarket({ marketStock: 200, marketFunds: 500 }).data, context)).toBe(2.5);
+  });
+
+  it('evaluates the formula of the stock', () => {
+    expect(getMarketPrice(woodMarket({ marketCurve: 'formula', formula: '2000 / resources' }).data, context)).toBe(20);
+  });
+
+  it('reads prices by good, first market first', () => {
+    const nodes = [woodMarket(), woodMarket({ marketInitialFunds: 50 }), createNode('pool', 'pool')];
+    expect(getMarketPrices(nodes, context)).toEqual({ wood: 10 });
+  });
+});
+
+describe('tradeWithMarket', () => {
+  it('pays whole currency units for goods, keeping the fractions', () => {
+    const trade = tradeWithMarket(woodMarket({ marketFee: 0 }).data, { wood: 1 }, context);
+    expect(trade.sold).toBe(1);
+    expect(trade.payout).toEqual({ gold: 9 });
+    expect(trade.stock).toBe(101);
+    expect(trade.funds).toBeCloseTo(1000 - 9);
+  });
+
+  it('sells goods for currency, with the fee and the change', () => {
+    const trade = tradeWithMarket(woodMarket({ marketFee: 10 }).data, { gold: 25 }, context);
+    expect(trade.bought).toBe(2);
+    expect(trade.payout).toEqual({ wood: 2, gold: 2 });
+    expect(trade.fees).toBeCloseTo(2.04, 2);
+  });
+
+  it('returns the orders it cannot trade', () => {
+    expect(tradeWithMarket(woodMarket().data, { gold: 5, stone: 3 }, context).payout).toEqual({ gold: 5, stone: 3 });
+  });
+});
+
+describe('market nodes', () => {
+  it('trade what arrives and send the proceeds on', () => {
+    const result = run(
+      [createNode('inventory', 'pool', stock({ wood: 2 })), woodMarket(), createNode('wallet', 'pool')],
+      [createEdge('e1', 'inventory', 'market'), createEdge('e2', 'market', 'wallet', { flowRate: 100 })],
+      3
+    );
+    expect(result.wallet.typedResources.gold).toBe(9 + 9);
+    expect(result.market.marketStock).toBe(102);
+  });
+
+  it('make their price readable in formulas', () => {
+    const result = run(
+      [woodMarket(), createNode('source', 'source', { processingMode: 'formula', formula: 'prices.wood' }), createNode('pool', 'pool')],
+      [createEdge('e1', 'source', 'pool', { flowRate: 100 })],
+      1
+    );
+    expect(result.pool.resources).toBe(10);
+  });
+
+  it('chart a formula price with the run seed before the first tick', () => {
+    const nodes = [woodMarket({ marketCurve: 'formula', formula: 'floor(random() * 1000)' })];
+    const settings = { seed: 42, propagationMode: 'snapshot' as const };
+    const price = buildHistoryEntry(nodes, 0, settings)['price:market'];
+    expect(price).toBe(Math.floor(createRng(deriveSeed(42, 0)).next() * 1000));
+    expect(buildHistoryEntry(nodes, 0, settings)['price:market']).toBe(price);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Markets: buy and sell one good for a currency, at a price that moves with the stock.
+ *
+ * A Market node holds two reserves: a stock of the good and funds of the currency.
+ * Whatever arrives at the market is an order, traded at the end of the tick:
+ * goods are sold (the seller gets currency), currency buys goods (the buyer gets
+ * whole goods and the change). The proceeds wait in the market's resources and
+ * leave through its output connections (use token filters to route them).
+ *
+ * Price curves:
+ *   constant_product  stock × funds stays constant (price = funds / stock): selling
+ *                     lowers the price, buying raises it
+ *   formula           the unit price is a formula of the stock (`resources`), e.g.
+ *                     "20 * pow(0.98, resources)"; the funds are unlimited
+ *
+ * The fee (%) is taken on every trade: sellers get less, buyers pay more. Fees and
+ * fractions of a currency unit leave the economy (the market keeps them).
+ *
+ * e.g. "wood sells for ~10 gold, cheaper the more wood is sold":
+ * Inventory → Market (good wood, currency gold, 100 wood, 1000 gold) → Wallet.
+ */
+
+import { Node } from '@xyflow/react';
+import { MarketCurve, NodeData, TypedResources } from '../types';
+import { evaluateFormula } from './formulaEvaluator';
+import { getTokenResources } from './migration';
+
+export const MARKET_CURVE_LABELS: Record<MarketCurve, string> = {
+  constant_product: 'Constant product (stock × funds)',
+  formula: 'Formula of the stock',
+};
+
+// Values a price formula can read (resources = the market's stock)
+export interface MarketPriceContext {
+  tick: number;
+  registers: Record<string, number>;
+  random?: () => number;  // Seeded generator for random() (defaults to Math.random)
+}
+
+/**
+ * Result of the orders of one tick
+ */
+export interface MarketTrade {
+  sold: number;             // Goods sold to the market
+  bought: number;           // Goods bought from the market
+  fees: number;             // Currency taken as fees
+  payout: TypedResources;   // What goes back out: goods bought, currency earned, change, refused orders
+  stock: number;            // Reserves after the trades
+  funds: number;
+}
+
+/**
+ * Current reserves (the initial ones until the first trade)
+ */
+export function getMarketReserves(data: NodeData): { stock: number; funds: number } {
+  return {
+    stock: data.marketStock ?? data.marketInitialStock ?? 0,
+    funds: data.marketFunds ?? data.marketInitialFunds ?? 0,
+  };
+}
+
+// Unit price of a formula market at a stock (null if the formula fails)
+const getFormulaPrice = (data: NodeData, stock: number, context: MarketPriceContext): number | null => {
+  return evaluateFormula(data.formula ?? '', {
+    resources: stock,
+    tick: context.tick,
+    capacity: -1,
+    random: context.random,
+    registers: context.registers,
+  });
+};
+
+/**
+ * Unit price at the current reserves, before the fee (0 if the market can't price its good)
+ */
+export function getMarketPrice(data: NodeData, context: MarketPriceContext): number {
+  const { stock, funds } = getMarketReserves(data);
+  if ((data.marketCurve ?? 'constant_product') === 'formula') return getFormulaPrice(data, stock, context) ?? 0;
+  return stock > 0 ? funds / stock : 0;
+}
+
+/**
+ * Current prices by good token id, readable as `prices.<token>` in formulas and
+ * scripts (the first market wins when several trade the same good)
+ */
+export function getMarketPrices(nodes: Node<NodeData>[], context: MarketPriceContext): Record<string, number> {
+  const prices: Record<string, number> = {};
+  for (const node of nodes) {
+    if (node.data.nodeType !== 'market') continue;
+    const good = node.data.marketGood;
+    if (!good || good in prices) continue;
+    prices[good] = getMarketPrice(node.data, context);
+  }
+  return prices;
+}
+
+/**
+ * Trade the orders that arrived at a market: goods are sold first, then the
+ * currency buys goods one unit at a time while it covers the price plus the fee.
+ * Other token types are returned as they are.
+ */
+export function tradeWithMarket(data: NodeData, orders: TypedResources, context: MarketPriceContext): MarketTrade {
+  const good = data.marketGood ?? '';
+  const currency = data.marketCurrency ?? '';
+  const isFormula = (data.marketCurve ?? 'constant_product') === 'formula';
+  const fee = Math.min(100, Math.max(0, data.marketFee ?? 0)) / 100;
+  let { stock, funds } = getMarketReserves(data);
+
+  const payout: TypedResources = { ...orders };
+  const result = { sold: 0, bought: 0, fees: 0 };
+  if (!good || !currency || good === currency) return { ...result, payout, stock, funds };
+
+  // Sell orders: each unit is priced at the stock it lands on
+  const goodsIn = Math.floor(getTokenResources(orders, good));
+  let proceeds = 0;
+  for (let i = 0; i < goodsIn; i++) {
+    const gross = isFormula ? getFormulaPrice(data, stock, context) ?? 0 : funds - (stock * funds) / (stock + 1);
+    if (!(gross > 0) || !Number.isFinite(gross)) break;
+    stock += 1;
+    if (!isFormula) funds -= gross;
+    proceeds += gross * (1 - fee);
+    result.fees += gross * fee;
+    result.sold += 1;
+  }
+
+  // Buy orders: the currency that arrived (not this tick's proceeds)
+  let budget = getTokenResources(orders, currency);
+  while (stock >= (isFormula ? 1 : 2)) {
+    const gross = isFormula ? getFormulaPrice(data, stock - 1, context) ?? 0 : (stock * funds) / (stock - 1) - funds;
+    if (!(gross > 0) || !Number.isFinite(gross) || gross * (1 + fee) > budget) break;
+    stock -= 1;
+    if (!isFormula) funds += gross;
+    budget -= gross * (1 + fee);
+    result.fees += gross * fee;
+    result.bought += 1;
+  }
+
+  // Whole units only: the market keeps the fractions
+  const earned = Math.floor(proceeds);
+  const change = Math.floor(budget + 1e-9);
+  if (!isFormula) funds += proceeds - earned + budget - change;
+
+  payout[good] = getTokenResources(orders, good) - result.sold + result.bought;
+  payout[currency] = earned + change;
+  for (const tokenId of [good, currency]) {
+    if (payout[tokenId] <= 0) delete payout[tokenId];
+  }
+
+  return { ...result, payout, stock, funds };
+}
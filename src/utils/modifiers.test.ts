@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { applyModifiers, parseModifier, validateModifier } from './modifiers';
+import { createEdge, createNode, run, stock } from '../engine/testUtils';
+
+describe('parseModifier', () => {
+  it('parses additions, percentages and multipliers', () => {
+    expect(parseModifier('+1')).toEqual({ operation: 'add', amount: 1 });
+    expect(parseModifier('-2.5')).toEqual({ operation: 'add', amount: -2.5 });
+    expect(parseModifier(' +10% ')).toEqual({ operation: 'percent', amount: 10 });
+    expect(parseModifier('*.5')).toEqual({ operation: 'multiply', amount: 0.5 });
+  });
+
+  it('rejects anything else', () => {
+    expect(validateModifier('*10%')).toMatch(/plain numbers/);
+    expect(validateModifier('1')).not.toBeNull();
+    expect(validateModifier('+1')).toBeNull();
+  });
+});
+
+describe('applyModifiers', () => {
+  it('scales additions and percentages by the origin value', () => {
+    expect(applyModifiers(10, [
+      { modifier: parseModifier('+1'), originValue: 3 },
+      { modifier: parseModifier('+10%'), originValue: 2 },
+    ])).toBe(15);
+  });
+
+  it('applies a multiplier once, whatever the origin value', () => {
+    const half = parseModifier('*0.5');
+    expect(applyModifiers(10, [{ modifier: half, originValue: 20 }])).toBe(5);
+    expect(applyModifiers(10, [{ modifier: half, originValue: 1 }])).toBe(5);
+  });
+
+  it('ignores a multiplier while its origin is 0', () => {
+    expect(applyModifiers(10, [{ modifier: parseModifier('*0.5'), originValue: 0 }])).toBe(10);
+  });
+});
+
+describe('state connections', () => {
+  // Barracks (n units) → Soldiers source production rate
+  const runBarracks = (barracks: number, modifier: string) => run(
+    [
+      createNode('barracks', 'pool', stock({ black: barracks })),
+      createNode('soldiers', 'source', { productionRate: 2 }),
+      createNode('army', 'pool', { capacity: -1 }),
+    ],
+    [
+      createEdge('state', 'barracks', 'soldiers', { edgeKind: 'state', modifier, modifierTarget: 'productionRate' }),
+      createEdge('e1', 'soldiers', 'army', { flowRate: 100 }),
+    ],
+    1
+  );
+
+  it('change the target property per unit of the origin', () => {
+    expect(runBarracks(3, '+1').army.resources).toBe(5);
+  });
+
+  it('apply a multiplier once', () => {
+    expect(runBarracks(20, '*0.5').army.resources).toBe(1);
+    expect(runBarracks(0, '*0.5').army.resources).toBe(2);
+  });
+
+  it('carry no resources', () => {
+    expect(runBarracks(3, '+1').barracks.resources).toBe(3);
+  });
+});
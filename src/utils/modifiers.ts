@@ -0,0 +1,126 @@
+/**
+ * State connections (modifiers).
+ *
+ * A state connection doesn't carry resources: it changes a property of its
+ * target node, scaled by the origin node's value at the start of the tick
+ * (resources, or the value of a register). The modifier text is one of:
+ *   +1 / -2.5   add the amount per unit of the origin
+ *   +10% / -5%  add a percentage of the property per unit of the origin
+ *   *0.5        multiply the property by the factor, once, while the origin isn't 0
+ *
+ * e.g. "each Barracks adds +1 to the Soldier source's production rate":
+ * Barracks pool → Soldiers source, modifier "+1", target productionRate.
+ *
+ * The engine applies the modifiers before phase 1 (see stepSimulation);
+ * this module holds the parsing and the math.
+ */
+
+import { EdgeData, ModifierTarget, NodeType } from '../types';
+import { getEdgeKind } from './edgeKinds';
+
+export type ModifierOperation = 'add' | 'percent' | 'multiply';
+
+export interface Modifier {
+  operation: ModifierOperation;
+  amount: number;
+}
+
+export const MODIFIER_TARGET_LABELS: Record<ModifierTarget, string> = {
+  productionRate: 'Production Rate',
+  capacity: 'Capacity',
+  flowRate: 'Output Flow Rate',
+  probability: 'Probability',
+  gateThreshold: 'Gate Threshold',
+};
+
+// Short names shown on the connection label
+const MODIFIER_TARGET_SHORT: Record<ModifierTarget, string> = {
+  productionRate: 'rate',
+  capacity: 'cap',
+  flowRate: 'flow',
+  probability: 'prob',
+  gateThreshold: 'threshold',
+};
+
+// Properties a state connection can modify, by target node type (first = default).
+// flowRate changes the flow rate of the target's outgoing resource connections.
+const MODIFIER_TARGETS: Partial<Record<NodeType, ModifierTarget[]>> = {
+  source: ['productionRate', 'capacity', 'flowRate', 'probability'],
+  pool: ['capacity', 'flowRate', 'probability'],
+  gate: ['gateThreshold', 'flowRate', 'probability'],
+  converter: ['flowRate', 'probability'],
+  trader: ['flowRate', 'probability'],
+  delay: ['flowRate', 'probability'],
+  drain: ['probability'],
+  market: ['flowRate', 'probability'],
+  loot: ['flowRate', 'probability'],
+};
+
+export const DEFAULT_MODIFIER = '+1';
+
+export function isStateEdge(data: EdgeData | undefined): boolean {
+  return getEdgeKind(data) === 'state';
+}
+
+/**
+ * Properties a state connection can modify on a node type (empty = none).
+ */
+export function getModifierTargets(nodeType: NodeType): ModifierTarget[] {
+  return MODIFIER_TARGETS[nodeType] ?? [];
+}
+
+/**
+ * Parse a modifier ("+1", "-2", "+10%", "*0.5").
+ * Throws with a readable message if the text is invalid.
+ */
+export function parseModifier(text: string): Modifier {
+  const match = /^([+\-*])\s*(\d+(?:\.\d+)?|\.\d+)\s*(%?)$/.exec(text.trim());
+  if (!match) throw new Error('Use +N, -N, +N% or *N (e.g. +1, *0.5, +10%)');
+  const [, sign, value, percent] = match;
+  const amount = parseFloat(value);
+
+  if (sign === '*') {
+    if (percent) throw new Error('Multipliers are plain numbers (e.g. *1.1, not *10%)');
+    return { operation: 'multiply', amount };
+  }
+  return { operation: percent ? 'percent' : 'add', amount: sign === '-' ? -amount : amount };
+}
+
+/**
+ * Error message of a modifier, or null if it's valid.
+ */
+export function validateModifier(text: string): string | null {
+  try {
+    parseModifier(text);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Invalid modifier';
+  }
+}
+
+/**
+ * Value of a property after the modifiers of all its state connections:
+ * (base × (1 + Σ percent) + Σ add) × Π multiply. Additions and percentages are
+ * scaled by their origin value; multipliers apply once while their origin isn't 0
+ * (a power of the origin value would make *0.5 from 20 units a factor of ~1e-6).
+ */
+export function applyModifiers(base: number, modifiers: { modifier: Modifier; originValue: number }[]): number {
+  let percent = 0;
+  let add = 0;
+  let factor = 1;
+  for (const { modifier, originValue } of modifiers) {
+    if (modifier.operation === 'add') add += modifier.amount * originValue;
+    else if (modifier.operation === 'percent') percent += (modifier.amount / 100) * originValue;
+    else if (originValue !== 0) factor *= modifier.amount;
+  }
+  return (base * (1 + percent) + add) * factor;
+}
+
+/**
+ * Label of a state connection, e.g. "⚡ +1 rate".
+ */
+export function formatModifierLabel(data: EdgeData | undefined): string {
+  const target = data?.modifierTarget;
+  const text = data?.modifier?.trim() || '?';
+  return target ? `⚡ ${text} ${MODIFIER_TARGET_SHORT[target]}` : `⚡ ${text}`;
+}
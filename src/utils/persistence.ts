@@ -3,25 +3,29 @@
  */
 
 import { Node, Edge } from '@xyflow/react';
-import { NodeData } from '../types';
+import { NodeData, ProjectSettings } from '../types';
 import { EdgeData } from '../store/simulatorStore';
+import { useTokenStore } from '../store/tokenStore';
+import { formatEdgeLabel, getEdgeStyle } from './edgeLabel';
 
 const STORAGE_KEY = 'game-economy-simulator-canvas';
 
 interface CanvasState {
   nodes: Node<NodeData>[];
   edges: Edge<EdgeData>[];
+  settings?: ProjectSettings;
   savedAt: string;
 }
 
 /**
  * Save canvas state to localStorage
  */
-export function saveToLocalStorage(nodes: Node<NodeData>[], edges: Edge<EdgeData>[]): void {
+export function saveToLocalStorage(nodes: Node<NodeData>[], edges: Edge<EdgeData>[], settings?: ProjectSettings): void {
   try {
     const state: CanvasState = {
       nodes,
       edges,
+      settings,
       savedAt: new Date().toISOString(),
     };
     localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
@@ -113,7 +117,7 @@ async function decompressString(compressed: string): Promise<string> {
 /**
  * Generate a shareable URL with canvas state
  */
-export async function generateShareableLink(nodes: Node<NodeData>[], edges: Edge<EdgeData>[]): Promise<string> {
+export async function generateShareableLink(nodes: Node<NodeData>[], edges: Edge<EdgeData>[], settings?: ProjectSettings): Promise<string> {
   // Minimize the data we encode
   const minimalNodes = nodes.map(n => ({
     id: n.id,
@@ -126,10 +130,13 @@ export async function generateShareableLink(nodes: Node<NodeData>[], edges: Edge
     id: e.id,
     source: e.source,
     target: e.target,
+    // Handles tell overflow outputs and trader sides apart
+    sourceHandle: e.sourceHandle,
+    targetHandle: e.targetHandle,
     data: e.data,
   }));
   
-  const state = { n: minimalNodes, e: minimalEdges };
+  const state = { n: minimalNodes, e: minimalEdges, s: settings };
   const json = JSON.stringify(state);
   const compressed = await compressString(json);
   
@@ -159,15 +166,16 @@ export async function parseShareableLink(): Promise<CanvasState | null> {
       data: n.data,
     }));
     
-    const edges: Edge<EdgeData>[] = state.e.map((e: { id: string; source: string; target: string; data: EdgeData }) => ({
+    const edges: Edge<EdgeData>[] = state.e.map((e: { id: string; source: string; target: string; sourceHandle?: string | null; targetHandle?: string | null; data: EdgeData }) => ({
       id: e.id,
       source: e.source,
       target: e.target,
+      sourceHandle: e.sourceHandle,
+      targetHandle: e.targetHandle,
       data: e.data || { flowRate: 1 },
       type: 'smoothstep',
-      animated: true,
-      style: { stroke: '#e94560', strokeWidth: 2 },
-      label: e.data?.flowRate?.toString() || '1',
+      ...getEdgeStyle(e.data),
+      label: formatEdgeLabel(e.data, useTokenStore.getState().getToken),
       labelStyle: { fill: '#fff', fontWeight: 700 },
       labelBgStyle: { fill: '#16213e', fillOpacity: 0.8 },
     }));
@@ -175,6 +183,7 @@ export async function parseShareableLink(): Promise<CanvasState | null> {
     return {
       nodes,
       edges,
+      settings: state.s,
       savedAt: new Date().toISOString(),
     };
   } catch (e) {
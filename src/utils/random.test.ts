@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { createRng, deriveSeed } from './random';
+import { createEdge, createNode, run } from '../engine/testUtils';
+
+const sample = (seed: number, count = 5) => {
+  const rng = createRng(seed);
+  return Array.from({ length: count }, () => rng.next());
+};
+
+describe('createRng', () => {
+  it('repeats the sequence of a seed', () => {
+    expect(sample(42)).toEqual(sample(42));
+    expect(sample(42)).not.toEqual(sample(43));
+  });
+
+  it('returns values in [0, 1)', () => {
+    for (const value of sample(7, 1000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('deriveSeed', () => {
+  it('gives every stream its own seed', () => {
+    expect(deriveSeed(42, 10, 'node_1')).toBe(deriveSeed(42, 10, 'node_1'));
+    expect(deriveSeed(42, 10, 'node_1')).not.toBe(deriveSeed(42, 10, 'node_2'));
+    expect(deriveSeed(42, 10)).not.toBe(deriveSeed(42, 11));
+    expect(deriveSeed(42, 10)).not.toBe(deriveSeed(43, 10));
+  });
+});
+
+describe('seeded simulation', () => {
+  // A source that produces on half of the ticks
+  const nodes = [createNode('source', 'source', { probability: 50 }), createNode('pool', 'pool')];
+  const edges = [createEdge('e1', 'source', 'pool')];
+  const runWithSeed = (seed: number) => run(nodes, edges, 50, { settings: { seed } });
+
+  it('replays the same run for the same seed', () => {
+    expect(runWithSeed(42)).toEqual(runWithSeed(42));
+  });
+
+  it('rolls differently for another seed', () => {
+    expect(runWithSeed(42).pool.resources).not.toBe(runWithSeed(7).pool.resources);
+  });
+});
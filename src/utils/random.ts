@@ -0,0 +1,59 @@
+/**
+ * Seeded pseudo-random number generation for deterministic simulations.
+ *
+ * All simulation randomness (probability checks, formula random(),
+ * script Math.random) goes through generators created here, so a run
+ * with the same project seed is bit-identical every time.
+ *
+ * Streams are derived from (seed, tick, ...) instead of carrying RNG state
+ * between ticks: stepping stays a pure function of the node state.
+ */
+
+/**
+ * A seeded random generator. `next()` returns a float in [0, 1).
+ */
+export interface Rng {
+  next: () => number;
+}
+
+/**
+ * Mulberry32 - small, fast 32-bit PRNG with good distribution for simulations.
+ *
+ * NOTE: the same algorithm is injected into the QuickJS sandbox
+ * (see scriptRunner.ts) so script Math.random matches host behavior.
+ */
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return {
+    next: () => {
+      a = (a + 0x6D2B79F5) | 0;
+      let t = Math.imul(a ^ (a >>> 15), 1 | a);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+  };
+}
+
+/**
+ * Derive a 32-bit seed from a base seed and any number of stream keys
+ * (tick number, node id, purpose...). Uses FNV-1a over the joined keys.
+ *
+ * Example: deriveSeed(42, 10, 'node_3') → seed for node_3's script at tick 10
+ */
+export function deriveSeed(seed: number, ...keys: Array<number | string>): number {
+  let hash = 0x811C9DC5 ^ (seed >>> 0);
+  const text = keys.join('|');
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Generate a new random seed (for new projects and the "randomize" button).
+ * Uses Math.random: never call this from inside a tick.
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0xFFFFFFFF) >>> 0;
+}
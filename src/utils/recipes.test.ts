@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { ConverterRecipe, TypedResources } from '../types';
+import { getMaxCrafts, getRecipeDuration, getRecipeShortage } from './recipes';
+import { createEdge, createNode, run, stock } from '../engine/testUtils';
+
+// 2 wood → 1 plank in 3 ticks, with an anvil that is needed but not consumed
+const plank: ConverterRecipe = {
+  inputs: [{ tokenId: 'black', amount: 2 }],
+  outputs: [{ tokenId: 'blue', amount: 1 }],
+  catalysts: [{ tokenId: 'red', amount: 1 }],
+  duration: 3,
+};
+
+describe('recipe rules', () => {
+  it('count the inputs and catalysts that are missing', () => {
+    expect(getRecipeShortage(plank, { black: 1 })).toEqual({ black: 1, red: 1 });
+    expect(getRecipeShortage(plank, { black: 2, red: 1 })).toEqual({});
+  });
+
+  it('craft as often as the inputs allow, reusing the catalysts', () => {
+    expect(getMaxCrafts(plank, { black: 5, red: 1 })).toBe(2);
+    expect(getMaxCrafts(plank, { black: 5 })).toBe(0);
+  });
+
+  it('take at least one tick', () => {
+    expect(getRecipeDuration({ ...plank, duration: 0 })).toBe(1);
+  });
+});
+
+describe('converters with recipes', () => {
+  const runRecipe = (ticks: number, typedResources: TypedResources) => run(
+    [
+      createNode('crafter', 'converter', { ...stock(typedResources), recipes: [plank] }),
+      createNode('output', 'pool'),
+    ],
+    [createEdge('e1', 'crafter', 'output', { flowRate: 10 })],
+    ticks
+  );
+
+  it('consume the inputs when crafting starts and deliver after the duration', () => {
+    const started = runRecipe(1, { black: 4, red: 1 });
+    expect(started.crafter.typedResources).toEqual({ black: 2, red: 1 });
+    expect(started.crafter.craftingProgress).toBe(1);
+    expect(started.output.resources).toBe(0);
+
+    expect(runRecipe(2, { black: 4, red: 1 }).output.resources).toBe(0);
+
+    const done = runRecipe(3, { black: 4, red: 1 });
+    expect(done.output.typedResources).toEqual({ blue: 1 });
+    expect(done.crafter.typedResources).toEqual({ black: 2, red: 1 });
+  });
+
+  it('do not start without the catalyst', () => {
+    const result = runRecipe(4, { black: 4 });
+    expect(result.crafter.typedResources).toEqual({ black: 4 });
+    expect(result.crafter.lastShortage).toEqual({ red: 1 });
+    expect(result.output.resources).toBe(0);
+  });
+});
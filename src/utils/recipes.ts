@@ -0,0 +1,121 @@
+/**
+ * Converter recipes: several recipes per converter, crafting time and catalysts.
+ *
+ * Each tick an idle converter picks one recipe it can craft (inputs and catalysts
+ * held), by its selection rule:
+ *   priority     the first craftable recipe in the list
+ *   round_robin  the next craftable recipe after the last one started
+ *   random       any craftable recipe, with equal chances
+ *
+ * A recipe taking 1 tick converts as often as the inputs allow, every tick (as a
+ * single recipe always did). A longer recipe consumes one batch of inputs when it
+ * starts and produces its outputs when the last tick is done; the converter is busy
+ * meanwhile. Finished outputs that don't fit the outputs wait on the converter.
+ *
+ * Catalysts must be held to start a recipe but are not consumed (e.g. an anvil).
+ */
+
+import { ConverterRecipe, NodeData, RecipeSelection, TypedResources } from '../types';
+import { getTokenResources } from './migration';
+
+export const RECIPE_SELECTION_LABELS: Record<RecipeSelection, string> = {
+  priority: 'Priority (first craftable)',
+  round_robin: 'Round robin',
+  random: 'Random',
+};
+
+/**
+ * Recipes of a converter (projects from before multiple recipes have a single `recipe`)
+ */
+export function getConverterRecipes(data: NodeData): ConverterRecipe[] {
+  const recipes = data.recipes?.length ? data.recipes : data.recipe ? [data.recipe] : [];
+  return recipes.filter((recipe) => recipe.inputs.length > 0 && recipe.outputs.length > 0);
+}
+
+/**
+ * Ticks a recipe takes (at least 1)
+ */
+export function getRecipeDuration(recipe: ConverterRecipe): number {
+  return Math.max(1, Math.floor(recipe.duration ?? 1));
+}
+
+// Amount of a token a recipe needs to hold besides its inputs
+const getCatalystAmount = (recipe: ConverterRecipe, tokenId: string): number => {
+  return (recipe.catalysts ?? [])
+    .filter((catalyst) => catalyst.tokenId === tokenId)
+    .reduce((sum, catalyst) => sum + catalyst.amount, 0);
+};
+
+/**
+ * Token map of recipe items, times a number of crafts
+ */
+export function getRecipeTokens(items: Array<{ tokenId: string; amount: number }>, times = 1): TypedResources {
+  const tokens: TypedResources = {};
+  for (const { tokenId, amount } of items) {
+    tokens[tokenId] = (tokens[tokenId] ?? 0) + amount * times;
+  }
+  return tokens;
+}
+
+/**
+ * Tokens missing to craft a recipe once (empty when it can be crafted)
+ */
+export function getRecipeShortage(recipe: ConverterRecipe, available: TypedResources): TypedResources {
+  const needed = getRecipeTokens([...recipe.inputs, ...(recipe.catalysts ?? [])]);
+  const shortage: TypedResources = {};
+  for (const [tokenId, amount] of Object.entries(needed)) {
+    const missing = amount - getTokenResources(available, tokenId);
+    if (missing > 0) shortage[tokenId] = missing;
+  }
+  return shortage;
+}
+
+/**
+ * How many times a recipe can be crafted from the held tokens (catalysts stay)
+ */
+export function getMaxCrafts(recipe: ConverterRecipe, available: TypedResources): number {
+  if (Object.keys(getRecipeShortage(recipe, available)).length > 0) return 0;
+  let crafts = Infinity;
+  for (const input of recipe.inputs) {
+    const usable = getTokenResources(available, input.tokenId) - getCatalystAmount(recipe, input.tokenId);
+    crafts = Math.min(crafts, Math.floor(usable / input.amount));
+  }
+  return Number.isFinite(crafts) ? Math.max(0, crafts) : 0;
+}
+
+/**
+ * Recipe indices in the order a converter tries them
+ *
+ * @param random Generator for the random rule
+ */
+export function getRecipeOrder(data: NodeData, count: number, random: () => number): number[] {
+  const indices = Array.from({ length: count }, (_, i) => i);
+  const selection = data.recipeSelection ?? 'priority';
+  if (selection === 'round_robin') {
+    const start = ((data.lastRecipe ?? -1) + 1) % Math.max(1, count);
+    return indices.map((i) => (start + i) % count);
+  }
+  if (selection === 'random') {
+    // Fisher-Yates: the first craftable index is a uniform pick among the craftable ones
+    for (let i = indices.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+  }
+  return indices;
+}
+
+/**
+ * Text of a recipe, e.g. "2⛏️+3🪵→1⚔️ ⏱3 (🔨1)"
+ *
+ * @param getTokenLabel Short label of a token (e.g. its emoji)
+ */
+export function formatRecipe(recipe: ConverterRecipe, getTokenLabel: (tokenId: string) => string): string {
+  const format = (items: Array<{ tokenId: string; amount: number }>) =>
+    items.map(({ tokenId, amount }) => `${amount}${getTokenLabel(tokenId)}`).join('+');
+  const duration = getRecipeDuration(recipe);
+  const catalysts = recipe.catalysts ?? [];
+  return `${format(recipe.inputs)}→${format(recipe.outputs)}`
+    + (duration > 1 ? ` ⏱${duration}` : '')
+    + (catalysts.length > 0 ? ` (${format(catalysts)})` : '');
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { getRegisterValues, isValidRegisterName, validateRegisterName } from './registers';
+import { createEngine } from '../engine/simulationEngine';
+import { createEdge, createNode, run, stock } from '../engine/testUtils';
+
+describe('validateRegisterName', () => {
+  it('accepts identifiers', () => {
+    expect(validateRegisterName('level')).toBeNull();
+    expect(validateRegisterName('max_hp2')).toBeNull();
+  });
+
+  it('rejects invalid, duplicate and reserved names', () => {
+    expect(validateRegisterName('')).not.toBeNull();
+    expect(validateRegisterName('2x')).toMatch(/letters/);
+    expect(validateRegisterName('level', ['level'])).toMatch(/already/);
+    expect(validateRegisterName('tick')).toMatch(/reserved/);
+  });
+
+  it('reserves the script globals and JavaScript built-ins', () => {
+    for (const name of ['buffer', 'bufferCapacity', 'capacityRaw', 'maxTotalProduction', 'maxProductionRaw', 'Object', 'String', 'Number', 'Array', 'parseInt']) {
+      expect(isValidRegisterName(name)).toBe(false);
+    }
+  });
+});
+
+describe('getRegisterValues', () => {
+  it('reads registers by name, skipping reserved names and duplicates', () => {
+    const values = getRegisterValues([
+      createNode('a', 'register', { registerName: 'level', resources: 3 }),
+      createNode('b', 'register', { registerName: 'level', resources: 5 }),
+      createNode('c', 'register', { registerName: 'Object', resources: 7 }),
+    ]);
+    expect(values).toEqual({ level: 3 });
+  });
+});
+
+describe('register nodes', () => {
+  it('evaluate their formula every tick before the other nodes', () => {
+    const result = run(
+      [
+        createNode('level', 'register', { registerName: 'level', processingMode: 'formula', formula: 'tick + 1' }),
+        createNode('pool', 'pool', stock({ black: 50 })),
+        createNode('target', 'pool'),
+      ],
+      [createEdge('e1', 'pool', 'target', { flowMode: 'formula', flowFormula: 'level * 2' })],
+      3
+    );
+    expect(result.level.resources).toBe(3);
+    expect(result.target.resources).toBe(2 + 4 + 6);
+  });
+
+  it('are readable by scripts by name and through registers', async () => {
+    const engine = createEngine(
+      [
+        createNode('level', 'register', { registerName: 'level', initialValue: 4, resources: 4 }),
+        // Not exposed: it would hide the built-in Object from every script
+        createNode('shadow', 'register', { registerName: 'Object', initialValue: 1, resources: 1 }),
+        createNode('source', 'source', { processingMode: 'script', script: 'return level + registers.level + Object.keys(state).length;' }),
+        createNode('pool', 'pool'),
+      ],
+      [createEdge('e1', 'source', 'pool', { flowRate: 100 })]
+    );
+    await engine.stepAsync();
+    expect(engine.getState().nodes.find((n) => n.id === 'pool')?.data.resources).toBe(8);
+  });
+});
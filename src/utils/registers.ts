@@ -0,0 +1,87 @@
+/**
+ * Registers: named global values (e.g. "level", "price").
+ *
+ * A Register node evaluates its formula/script every tick and stores the
+ * result in its resources. Formulas, scripts, gate thresholds and connection
+ * flow rates read the value by the register name.
+ */
+
+import { Node } from '@xyflow/react';
+import { NodeData } from '../types';
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// Names already used by formulas/scripts (variables, functions, JS keywords and globals).
+// Registers are also defined as script globals: a register named e.g. `Object` or `String`
+// would shadow the built-in for every script of the tick.
+const RESERVED_NAMES = new Set([
+  // Formula and script variables
+  'resources', 'tick', 'capacity', 'capacityRaw', 'input', 'totalProduced', 'produced',
+  'maxProduction', 'maxProductionRaw', 'maxTotalProduction', 'maxTotalProductionRaw',
+  'buffer', 'bufferCapacity', 'bufferCapacityRaw', 'queueSize', 'delayTicks', 'source',
+  'target', 'tokens', 'tokenType', 'state', 'registers', 'prices',
+  // Functions and constants
+  'min', 'max', 'floor', 'ceil', 'round', 'abs', 'sqrt', 'pow', 'sin', 'cos', 'tan',
+  'log', 'ln', 'exp', 'random', 'PI', 'E', 'Math', 'JSON', 'getNode', 'get',
+  '__getNodeJSON', '__logRaw',
+  // JavaScript
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete',
+  'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import',
+  'in', 'instanceof', 'let', 'new', 'null', 'return', 'super', 'switch', 'this', 'throw',
+  'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield', 'await', 'enum',
+  'implements', 'interface', 'package', 'private', 'protected', 'public', 'static',
+  'undefined', 'NaN', 'Infinity', 'eval', 'arguments', 'globalThis',
+  // JavaScript built-ins
+  'Object', 'Function', 'Array', 'Number', 'String', 'Boolean', 'Symbol', 'BigInt', 'Date',
+  'RegExp', 'Promise', 'Proxy', 'Reflect', 'Map', 'Set', 'WeakMap', 'WeakSet', 'WeakRef',
+  'FinalizationRegistry', 'Error', 'AggregateError', 'EvalError', 'RangeError',
+  'ReferenceError', 'SyntaxError', 'TypeError', 'URIError', 'ArrayBuffer',
+  'SharedArrayBuffer', 'DataView', 'Atomics', 'Int8Array', 'Uint8Array', 'Uint8ClampedArray',
+  'Int16Array', 'Uint16Array', 'Int32Array', 'Uint32Array', 'Float32Array', 'Float64Array',
+  'BigInt64Array', 'BigUint64Array', 'parseInt', 'parseFloat', 'isNaN', 'isFinite',
+  'encodeURI', 'encodeURIComponent', 'decodeURI', 'decodeURIComponent', 'escape', 'unescape',
+]);
+
+/**
+ * Validate a register name. Returns an error message, or null if valid.
+ * otherNames: names of the other registers in the project
+ */
+export function validateRegisterName(name: string, otherNames: string[] = []): string | null {
+  if (name === '') return 'Enter a name';
+  if (!NAME_PATTERN.test(name)) return 'Use letters, digits and _ (not starting with a digit)';
+  if (RESERVED_NAMES.has(name)) return `"${name}" is a reserved name`;
+  if (otherNames.includes(name)) return `Another register is already named "${name}"`;
+  return null;
+}
+
+/**
+ * Whether a register name can be exposed to formulas and scripts
+ */
+export function isValidRegisterName(name: string | undefined): name is string {
+  return !!name && NAME_PATTERN.test(name) && !RESERVED_NAMES.has(name);
+}
+
+/**
+ * Current register values by name (first register wins on duplicate names)
+ */
+export function getRegisterValues(nodes: Node<NodeData>[]): Record<string, number> {
+  const values: Record<string, number> = {};
+  for (const node of nodes) {
+    if (node.data.nodeType !== 'register') continue;
+    const name = node.data.registerName;
+    if (!isValidRegisterName(name) || name in values) continue;
+    values[name] = node.data.resources;
+  }
+  return values;
+}
+
+/**
+ * First free register name: base, base2, base3...
+ */
+export function getUniqueRegisterName(nodes: Node<NodeData>[], base: string): string {
+  const used = new Set(nodes.map((node) => node.data.registerName));
+  if (!used.has(base)) return base;
+  let suffix = 2;
+  while (used.has(`${base}${suffix}`)) suffix++;
+  return `${base}${suffix}`;
+}
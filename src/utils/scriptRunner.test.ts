@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { parseScriptExchange } from './scriptRunner';
+import { createEngine } from '../engine/simulationEngine';
+import { createEdge, createNode, stock } from '../engine/testUtils';
+
+describe('parseScriptExchange', () => {
+  it('reads whole token amounts', () => {
+    expect(parseScriptExchange({ consume: { iron: 2.7 }, produce: { sword: 1, scrap: 0 } }))
+      .toEqual({ consume: { iron: 2 }, produce: { sword: 1 } });
+  });
+
+  it('rejects other shapes', () => {
+    expect(parseScriptExchange([1])).toMatch(/Return a number/);
+    expect(parseScriptExchange({ make: {} })).toMatch(/Unknown key "make"/);
+    expect(parseScriptExchange({ consume: 2 })).toMatch(/must be an object/);
+    expect(parseScriptExchange({ produce: { sword: -1 } })).toMatch(/produce.sword/);
+  });
+});
+
+describe('script converters', () => {
+  // A forge holding iron turns 2 iron into a sword and a scrap every tick
+  const runForge = async (iron: number, ticks: number) => {
+    const engine = createEngine(
+      [
+        createNode('forge', 'converter', {
+          ...stock({ iron }),
+          processingMode: 'script',
+          script: 'return { consume: { iron: 2 }, produce: { sword: 1, scrap: 1 } };',
+        }),
+        createNode('armory', 'pool', { capacity: -1 }),
+      ],
+      [createEdge('e1', 'forge', 'armory', { flowRate: 10 })]
+    );
+    for (let i = 0; i < ticks; i++) await engine.stepAsync();
+    return Object.fromEntries(engine.getState().nodes.map((node) => [node.id, node.data]));
+  };
+
+  it('apply a typed exchange like a recipe', async () => {
+    const result = await runForge(4, 2);
+    expect(result.armory.typedResources).toEqual({ sword: 2, scrap: 2 });
+    expect(result.forge.resources).toBe(0);
+  });
+
+  it('refuse an exchange the converter cannot pay', async () => {
+    const result = await runForge(1, 1);
+    expect(result.armory.resources).toBe(0);
+    expect(result.forge.lastShortage).toEqual({ iron: 1 });
+  });
+});
@@ -14,6 +14,7 @@
 
 import { newQuickJSWASMModule, QuickJSWASMModule } from "quickjs-emscripten";
 import { TypedResources } from '../types';
+import { isValidRegisterName } from './registers';
 
 /**
  * Debug mode for script execution.
@@ -43,6 +44,61 @@ async function getQuickJS(): Promise<QuickJSWASMModule> {
   return moduleLoading;
 }
 
+/**
+ * Build sandbox code that replaces Math.random (and the random alias) with a
+ * seeded Mulberry32 generator - same algorithm as createRng() in random.ts.
+ */
+function seededRandomCode(seed: number): string {
+  return `
+    Math.random = (function(a) {
+      return function() {
+        a = (a + 0x6D2B79F5) | 0;
+        var t = Math.imul(a ^ (a >>> 15), 1 | a);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+      };
+    })(${seed >>> 0});
+    random = Math.random;
+    void 0;
+  `;
+}
+
+/**
+ * Build sandbox code that defines the `source` and `target` globals
+ * (null outside connection scripts).
+ */
+function linkedNodesCode(context: ScriptContext): string {
+  const toJSON = (node: ScriptNodeInfo | undefined) => node
+    ? JSON.stringify({
+        resources: node.resources,
+        capacity: node.capacity === -1 ? 1e18 : node.capacity,
+        tokens: node.tokens ?? {},
+      })
+    : 'null';
+  return `var source = ${toJSON(context.source)}; var target = ${toJSON(context.target)};`;
+}
+
+/**
+ * Build sandbox code that defines the `registers` object and one global per
+ * register name (e.g. `level`), and the `prices` object.
+ */
+function registersCode(context: ScriptContext): string {
+  const registers = context.registers ?? {};
+  const names = Object.keys(registers).filter(isValidRegisterName);
+  const globals = names.map((name) => `var ${name} = registers.${name};`).join(' ');
+  return `var registers = ${JSON.stringify(registers)}; ${globals} var prices = ${JSON.stringify(context.prices ?? {})};`;
+}
+
+/**
+ * Read-only view of a node, as seen by scripts
+ */
+export interface ScriptNodeInfo {
+  resources: number;
+  capacity: number;
+  tokens: TypedResources;
+  tokenType?: string;
+}
+
 /**
  * Context passed to user scripts
  */
@@ -62,13 +118,41 @@ export interface ScriptContext {
   tick: number;           // Current simulation tick
   
   // Access to other nodes (readonly)
-  getNode: (id: string) => { resources: number; capacity: number; tokens: TypedResources; tokenType?: string } | null;
+  getNode: (id: string) => ScriptNodeInfo | null;
   
   // Shorthand to get a specific token from a node
   get: (nodeId: string, tokenId: string) => number;
   
   // Persistent state for this node (survives between ticks)
   state: Record<string, unknown>;
+  
+  // Seed for the sandbox Math.random/random (omit to keep QuickJS native random)
+  randomSeed?: number;
+  
+  // (Connection scripts only) Nodes at both ends of the connection
+  source?: ScriptNodeInfo;
+  target?: ScriptNodeInfo;
+  
+  // Register values by name (also defined as globals)
+  registers?: Record<string, number>;
+  
+  // Market prices by good token id
+  prices?: Record<string, number>;
+  
+  // Keep decimals in the result (registers); other scripts return whole numbers
+  keepDecimals?: boolean;
+  
+  // (Converter scripts only) May return { consume, produce } instead of a number
+  allowExchange?: boolean;
+}
+
+/**
+ * Typed result of a converter script, e.g. { consume: { iron: 2 }, produce: { sword: 1, scrap: 1 } }.
+ * The engine applies it like a recipe, if the converter holds the consumed tokens.
+ */
+export interface ScriptExchange {
+  consume: TypedResources;
+  produce: TypedResources;
 }
 
 /**
@@ -76,9 +160,58 @@ export interface ScriptContext {
  */
 export interface ScriptResult {
   success: boolean;
-  value: number;
+  value: number;          // For exchanges: total produced
   error?: string;
   newState?: Record<string, number>;
+  exchange?: ScriptExchange;
+}
+
+/**
+ * Read a { consume, produce } object returned by a converter script.
+ * Amounts are whole numbers >= 0 (decimals are floored).
+ * Returns the error message if the object is invalid.
+ */
+export function parseScriptExchange(raw: unknown): ScriptExchange | string {
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) {
+    return 'Return a number or { consume: {...}, produce: {...} }';
+  }
+  const exchange: ScriptExchange = { consume: {}, produce: {} };
+  for (const [key, tokens] of Object.entries(raw)) {
+    if (key !== 'consume' && key !== 'produce') return `Unknown key "${key}" (use consume and produce)`;
+    if (tokens === null || typeof tokens !== 'object' || Array.isArray(tokens)) {
+      return `${key} must be an object of token amounts, e.g. { iron: 2 }`;
+    }
+    for (const [tokenId, amount] of Object.entries(tokens)) {
+      if (typeof amount !== 'number' || !isFinite(amount) || amount < 0) {
+        return `${key}.${tokenId} must be a number >= 0`;
+      }
+      const whole = Math.floor(amount);
+      if (whole > 0) exchange[key][tokenId] = whole;
+    }
+  }
+  return exchange;
+}
+
+// Turn a script's return value into a result: a number (floored unless keepDecimals),
+// or an exchange object for converter scripts
+function toScriptResult(rawValue: unknown, context: ScriptContext, newState: Record<string, number>): ScriptResult {
+  if (context.allowExchange && rawValue !== null && typeof rawValue === 'object') {
+    const exchange = parseScriptExchange(rawValue);
+    if (typeof exchange === 'string') return { success: false, value: 0, error: exchange };
+    const produced = Object.values(exchange.produce).reduce((sum, amount) => sum + amount, 0);
+    return { success: true, value: produced, newState, exchange };
+  }
+
+  const value = typeof rawValue === 'number' ? rawValue : Number(rawValue);
+  if (typeof value !== 'number' || !isFinite(value)) {
+    const expected = context.allowExchange ? 'a number or { consume, produce }' : 'a number';
+    return { success: false, value: 0, error: `Script must return ${expected}` };
+  }
+  return {
+    success: true,
+    value: Math.max(0, context.keepDecimals ? value : Math.floor(value)),
+    newState,
+  };
 }
 
 /**
@@ -188,6 +321,8 @@ export async function executeScript(
           return node.tokens[tokenId] || 0;
         }
       `);
+      vm.evalCode(linkedNodesCode(context));
+      vm.evalCode(registersCode(context));
       
       // Expose Math functions using QuickJS's NATIVE Math object.
       // This avoids host↔sandbox handle boundary issues that cause
@@ -212,6 +347,11 @@ export async function executeScript(
         var E = Math.E;
       `);
       
+      // Seeded random for deterministic simulations
+      if (context.randomSeed !== undefined) {
+        vm.evalCode(seededRandomCode(context.randomSeed));
+      }
+      
       // log() function for debugging scripts (outputs to browser console)
       const logFn = vm.newFunction("__logRaw", (msgHandle) => {
         const msg = vm.getString(msgHandle);
@@ -248,9 +388,6 @@ export async function executeScript(
       if (isScriptDebug()) console.log('[Script] raw return:', rawValue, 'typeof:', typeof rawValue);
       result.value.dispose();
       
-      // Coerce to number
-      const value = typeof rawValue === 'number' ? rawValue : Number(rawValue);
-      if (isScriptDebug()) console.log('[Script] coerced value:', value, 'isFinite:', isFinite(value));
       
       // Get updated state
       const stateHandle = vm.getProp(vm.global, "state");
@@ -274,16 +411,10 @@ export async function executeScript(
       }
       stateHandle.dispose();
       
-      // Validate result
-      if (typeof value !== 'number' || !isFinite(value)) {
-        return { success: false, value: 0, error: 'Script must return a number' };
-      }
-      
-      return { 
-        success: true, 
-        value: Math.max(0, Math.floor(value)),
-        newState
-      };
+      // Validate result (a number, or { consume, produce } for converters)
+      const scriptResult = toScriptResult(rawValue, context, newState);
+      if (isScriptDebug()) console.log('[Script] result:', scriptResult);
+      return scriptResult;
       
     } finally {
       vm.dispose();
@@ -302,7 +433,12 @@ export async function executeScript(
 /**
  * Validate a script without running it in simulation context
  */
-export async function validateScript(script: string): Promise<string | null> {
+export async function validateScript(
+  script: string,
+  registers?: Record<string, number>,
+  allowExchange = false,
+  prices?: Record<string, number>
+): Promise<string | null> {
   if (!script || script.trim() === '') {
     return null; // Empty is valid (will use default)
   }
@@ -320,6 +456,11 @@ export async function validateScript(script: string): Promise<string | null> {
     getNode: () => ({ resources: 50, capacity: 100, tokens: { black: 50 } }),
     get: () => 0,
     state: {},
+    source: { resources: 10, capacity: 100, tokens: { black: 10 } },
+    target: { resources: 50, capacity: 100, tokens: { black: 50 } },
+    registers,
+    prices,
+    allowExchange,
   });
   
   if (!result.success) {
@@ -502,6 +643,11 @@ export async function executeBatchScripts(
           vm.setProp(vm.global, "__getNodeJSON", getNodeJSONFn);
           getNodeJSONFn.dispose();
           
+          // Seeded random (re-seeded per script so batch order doesn't matter)
+          if (ctx.randomSeed !== undefined) {
+            vm.evalCode(seededRandomCode(ctx.randomSeed));
+          }
+          
           // getNode and get wrappers in pure QuickJS
           vm.evalCode(`
             function getNode(id) {
@@ -517,6 +663,8 @@ export async function executeBatchScripts(
               return node.tokens[tokenId] || 0;
             }
           `);
+          vm.evalCode(linkedNodesCode(ctx));
+          vm.evalCode(registersCode(ctx));
           
           // Execute the script
           const wrappedScript = `(function() { ${entry.script} })()`;
@@ -542,9 +690,6 @@ export async function executeBatchScripts(
           if (isScriptDebug()) console.log(`[Script ${entry.nodeId}] raw return:`, rawValue, 'typeof:', typeof rawValue);
           evalResult.value.dispose();
           
-          const value = typeof rawValue === 'number' ? rawValue : Number(rawValue);
-          if (isScriptDebug()) console.log(`[Script ${entry.nodeId}] coerced value:`, value);
-          
           // Get updated state
           const stateHandle = vm.getProp(vm.global, "state");
           const newState: Record<string, number> = {};
@@ -562,22 +707,10 @@ export async function executeBatchScripts(
           }
           stateHandle.dispose();
           
-          // Validate and store result
-          if (typeof value !== 'number' || !isFinite(value)) {
-            results.push({
-              nodeId: entry.nodeId,
-              result: { success: false, value: 0, error: 'Script must return a number' }
-            });
-          } else {
-            results.push({
-              nodeId: entry.nodeId,
-              result: {
-                success: true,
-                value: Math.max(0, Math.floor(value)),
-                newState
-              }
-            });
-          }
+          // Validate and store result (a number, or { consume, produce } for converters)
+          const scriptResult = toScriptResult(rawValue, ctx, newState);
+          if (isScriptDebug()) console.log(`[Script ${entry.nodeId}] result:`, scriptResult);
+          results.push({ nodeId: entry.nodeId, result: scriptResult });
           
         } catch (scriptError) {
           results.push({
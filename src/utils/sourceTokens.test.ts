@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { NodeData } from '../types';
+import { formatSourceTokens, getSourceProduction, getSourceTokenMode, limitTokens } from './sourceTokens';
+import { createEdge, createNode, run } from '../engine/testUtils';
+
+// A chest: 10 gold (orange) and 1 gem (blue) per unit
+const chest = {
+  sourceTokenMode: 'bundle',
+  sourceTokens: [{ tokenId: 'orange', amount: 10 }, { tokenId: 'blue', amount: 1 }],
+} as NodeData;
+
+// Gold 90, gem 10 by weight
+const mix = { ...chest, sourceTokenMode: 'mix', sourceTokens: [{ tokenId: 'orange', amount: 90 }, { tokenId: 'blue', amount: 10 }] } as NodeData;
+
+describe('getSourceProduction', () => {
+  it('produces one token type per unit by default', () => {
+    expect(getSourceProduction({ tokenType: 'red' } as NodeData, 3, Math.random)).toEqual({ red: 3 });
+  });
+
+  it('produces every bundle token per unit', () => {
+    expect(getSourceProduction(chest, 2, Math.random)).toEqual({ orange: 20, blue: 2 });
+  });
+
+  it('picks one mix token per unit by weight', () => {
+    const rolls = [0.5, 0.95, 0.1];
+    expect(getSourceProduction(mix, 3, () => rolls.shift()!)).toEqual({ orange: 2, blue: 1 });
+  });
+
+  it('stops at the max production, counting tokens', () => {
+    expect(getSourceProduction({ ...chest, maxProduction: 15, totalProduced: 4 }, 1, Math.random))
+      .toEqual({ orange: 10, blue: 1 });
+    expect(getSourceProduction({ ...chest, maxProduction: 15, totalProduced: 9 }, 1, Math.random))
+      .toEqual({ orange: 60 / 11, blue: 6 / 11 });
+  });
+
+  it('falls back to a single token without valid entries', () => {
+    expect(getSourceTokenMode({ ...chest, sourceTokens: [{ tokenId: 'orange', amount: 0 }] })).toBe('single');
+  });
+});
+
+describe('limitTokens', () => {
+  it('scales every type down proportionally', () => {
+    expect(limitTokens({ orange: 30, blue: 10 }, 8)).toEqual({ orange: 6, blue: 2 });
+    expect(limitTokens({ orange: 3 }, 8)).toEqual({ orange: 3 });
+    expect(limitTokens({ orange: 3 }, 0)).toEqual({});
+  });
+});
+
+describe('formatSourceTokens', () => {
+  it('shows the bundle or the mix shares', () => {
+    const label = (tokenId: string) => tokenId[0];
+    expect(formatSourceTokens(chest, label)).toBe('10o+1b');
+    expect(formatSourceTokens(mix, label)).toBe('o90% b10%');
+  });
+});
+
+describe('sources with a token mix', () => {
+  const runChests = (data: Partial<NodeData>, seed: number) => run(
+    [createNode('chest', 'source', data), createNode('bag', 'pool', { capacity: -1 })],
+    [createEdge('e1', 'chest', 'bag', { flowRate: 1000 })],
+    20,
+    { settings: { seed, propagationMode: 'snapshot' } }
+  );
+
+  it('deliver every bundle token', () => {
+    expect(runChests(chest, 1).bag.typedResources).toEqual({ orange: 200, blue: 20 });
+  });
+
+  it('roll the same mix for the same seed', () => {
+    const first = runChests(mix, 7).bag.typedResources;
+    expect(runChests(mix, 7).bag.typedResources).toEqual(first);
+    expect((first.orange ?? 0) + (first.blue ?? 0)).toBe(20);
+  });
+});
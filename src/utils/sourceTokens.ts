@@ -0,0 +1,122 @@
+/**
+ * Source token mixes: what a Source produces besides a single token type.
+ *
+ * A Source's production (rate, formula, script or click) is a number of units.
+ * The token mode turns those units into tokens:
+ *   single  every unit is one token of tokenType (the default)
+ *   bundle  every unit produces each listed token, e.g. 10 gold + 1 gem per unit
+ *   mix     every unit is one token picked at random by weight, e.g. gold 90, gem 10
+ *
+ * Random picks use the seeded generator, so a run with the same seed produces the
+ * same mix. Max production and capacity count tokens in every mode.
+ */
+
+import { NodeData, SourceTokenEntry, SourceTokenMode, TypedResources } from '../types';
+
+export const SOURCE_TOKEN_MODE_LABELS: Record<SourceTokenMode, string> = {
+  single: 'Single token',
+  bundle: 'Bundle (all per unit)',
+  mix: 'Random mix (by weight)',
+};
+
+// Entries that can produce something (bundle: amount per unit, mix: weight)
+const getValidEntries = (data: NodeData): SourceTokenEntry[] =>
+  (data.sourceTokens ?? []).filter((entry) => entry.tokenId && entry.amount > 0);
+
+/**
+ * Token mode of a source (single when the bundle/mix has no valid entry)
+ */
+export function getSourceTokenMode(data: NodeData): SourceTokenMode {
+  const mode = data.sourceTokenMode ?? 'single';
+  return mode !== 'single' && getValidEntries(data).length > 0 ? mode : 'single';
+}
+
+/**
+ * Token types a source produces
+ */
+export function getSourceTokenIds(data: NodeData): string[] {
+  if (getSourceTokenMode(data) === 'single') return [data.tokenType || 'black'];
+  return [...new Set(getValidEntries(data).map((entry) => entry.tokenId))];
+}
+
+/**
+ * Share (0-1) of each token type in a source's production
+ */
+export function getSourceTokenShares(data: NodeData): TypedResources {
+  if (getSourceTokenMode(data) === 'single') return { [data.tokenType || 'black']: 1 };
+  const entries = getValidEntries(data);
+  const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+  const shares: TypedResources = {};
+  for (const { tokenId, amount } of entries) {
+    shares[tokenId] = (shares[tokenId] ?? 0) + amount / total;
+  }
+  return shares;
+}
+
+/**
+ * Limit tokens to a total, scaling every type down proportionally
+ */
+export function limitTokens(tokens: TypedResources, max: number): TypedResources {
+  const entries = Object.entries(tokens).filter(([, amount]) => amount > 0);
+  const total = entries.reduce((sum, [, amount]) => sum + amount, 0);
+  if (total <= max) return tokens;
+  if (max <= 0) return {};
+  if (entries.length === 1) return { [entries[0][0]]: max };
+  return Object.fromEntries(entries.map(([tokenId, amount]) => [tokenId, (amount * max) / total]));
+}
+
+/**
+ * Tokens produced by a number of production units, limited by max production
+ *
+ * @param random Seeded generator for the random mix (0 ≤ value < 1)
+ */
+export function getSourceProduction(data: NodeData, production: number, random: () => number): TypedResources {
+  const mode = getSourceTokenMode(data);
+  const entries = getValidEntries(data);
+  const tokens: TypedResources = {};
+
+  if (mode === 'single') {
+    tokens[data.tokenType || 'black'] = production;
+  } else if (mode === 'bundle') {
+    for (const { tokenId, amount } of entries) {
+      tokens[tokenId] = (tokens[tokenId] ?? 0) + amount * production;
+    }
+  } else {
+    // One pick per whole unit; a fractional unit goes to one more pick
+    const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+    const pick = (): string => {
+      let roll = random() * total;
+      return (entries.find((entry) => (roll -= entry.amount) < 0) ?? entries[entries.length - 1]).tokenId;
+    };
+    const units = Math.floor(production);
+    for (let i = 0; i < units; i++) {
+      const tokenId = pick();
+      tokens[tokenId] = (tokens[tokenId] ?? 0) + 1;
+    }
+    const fraction = production - units;
+    if (fraction > 0) {
+      const tokenId = pick();
+      tokens[tokenId] = (tokens[tokenId] ?? 0) + fraction;
+    }
+  }
+
+  const maxProduction = data.maxProduction ?? -1;
+  if (maxProduction === -1) return tokens;
+  return limitTokens(tokens, Math.max(0, maxProduction - (data.totalProduced ?? 0)));
+}
+
+/**
+ * Text of a source's tokens, e.g. "10🪙+1💎" (bundle) or "🪙90% 💎10%" (mix)
+ *
+ * @param getTokenLabel Short label of a token (e.g. its emoji)
+ */
+export function formatSourceTokens(data: NodeData, getTokenLabel: (tokenId: string) => string): string {
+  const mode = getSourceTokenMode(data);
+  if (mode === 'single') return getTokenLabel(data.tokenType || 'black');
+  if (mode === 'bundle') {
+    return getValidEntries(data).map(({ tokenId, amount }) => `${amount}${getTokenLabel(tokenId)}`).join('+');
+  }
+  return Object.entries(getSourceTokenShares(data))
+    .map(([tokenId, share]) => `${getTokenLabel(tokenId)}${Number((share * 100).toFixed(1))}%`)
+    .join(' ');
+}
@@ -0,0 +1,117 @@
+/**
+ * Statistics export helpers (CSV) shared by the editor and the CLI.
+ */
+
+import { ResourceHistoryEntry, getHistoryKeyLabel, parseCounterKey } from '../engine/simulationEngine';
+import { MonteCarloResult } from '../engine/monteCarlo';
+import { SweepResult, COMPLETION_METRIC_KEY, COMPLETION_METRIC_LABEL } from '../engine/parameterSweep';
+
+/**
+ * Quote a CSV field if it contains separators, quotes or newlines.
+ */
+export function csvEscape(value: string): string {
+  if (/[",\n\r]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Convert resource history to CSV.
+ *
+ * Columns: Tick, one column per node (header = label), then one column per
+ * token total (header = `token:<id>`), then the pool overflow and drain
+ * demand counters (header = "<label> blocked", "<label> unmet"...). Keys are collected across ALL entries,
+ * so nodes/tokens that appear mid-run still get a column (missing = 0).
+ *
+ * @param history Resource history entries (one per tick)
+ * @param nodeLabels Map nodeId → label for headers
+ */
+export function historyToCSV(history: ResourceHistoryEntry[], nodeLabels: Record<string, string>): string {
+  const nodeKeys: string[] = [];
+  const tokenKeys: string[] = [];
+  const counterKeys: string[] = [];
+  const seen = new Set<string>(['tick']);
+
+  for (const entry of history) {
+    for (const key of Object.keys(entry)) {
+      if (seen.has(key)) continue;
+      seen.add(key);
+      if (key.startsWith('token:')) tokenKeys.push(key);
+      else if (parseCounterKey(key)) counterKeys.push(key);
+      else nodeKeys.push(key);
+    }
+  }
+
+  const keys = [...nodeKeys, ...tokenKeys, ...counterKeys];
+  const header = ['Tick', ...keys.map(key => csvEscape(getHistoryKeyLabel(key, nodeLabels)))].join(',');
+
+  const rows = history.map(entry => {
+    const values = [entry.tick.toString()];
+    for (const key of keys) {
+      values.push((entry[key] ?? 0).toString());
+    }
+    return values.join(',');
+  });
+
+  return [header, ...rows].join('\n');
+}
+
+/**
+ * Convert Monte Carlo aggregate statistics to CSV.
+ *
+ * Long format, one row per (series, tick):
+ * Series, Key, Tick, Mean, Min, P5, P25, P50, P75, P95, Max
+ * Series is the node label (or `token:<id>`, "<label> blocked"), Key the raw history key.
+ * If some runs met an End Condition, a last row (Key `completion`, Tick =
+ * number of completed runs) holds the ticks-to-completion statistics.
+ *
+ * @param result Aggregated batch result
+ * @param nodeLabels Map nodeId → label
+ */
+export function monteCarloToCSV(result: MonteCarloResult, nodeLabels: Record<string, string>): string {
+  const header = 'Series,Key,Tick,Mean,Min,P5,P25,P50,P75,P95,Max';
+  const rows: string[] = [];
+
+  for (const key of result.keys) {
+    const label = csvEscape(getHistoryKeyLabel(key, nodeLabels));
+    for (const s of result.series[key]) {
+      rows.push([label, csvEscape(key), s.tick, s.mean, s.min, s.p5, s.p25, s.p50, s.p75, s.p95, s.max].join(','));
+    }
+  }
+
+  const c = result.completion;
+  if (c) {
+    const label = csvEscape(`Ticks to completion (${c.completedRuns}/${result.runs} runs)`);
+    rows.push([label, COMPLETION_METRIC_KEY, c.completedRuns, c.mean, c.min, c.p5, c.p25, c.p50, c.p75, c.p95, c.max].join(','));
+  }
+
+  return [header, ...rows].join('\n');
+}
+
+/**
+ * Convert parameter sweep results to CSV.
+ *
+ * One row per point: one column per swept parameter (`<label>.<field>`),
+ * then the metric (`<series> @ tick N`). Points not computed are left empty.
+ *
+ * @param result Sweep result
+ * @param labels Map node/edge id → label (series keys fall back to the key)
+ */
+export function sweepToCSV(result: SweepResult, labels: Record<string, string>): string {
+  const paramHeaders = result.parameters.map(p => csvEscape(`${labels[p.id] || p.id}.${p.field}`));
+  const metricHeader = result.metric.key === COMPLETION_METRIC_KEY
+    ? csvEscape(`${COMPLETION_METRIC_LABEL} (max ${result.metric.tick} ticks)`)
+    : csvEscape(`${getHistoryKeyLabel(result.metric.key, labels)} @ tick ${result.metric.tick}`);
+  const header = [...paramHeaders, metricHeader].join(',');
+
+  const rows: string[] = [];
+  result.values.forEach((row, y) => {
+    row.forEach((value, x) => {
+      const params = result.yValues.length > 0 ? [result.xValues[x], result.yValues[y]] : [result.xValues[x]];
+      rows.push([...params, Number.isNaN(value) ? '' : value].join(','));
+    });
+  });
+
+  return [header, ...rows].join('\n');
+}
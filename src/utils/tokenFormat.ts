@@ -0,0 +1,22 @@
+/**
+ * Short text of token amounts, with the token emojis (e.g. "2🔩+1⚔️"),
+ * as shown on nodes and in the properties panel.
+ */
+
+import { TokenDefinition, TypedResources } from '../types';
+
+type GetToken = (id: string) => TokenDefinition | undefined;
+
+export function formatTokenAmounts(amounts: TypedResources, getToken: GetToken): string {
+  const parts = Object.entries(amounts)
+    .filter(([, amount]) => amount > 0)
+    .map(([tokenId, amount]) => `${amount}${getToken(tokenId)?.emoji || '●'}`);
+  return parts.length > 0 ? parts.join('+') : '0';
+}
+
+/**
+ * Consumed → produced amounts, e.g. "2🔩→1⚔️+1🪨".
+ */
+export function formatExchange(exchange: { consume: TypedResources; produce: TypedResources }, getToken: GetToken): string {
+  return `${formatTokenAmounts(exchange.consume, getToken)}→${formatTokenAmounts(exchange.produce, getToken)}`;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { getShortSides, isValidTraderRatio } from './traderRatios';
+import { createEdge, createNode, run, stock } from '../engine/testUtils';
+
+// 3 wood (black) for 1 gold (orange)
+const woodForGold = { tokenA: 'black', amountA: 3, tokenB: 'orange', amountB: 1 };
+
+describe('trader ratio rules', () => {
+  it('need both tokens and positive amounts', () => {
+    expect(isValidTraderRatio(woodForGold)).toBe(true);
+    expect(isValidTraderRatio({ ...woodForGold, amountB: 0 })).toBe(false);
+    expect(isValidTraderRatio({ ...woodForGold, tokenA: '' })).toBe(false);
+  });
+
+  it('report the side a trade waits for', () => {
+    expect(getShortSides([woodForGold], { black: 3 }, {})).toEqual(['b']);
+    expect(getShortSides([woodForGold], { black: 2 }, { orange: 1 })).toEqual(['a']);
+    expect(getShortSides([woodForGold], { black: 3 }, { orange: 1 })).toEqual([]);
+  });
+});
+
+describe('traders with ratios', () => {
+  const runTrader = (ticks: number) => run(
+    [
+      createNode('woodIn', 'pool', stock({ black: 10 })),
+      createNode('goldIn', 'pool', stock({ orange: 2 })),
+      createNode('trader', 'trader', { traderRatios: [woodForGold] }),
+      createNode('woodOut', 'pool'),
+      createNode('goldOut', 'pool'),
+    ],
+    [
+      createEdge('e1', 'woodIn', 'trader', { flowRate: 2 }, { targetHandle: 'input-a' }),
+      createEdge('e2', 'goldIn', 'trader', { flowRate: 1 }, { targetHandle: 'input-b' }),
+      createEdge('e3', 'trader', 'woodOut', { flowRate: 10 }, { sourceHandle: 'output-b' }),
+      createEdge('e4', 'trader', 'goldOut', { flowRate: 10 }, { sourceHandle: 'output-a' }),
+    ],
+    ticks
+  );
+
+  it('trade full units only and keep the leftovers', () => {
+    const result = runTrader(4);
+    expect(result.woodOut.typedResources).toEqual({ black: 6 });
+    expect(result.goldOut.typedResources).toEqual({ orange: 2 });
+    expect(result.trader.traderTypedA).toEqual({ black: 2 });
+  });
+
+  it('refuse a trade while one side is short', () => {
+    const result = runTrader(1);
+    expect(result.woodOut.resources).toBe(0);
+    expect(result.goldOut.resources).toBe(0);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Trader exchange ratios.
+ *
+ * Without ratios a Trader swaps whatever arrives on input A and input B one-for-one.
+ * With ratios ("3 wood for 1 gold") it buffers what arrives on each input and only
+ * trades full units: amountA of tokenA from input A leave through output B, and
+ * amountB of tokenB from input B leave through output A. A trade is refused while
+ * either side is short; leftovers wait in the buffers for the next tick.
+ *
+ * The engine runs the trades in stepSimulation (phase 4); this module holds the
+ * per-ratio rules and texts.
+ */
+
+import { NodeData, TraderRatio, TypedResources } from '../types';
+import { getTokenResources } from './migration';
+
+/**
+ * Default ratio of a new row: 1 black (A) for 1 black (B)
+ */
+export function createTraderRatio(): TraderRatio {
+  return { tokenA: 'black', amountA: 1, tokenB: 'black', amountB: 1 };
+}
+
+/**
+ * Whether a trader trades by ratios (otherwise it swaps everything one-for-one)
+ */
+export function hasTraderRatios(data: NodeData): boolean {
+  return (data.traderRatios ?? []).length > 0;
+}
+
+/**
+ * Whether a ratio can trade at all (both amounts positive, both tokens set)
+ */
+export function isValidTraderRatio(ratio: TraderRatio): boolean {
+  return !!ratio.tokenA && !!ratio.tokenB && ratio.amountA > 0 && ratio.amountB > 0;
+}
+
+/**
+ * Sides holding part of a trade but short of the other part, for each ratio
+ * ('a' = input A is short, 'b' = input B is short)
+ */
+export function getShortSides(ratios: TraderRatio[], bufferA: TypedResources, bufferB: TypedResources): Array<'a' | 'b'> {
+  const short = new Set<'a' | 'b'>();
+  for (const ratio of ratios) {
+    if (!isValidTraderRatio(ratio)) continue;
+    const hasA = getTokenResources(bufferA, ratio.tokenA) >= ratio.amountA;
+    const hasB = getTokenResources(bufferB, ratio.tokenB) >= ratio.amountB;
+    if (hasA && !hasB) short.add('b');
+    if (hasB && !hasA) short.add('a');
+  }
+  return Array.from(short);
+}
+
+/**
+ * Text of a ratio, e.g. "3🪵 ⇄ 1🪙"
+ *
+ * @param getTokenLabel Short label of a token (e.g. its emoji)
+ */
+export function formatTraderRatio(ratio: TraderRatio, getTokenLabel: (tokenId: string) => string): string {
+  return `${ratio.amountA}${getTokenLabel(ratio.tokenA)} ⇄ ${ratio.amountB}${getTokenLabel(ratio.tokenB)}`;
+}
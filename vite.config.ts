@@ -9,5 +9,9 @@ export default defineConfig(({ command }) => ({
   },
   build: {
     target: 'esnext'
+  },
+  // The simulation worker imports QuickJS (dynamic imports + WASM): needs ES module workers
+  worker: {
+    format: 'es'
   }
 }));